@@ -12,6 +12,7 @@ import { dirname, join } from "path";
 // Get the directory where this script lives
 const ROOT_DIR = dirname(import.meta.path);
 const SRC_CLI = join(ROOT_DIR, "src", "cli.ts");
+const SRC_WORKER = join(ROOT_DIR, "src", "check", "rules", "utils", "rule-worker.ts");
 const BIN_DIR = join(ROOT_DIR, "bin");
 
 interface BuildTarget {
@@ -38,7 +39,7 @@ async function build(targets: BuildTarget[]): Promise<void> {
     console.log(`Building ${outputName}...`);
 
     try {
-      await $`bun build ${SRC_CLI} --compile --minify --bytecode --target=${target} --outfile=${outputPath}`;
+      await $`bun build ${SRC_CLI} ${SRC_WORKER} --compile --minify --bytecode --target=${target} --outfile=${outputPath}`;
       console.log(`  ✅ Created bin/${outputName}`);
     } catch (error) {
       console.error(`  ❌ Failed to build ${outputName}`);
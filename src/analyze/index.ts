@@ -1,6 +1,6 @@
 import { existsSync, writeFileSync } from "node:fs";
-import { join } from "node:path";
-import { loadConfig } from "../check/config-loader";
+import { extname, join, relative, resolve } from "node:path";
+import { findConfigFile, loadConfig } from "../check/config-loader";
 import { detectAIInstructionFiles } from "../check/rules/ai-instructions";
 import type { ChaperoneConfig, CustomRule } from "../check/types";
 import { mergeRules, countAIRules } from "./config-merger";
@@ -17,6 +17,15 @@ export async function analyze(options: AnalyzeOptions): Promise<AnalyzeResult> {
 
   const log = verbose ? (msg: string) => console.log(`  ${msg}`) : () => {};
 
+  // Extracted rules are written back as JSON, which would overwrite comments or code
+  const configFile = configPath ? resolve(cwd, configPath) : (findConfigFile(cwd) ?? join(cwd, CONFIG_FILENAME));
+  if (!dryRun && extname(configFile) !== ".json") {
+    throw new Error(
+      `chaperone analyze can only write rules to a .json config, not ${relative(cwd, configFile)}. ` +
+        "Use --dry-run to preview the rules and add them yourself."
+    );
+  }
+
   // Load existing config
   log("Loading configuration...");
   let config: ChaperoneConfig;
@@ -77,7 +86,6 @@ export async function analyze(options: AnalyzeOptions): Promise<AnalyzeResult> {
 
   // Write config if not dry-run
   if (!dryRun && added.length > 0) {
-    const configFile = configPath ?? join(cwd, CONFIG_FILENAME);
     log(`Writing configuration to ${configFile}...`);
     writeFileSync(configFile, JSON.stringify(newConfig, null, 2) + "\n", "utf-8");
   }
@@ -287,7 +295,7 @@ DESCRIPTION:
   enforceable rules using Claude. Extracted rules are written to .chaperone.json.
 
 OPTIONS:
-  --config, -c <path>   Config file path (default: .chaperone.json)
+  --config, -c <path>   Config file path (default: nearest chaperone config)
   --cwd <path>          Working directory (default: current directory)
   --dry-run             Preview extracted rules without saving
   --force               Replace existing AI-extracted rules
@@ -0,0 +1,74 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { CheckResult } from "./types";
+import { applyBaseline, BASELINE_FILENAME, createBaseline, loadBaseline, writeBaseline } from "./baseline";
+
+let cwd: string;
+
+const result = (file: string, line: number | undefined, message = "No TODOs"): CheckResult => ({
+  file,
+  line,
+  rule: "regex/no-todo",
+  message,
+  severity: "error",
+  source: "custom",
+});
+
+beforeEach(() => {
+  cwd = mkdtempSync(join(tmpdir(), "chaperone-baseline-"));
+});
+
+afterEach(() => {
+  rmSync(cwd, { recursive: true, force: true });
+});
+
+describe("baseline", () => {
+  test("hides known violations after unrelated edits shift their lines", () => {
+    writeFileSync(join(cwd, "a.ts"), "// TODO one\n// TODO two\n");
+    writeBaseline(cwd, createBaseline([result("a.ts", 1), result("a.ts", 2)], cwd));
+
+    writeFileSync(join(cwd, "a.ts"), "const x = 1;\n// TODO one\n// TODO two\n// TODO three\n");
+    const { results, summary } = applyBaseline(
+      [result("a.ts", 2), result("a.ts", 3), result("a.ts", 4)],
+      loadBaseline(cwd)!,
+      cwd
+    );
+
+    expect(results.map((r) => r.line)).toEqual([4]);
+    expect(summary).toEqual({ file: BASELINE_FILENAME, matched: 2, fixed: 0, updated: false });
+  });
+
+  test("counts identical violations and reports fixed ones", () => {
+    writeFileSync(join(cwd, "a.ts"), "// TODO\n// TODO\n// TODO\n");
+    const baseline = createBaseline([result("a.ts", 1), result("a.ts", 2), result("a.ts", 3)], cwd);
+    expect(baseline.entries.map((entry) => entry.count)).toEqual([3]);
+
+    const { results, summary } = applyBaseline([result("a.ts", 1)], baseline, cwd);
+    expect(results).toEqual([]);
+    expect(summary.matched).toBe(1);
+    expect(summary.fixed).toBe(2);
+  });
+
+  test("keeps entries of files outside a scoped run", () => {
+    writeFileSync(join(cwd, "a.ts"), "// TODO\n");
+    writeFileSync(join(cwd, "b.ts"), "// TODO\n");
+    const previous = createBaseline([result("a.ts", 1), result("b.ts", 1)], cwd);
+
+    // Only a.ts was checked, and its violation is gone
+    const covered = new Set(["a.ts"]);
+    expect(applyBaseline([], previous, cwd, covered).summary.fixed).toBe(1);
+    expect(createBaseline([], cwd, previous, covered).entries.map((entry) => entry.file)).toEqual(["b.ts"]);
+  });
+
+  test("rejects invalid baseline files", () => {
+    expect(loadBaseline(cwd)).toBeNull();
+
+    writeFileSync(join(cwd, BASELINE_FILENAME), "{");
+    expect(() => loadBaseline(cwd)).toThrow(`Failed to parse ${BASELINE_FILENAME}`);
+
+    writeFileSync(join(cwd, BASELINE_FILENAME), JSON.stringify({ version: 2, entries: [] }));
+    expect(() => loadBaseline(cwd)).toThrow("is not a valid baseline");
+  });
+});
@@ -0,0 +1,171 @@
+import { createHash } from "node:crypto";
+import { existsSync, readFileSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import type { BaselineSummary, CheckResult } from "./types";
+
+export const BASELINE_FILENAME = ".chaperone-baseline.json";
+
+/**
+ * A known violation recorded in the baseline file.
+ * `count` tracks identical violations (same rule, file, message and line content).
+ */
+export interface BaselineEntry {
+  rule: string;
+  file: string;
+  fingerprint: string;
+  message: string;
+  count: number;
+}
+
+export interface Baseline {
+  version: 1;
+  entries: BaselineEntry[];
+}
+
+/**
+ * Reads file lines for fingerprinting, loading each file at most once
+ */
+function createLineReader(cwd: string): (file: string, line: number) => string {
+  const cache = new Map<string, string[]>();
+
+  return (file, line) => {
+    let lines = cache.get(file);
+    if (!lines) {
+      try {
+        lines = readFileSync(join(cwd, file), "utf-8").split("\n");
+      } catch {
+        lines = [];
+      }
+      cache.set(file, lines);
+    }
+    return (lines[line - 1] ?? "").trim();
+  };
+}
+
+/**
+ * Fingerprint a result by its content rather than its position, so unrelated edits
+ * that shift line numbers do not invalidate the baseline
+ */
+function fingerprint(result: CheckResult, readLine: (file: string, line: number) => string): string {
+  const lineText = result.line !== undefined ? readLine(result.file, result.line) : "";
+  return createHash("sha256")
+    .update([result.rule, result.file, result.message, lineText].join("\0"))
+    .digest("hex")
+    .slice(0, 16);
+}
+
+const entryKey = (entry: Pick<BaselineEntry, "rule" | "file" | "fingerprint">): string =>
+  `${entry.rule}\0${entry.file}\0${entry.fingerprint}`;
+
+/**
+ * Load the baseline file from cwd. Returns null when there is none.
+ */
+export function loadBaseline(cwd: string): Baseline | null {
+  const path = join(cwd, BASELINE_FILENAME);
+  if (!existsSync(path)) {
+    return null;
+  }
+
+  let parsed: Partial<Baseline>;
+  try {
+    parsed = JSON.parse(readFileSync(path, "utf-8"));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Failed to parse ${BASELINE_FILENAME}: ${message}`);
+  }
+
+  if (parsed.version !== 1 || !Array.isArray(parsed.entries)) {
+    throw new Error(`${BASELINE_FILENAME} is not a valid baseline (expected version 1 with an entries array)`);
+  }
+
+  return { version: 1, entries: parsed.entries };
+}
+
+/**
+ * Build a baseline from the current results.
+ * When only some files were checked (`coveredFiles`), entries of the previous baseline
+ * for other files are carried over unchanged.
+ */
+export function createBaseline(
+  results: CheckResult[],
+  cwd: string,
+  previous: Baseline | null = null,
+  coveredFiles?: Set<string>
+): Baseline {
+  const readLine = createLineReader(cwd);
+  const entries = new Map<string, BaselineEntry>();
+
+  if (previous && coveredFiles) {
+    for (const entry of previous.entries) {
+      if (!coveredFiles.has(entry.file)) entries.set(entryKey(entry), { ...entry });
+    }
+  }
+
+  for (const result of results) {
+    const entry = { rule: result.rule, file: result.file, fingerprint: fingerprint(result, readLine) };
+    const key = entryKey(entry);
+    const existing = entries.get(key);
+    if (existing) {
+      existing.count++;
+    } else {
+      entries.set(key, { ...entry, message: result.message, count: 1 });
+    }
+  }
+
+  const sorted = Array.from(entries.values()).sort(
+    (a, b) => a.file.localeCompare(b.file) || a.rule.localeCompare(b.rule) || a.fingerprint.localeCompare(b.fingerprint)
+  );
+  return { version: 1, entries: sorted };
+}
+
+/**
+ * Write the baseline file to cwd
+ */
+export function writeBaseline(cwd: string, baseline: Baseline): void {
+  writeFileSync(join(cwd, BASELINE_FILENAME), JSON.stringify(baseline, null, 2) + "\n");
+}
+
+/**
+ * Drop results recorded in the baseline.
+ * Baseline entries without a matching result are counted as fixed; with `coveredFiles`,
+ * only entries for those files are considered, since other files were not checked.
+ */
+export function applyBaseline(
+  results: CheckResult[],
+  baseline: Baseline,
+  cwd: string,
+  coveredFiles?: Set<string>
+): { results: CheckResult[]; summary: BaselineSummary } {
+  const readLine = createLineReader(cwd);
+  const remaining = new Map<string, number>();
+  for (const entry of baseline.entries) {
+    remaining.set(entryKey(entry), (remaining.get(entryKey(entry)) ?? 0) + entry.count);
+  }
+
+  const kept: CheckResult[] = [];
+  let matched = 0;
+  for (const result of results) {
+    const key = entryKey({ rule: result.rule, file: result.file, fingerprint: fingerprint(result, readLine) });
+    const count = remaining.get(key) ?? 0;
+    if (count > 0) {
+      remaining.set(key, count - 1);
+      matched++;
+    } else {
+      kept.push(result);
+    }
+  }
+
+  let fixed = 0;
+  for (const entry of baseline.entries) {
+    if (coveredFiles && !coveredFiles.has(entry.file)) continue;
+    const left = remaining.get(entryKey(entry)) ?? 0;
+    const unmatched = Math.min(left, entry.count);
+    remaining.set(entryKey(entry), left - unmatched);
+    fixed += unmatched;
+  }
+
+  return {
+    results: kept,
+    summary: { file: BASELINE_FILENAME, matched, fixed, updated: false },
+  };
+}
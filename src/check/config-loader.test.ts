@@ -0,0 +1,112 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { findConfigFile, resolveConfig, resolvePackageConfig } from "./config-loader";
+
+let cwd: string;
+
+beforeEach(() => {
+  cwd = mkdtempSync(join(tmpdir(), "chaperone-config-"));
+});
+
+afterEach(() => {
+  rmSync(cwd, { recursive: true, force: true });
+});
+
+const regexRule = (id: string, extra: Record<string, unknown> = {}) => ({
+  id,
+  type: "regex",
+  severity: "error",
+  files: "src/**/*.ts",
+  pattern: "TODO",
+  message: "No TODOs",
+  ...extra,
+});
+
+describe("resolveConfig", () => {
+  test("records which preset or file defined, overrode and disabled each rule", () => {
+    writeFileSync(join(cwd, "base.json"), JSON.stringify({ rules: { custom: [regexRule("a"), regexRule("b")] } }));
+    writeFileSync(
+      join(cwd, "team.json"),
+      JSON.stringify({ extends: ["./base.json"], rules: { custom: [regexRule("b", { severity: "warning" })] } })
+    );
+    writeFileSync(
+      join(cwd, ".chaperone.json"),
+      JSON.stringify({
+        version: "1.0.0",
+        extends: ["./team.json"],
+        rules: { custom: [regexRule("a", { disabled: true }), regexRule("c")] },
+      })
+    );
+
+    const resolved = resolveConfig(cwd);
+
+    expect(resolved.config.rules?.custom?.map((rule) => rule.id)).toEqual(["b", "c"]);
+    expect(resolved.ruleOrigins).toEqual({
+      b: { definedIn: "./team.json > ./base.json", overriddenIn: ["./team.json"] },
+      c: { definedIn: ".chaperone.json", overriddenIn: [] },
+    });
+    expect(resolved.disabledRules).toEqual({
+      a: { definedIn: "./team.json > ./base.json", overriddenIn: [".chaperone.json"] },
+    });
+  });
+});
+
+describe("resolvePackageConfig", () => {
+  test("cascades the root config into the package's own config", () => {
+    writeFileSync(
+      join(cwd, ".chaperone.json"),
+      JSON.stringify({ version: "1.0.0", plugins: ["./rules.ts"], rules: { custom: [regexRule("a"), regexRule("b")] } })
+    );
+    mkdirSync(join(cwd, "packages/app"), { recursive: true });
+    writeFileSync(
+      join(cwd, "packages/app/.chaperone.yaml"),
+      "include:\n  - lib/**\nrules:\n  custom:\n    - id: b\n      type: regex\n      severity: error\n      disabled: true\n"
+    );
+
+    const resolved = resolvePackageConfig(resolveConfig(cwd), join(cwd, "packages/app"));
+
+    expect(resolved.config.include).toEqual(["lib/**"]);
+    expect(resolved.config.plugins).toEqual([join(cwd, "rules.ts")]);
+    expect(resolved.config.rules?.custom?.map((rule) => rule.id)).toEqual(["a"]);
+    expect(resolved.disabledRules).toEqual({
+      b: { definedIn: ".chaperone.json", overriddenIn: ["packages/app/.chaperone.yaml"] },
+    });
+  });
+});
+
+describe("findConfigFile", () => {
+  test("walks up from cwd and stops at the repository root", () => {
+    mkdirSync(join(cwd, "repo/.git"), { recursive: true });
+    mkdirSync(join(cwd, "repo/packages/app"), { recursive: true });
+    writeFileSync(join(cwd, "repo/.chaperone.yaml"), "version: '1.0.0'\n");
+    writeFileSync(join(cwd, ".chaperone.json"), "{}");
+
+    expect(findConfigFile(join(cwd, "repo/packages/app"))).toBe(join(cwd, "repo/.chaperone.yaml"));
+
+    rmSync(join(cwd, "repo/.chaperone.yaml"));
+    expect(findConfigFile(join(cwd, "repo/packages/app"))).toBeNull();
+  });
+
+  test("reads YAML, JSONC and module configs in order of precedence", () => {
+    writeFileSync(join(cwd, ".chaperone.yml"), "version: '1.0.0'\ninclude:\n  - app/**\n");
+    expect(resolveConfig(cwd).config.include).toEqual(["app/**"]);
+
+    writeFileSync(join(cwd, ".chaperone.jsonc"), '{\n  // comment\n  "version": "1.0.0",\n  "include": ["lib/**"],\n}');
+    expect(resolveConfig(cwd).config.include).toEqual(["lib/**"]);
+
+    writeFileSync(join(cwd, "chaperone.config.ts"), 'export default { version: "1.0.0", include: ["src/**"] };\n');
+    expect(resolveConfig(cwd).path).toBe(join(cwd, "chaperone.config.ts"));
+    expect(resolveConfig(cwd).config.include).toEqual(["src/**"]);
+  });
+
+  test("provides the chaperone module to module configs", () => {
+    writeFileSync(
+      join(cwd, "chaperone.config.ts"),
+      'import { defineConfig } from "chaperone";\n\nexport default defineConfig({ version: "1.0.0", include: ["src/**"] });\n'
+    );
+
+    expect(resolveConfig(cwd).config.include).toEqual(["src/**"]);
+  });
+});
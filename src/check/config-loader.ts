@@ -1,23 +1,142 @@
 import { existsSync, readFileSync } from "node:fs";
-import { join, resolve, dirname } from "node:path";
+import { createRequire } from "node:module";
+import { join, relative, resolve, dirname, extname } from "node:path";
+import { YAML } from "bun";
 import { ChaperoneConfig, CustomRule, DEFAULT_CONFIG } from "./types";
-import { getBuiltInPreset } from "../presets";
+import { getBuiltInPreset, listBuiltInPresets } from "../presets";
+import { createIgnoreMatcher, getIgnoreMatcherOptions, type IgnoreMatcher } from "../utils/ignore";
+import { parseJsonc } from "../utils/jsonc";
 import type { ChaperonePreset } from "../presets";
+import { defineRule, validateCustomRules, type RuleRegistry } from "./rules";
+import { collectFiles, isInScope } from "./rules/utils/collect-files";
+import { readProjectFile, readProjectImports } from "./rules/utils/project-index";
+import { validateToolConfigs } from "./runners/external";
+import { isGitSpecifier, isPackageSpecifier, isTarballSpecifier, resolvePresetPackage } from "./preset-resolver";
 
-const CONFIG_FILENAME = ".chaperone.json";
+export const CONFIG_FILENAME = ".chaperone.json";
+
+/**
+ * Config file names looked up in each directory, in order of precedence
+ */
+export const CONFIG_FILENAMES = [
+  "chaperone.config.ts",
+  "chaperone.config.js",
+  "chaperone.config.mjs",
+  CONFIG_FILENAME,
+  ".chaperone.jsonc",
+  ".chaperone.yaml",
+  ".chaperone.yml",
+];
+
+/**
+ * Type helper for chaperone.config.ts / .js: `export default defineConfig({ ... })`
+ */
+export function defineConfig(config: ChaperoneConfig): ChaperoneConfig {
+  return config;
+}
+
+let chaperoneModuleProvided = false;
+
+/**
+ * Let config and plugin modules `import { defineConfig, defineRule, ... } from "chaperone"`.
+ * The CLI ships as a compiled binary, so there is usually no chaperone package to resolve.
+ */
+export function provideChaperoneModule(): void {
+  if (chaperoneModuleProvided) return;
+  chaperoneModuleProvided = true;
+
+  Bun.plugin({
+    name: "chaperone-module",
+    setup(build) {
+      build.module("chaperone", () => ({
+        exports: { defineConfig, defineRule, collectFiles, isInScope, readProjectFile, readProjectImports },
+        loader: "object",
+      }));
+    },
+  });
+}
+
+/**
+ * Find the config file for cwd: the first of CONFIG_FILENAMES in cwd or the nearest parent,
+ * stopping at the repository root (the directory containing .git).
+ */
+export function findConfigFile(cwd: string): string | null {
+  for (let dir = resolve(cwd); ; dir = dirname(dir)) {
+    for (const name of CONFIG_FILENAMES) {
+      const path = join(dir, name);
+      if (existsSync(path)) return path;
+    }
+    if (existsSync(join(dir, ".git")) || dirname(dir) === dir) return null;
+  }
+}
+
+/**
+ * Read a config or preset file. JSON files may contain comments and trailing commas;
+ * .ts/.js/.mjs modules provide the config as their default export.
+ */
+export function readConfigFile(path: string): Partial<ChaperoneConfig> {
+  const extension = extname(path);
+  let config: unknown;
+
+  if (extension === ".ts" || extension === ".js" || extension === ".mjs") {
+    provideChaperoneModule();
+    const load = createRequire(path);
+    // Watch mode reloads the config after edits
+    delete load.cache[path];
+    const module = load(path);
+    config = module.default ?? module;
+  } else if (extension === ".yaml" || extension === ".yml") {
+    config = YAML.parse(readFileSync(path, "utf-8"));
+  } else {
+    config = parseJsonc(readFileSync(path, "utf-8"));
+  }
+
+  if (!config || typeof config !== "object" || Array.isArray(config)) {
+    throw new Error("Config must be an object");
+  }
+  return config as Partial<ChaperoneConfig>;
+}
+
+/**
+ * A config merged into the final config, with where it came from
+ */
+interface ConfigLayer {
+  source: string; // Preset chain ("chaperone/react-layered", "@acme/preset > ./base.json") or config file name
+  config: Partial<ChaperoneConfig>;
+}
+
+/**
+ * Where a custom rule of the resolved config was declared
+ */
+export interface RuleOrigin {
+  definedIn: string; // First preset or config file declaring the rule id
+  overriddenIn: string[]; // Later presets or config files redeclaring it, in merge order
+}
+
+/**
+ * A loaded config together with the origin of each custom rule
+ */
+export interface ResolvedConfig {
+  config: ChaperoneConfig;
+  path: string | null; // null when no config file exists and defaults are used
+  ruleOrigins: Record<string, RuleOrigin>;
+  disabledRules: Record<string, RuleOrigin>; // Rules removed by a later `disabled: true`; overriddenIn ends with the disabling source
+}
 
 /**
  * Resolve extends specifiers to preset configs, then merge into a base config.
  * Supports:
  *   - "chaperone/<name>" → built-in preset
- *   - "./<path>" or "../<path>" → local JSON file relative to configDir
+ *   - "./<path>" or "../<path>" → local config file (JSON, YAML or module) relative to configDir
+ *   - "<package>" or "@scope/<package>[/<subpath>]" → preset published to node_modules
+ *   - "git+https://…#<ref>", "github:<org>/<repo>#<ref>", "https://….tgz" → preset vendored under .chaperone/presets
  */
 function resolveExtends(
   specifiers: string[],
   configDir: string,
   ancestry: Set<string> = new Set()
-): Partial<ChaperoneConfig>[] {
-  const resolved: Partial<ChaperoneConfig>[] = [];
+): ConfigLayer[] {
+  const resolved: ConfigLayer[] = [];
 
   for (const specifier of specifiers) {
     if (ancestry.has(specifier)) {
@@ -28,12 +147,14 @@ function resolveExtends(
     newAncestry.add(specifier);
 
     let preset: ChaperonePreset | Partial<ChaperoneConfig> | null = null;
+    // Relative paths inside package presets (nested extends, plugins) belong to the package
+    let presetDir = configDir;
 
     if (specifier.startsWith("chaperone/")) {
       const name = specifier.slice("chaperone/".length);
       preset = getBuiltInPreset(name);
       if (!preset) {
-        throw new Error(`Unknown built-in preset: ${specifier}. Available presets: ${["react-layered"].join(", ")}`);
+        throw new Error(`Unknown built-in preset: ${specifier}. Available presets: ${listBuiltInPresets().join(", ")}`);
       }
     } else if (specifier.startsWith("./") || specifier.startsWith("../")) {
       const presetPath = resolve(configDir, specifier);
@@ -41,14 +162,20 @@ function resolveExtends(
         throw new Error(`Preset file not found: ${presetPath}`);
       }
       try {
-        const content = readFileSync(presetPath, "utf-8");
-        preset = JSON.parse(content);
+        preset = readConfigFile(presetPath);
       } catch (error) {
         const message = error instanceof Error ? error.message : String(error);
         throw new Error(`Failed to load preset from ${presetPath}: ${message}`);
       }
+    } else if (isPackageSpecifier(specifier) || isGitSpecifier(specifier) || isTarballSpecifier(specifier)) {
+      const loaded = resolvePresetPackage(specifier, configDir);
+      preset = loaded.preset;
+      presetDir = dirname(loaded.path);
     } else {
-      throw new Error(`Unsupported preset specifier: "${specifier}". Use "chaperone/<name>" for built-in presets or "./<path>" for local files.`);
+      throw new Error(
+        `Unsupported preset specifier: "${specifier}". Use "chaperone/<name>" for built-in presets, "./<path>" for local files, ` +
+          `a package name, or a pinned git or tarball URL.`
+      );
     }
 
     if (!preset) continue;
@@ -56,19 +183,24 @@ function resolveExtends(
     // Recursively resolve nested extends
     const nestedExtends = (preset as ChaperonePreset).extends ?? (preset as Partial<ChaperoneConfig>).extends;
     if (nestedExtends && nestedExtends.length > 0) {
-      const nestedResolved = resolveExtends(nestedExtends, configDir, newAncestry);
+      const nestedResolved = resolveExtends(nestedExtends, presetDir, newAncestry);
       resolved.push(...nestedResolved);
     }
 
     // Convert preset to partial config shape
+    const plugins = (preset as Partial<ChaperoneConfig>).plugins;
     const partialConfig: Partial<ChaperoneConfig> = {
+      plugins:
+        presetDir === configDir
+          ? plugins
+          : plugins?.map((plugin) => (plugin.startsWith("./") || plugin.startsWith("../") ? resolve(presetDir, plugin) : plugin)),
       rules: (preset as ChaperonePreset).rules ?? (preset as Partial<ChaperoneConfig>).rules,
       include: (preset as ChaperonePreset).include ?? (preset as Partial<ChaperoneConfig>).include,
       exclude: (preset as ChaperonePreset).exclude ?? (preset as Partial<ChaperoneConfig>).exclude,
       integrations: (preset as ChaperonePreset).integrations ?? (preset as Partial<ChaperoneConfig>).integrations,
     };
 
-    resolved.push(partialConfig);
+    resolved.push({ source: [...newAncestry].join(" > "), config: partialConfig });
   }
 
   return resolved;
@@ -97,47 +229,124 @@ function mergeCustomRules(
 }
 
 /**
- * Load chaperone configuration from file
+ * Track which layer declared and redeclared each custom rule id
  */
-export function loadConfig(cwd: string, configPath?: string): ChaperoneConfig {
-  const resolvedPath = configPath ? resolve(cwd, configPath) : join(cwd, CONFIG_FILENAME);
-  const isExplicitPath = !!configPath;
-
-  if (!existsSync(resolvedPath)) {
-    if (isExplicitPath) {
-      // Error if user explicitly specified a config that doesn't exist
-      throw new Error(`Config file not found: ${resolvedPath}`);
+function collectRuleOrigins(
+  layers: ConfigLayer[],
+  config: ChaperoneConfig,
+  inherited: Record<string, RuleOrigin> = {}
+): Pick<ResolvedConfig, "ruleOrigins" | "disabledRules"> {
+  const origins = new Map<string, RuleOrigin>(
+    Object.entries(inherited).map(([id, origin]) => [id, { ...origin, overriddenIn: [...origin.overriddenIn] }])
+  );
+  for (const layer of layers) {
+    for (const rule of layer.config.rules?.custom ?? []) {
+      const origin = origins.get(rule.id);
+      if (origin) {
+        origin.overriddenIn.push(layer.source);
+      } else {
+        origins.set(rule.id, { definedIn: layer.source, overriddenIn: [] });
+      }
     }
+  }
+
+  const ruleOrigins: Record<string, RuleOrigin> = {};
+  const disabledRules: Record<string, RuleOrigin> = {};
+  const active = new Set((config.rules?.custom ?? []).filter((rule) => !rule.disabled).map((rule) => rule.id));
+  for (const [id, origin] of origins) {
+    if (active.has(id)) ruleOrigins[id] = origin;
+    else disabledRules[id] = origin;
+  }
+  return { ruleOrigins, disabledRules };
+}
+
+/**
+ * Load chaperone configuration from file, recording where each custom rule came from.
+ * Without an explicit path, the nearest config file is used (see findConfigFile).
+ */
+export function resolveConfig(cwd: string, configPath?: string): ResolvedConfig {
+  const resolvedPath = configPath ? resolve(cwd, configPath) : findConfigFile(cwd);
+
+  if (!resolvedPath) {
     // Return default config if no config file exists
-    return { ...DEFAULT_CONFIG };
+    return { config: { ...DEFAULT_CONFIG }, path: null, ruleOrigins: {}, disabledRules: {} };
+  }
+  if (!existsSync(resolvedPath)) {
+    // Error if user explicitly specified a config that doesn't exist
+    throw new Error(`Config file not found: ${resolvedPath}`);
   }
 
   try {
-    const content = readFileSync(resolvedPath, "utf-8");
-    const parsed = JSON.parse(content) as Partial<ChaperoneConfig>;
+    const parsed = readConfigFile(resolvedPath);
     const configDir = dirname(resolvedPath);
+    const local: ConfigLayer = { source: relative(cwd, resolvedPath) || CONFIG_FILENAME, config: parsed };
 
     // Resolve extends chain
     if (parsed.extends && parsed.extends.length > 0) {
-      const presetConfigs = resolveExtends(parsed.extends, configDir);
+      const layers = [...resolveExtends(parsed.extends, configDir), local];
 
       // Build merged config: DEFAULT → preset1 → preset2 → ... → user config
       let merged = { ...DEFAULT_CONFIG };
-      for (const presetConfig of presetConfigs) {
-        merged = mergeConfigWithCustomRuleMerge(merged, presetConfig);
+      for (const layer of layers) {
+        merged = mergeConfigWithCustomRuleMerge(merged, layer.config);
       }
-      merged = mergeConfigWithCustomRuleMerge(merged, parsed);
-      return merged;
+      return { config: merged, path: resolvedPath, ...collectRuleOrigins(layers, merged) };
     }
 
     // Merge with defaults
-    return mergeConfig(DEFAULT_CONFIG, parsed);
+    const config = mergeConfig(DEFAULT_CONFIG, parsed);
+    return { config, path: resolvedPath, ...collectRuleOrigins([local], config) };
   } catch (error) {
     const message = error instanceof Error ? error.message : String(error);
     throw new Error(`Failed to load config from ${resolvedPath}: ${message}`);
   }
 }
 
+/**
+ * Resolve the config of a workspace package: the root config, cascaded with the package's
+ * own config file (if any) and its extends. Relative plugin paths of the root config keep
+ * pointing at the root.
+ */
+export function resolvePackageConfig(root: ResolvedConfig, packageDir: string): ResolvedConfig {
+  const rootDir = root.path ? dirname(root.path) : packageDir;
+  const base: ChaperoneConfig = {
+    ...root.config,
+    plugins: root.config.plugins?.map((plugin) =>
+      plugin.startsWith("./") || plugin.startsWith("../") ? resolve(rootDir, plugin) : plugin
+    ),
+  };
+  const inherited = { ...root.ruleOrigins, ...root.disabledRules };
+
+  const path = CONFIG_FILENAMES.map((name) => join(packageDir, name)).find((candidate) => existsSync(candidate));
+  if (!path) {
+    return { ...root, config: base };
+  }
+
+  try {
+    const parsed = readConfigFile(path);
+    const layers = [
+      ...resolveExtends(parsed.extends ?? [], packageDir),
+      { source: relative(rootDir, path), config: parsed },
+    ];
+
+    let merged = base;
+    for (const layer of layers) {
+      merged = mergeConfigWithCustomRuleMerge(merged, layer.config);
+    }
+    return { config: merged, path, ...collectRuleOrigins(layers, merged, inherited) };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Failed to load config from ${path}: ${message}`);
+  }
+}
+
+/**
+ * Load chaperone configuration from file
+ */
+export function loadConfig(cwd: string, configPath?: string): ChaperoneConfig {
+  return resolveConfig(cwd, configPath).config;
+}
+
 /**
  * Deep merge configuration objects
  */
@@ -172,6 +381,12 @@ function mergeConfig(
     };
   }
 
+  if (overrides.plugins) {
+    // Presets can bring their own rule types; each plugin is loaded once
+    const inherited = defaults.plugins ?? [];
+    result.plugins = [...inherited, ...overrides.plugins.filter((plugin) => !inherited.includes(plugin))];
+  }
+
   if (overrides.include) {
     result.include = overrides.include;
   }
@@ -184,6 +399,10 @@ function mergeConfig(
     result.integrations = { ...defaults.integrations, ...overrides.integrations };
   }
 
+  if (overrides.workspaces !== undefined) {
+    result.workspaces = overrides.workspaces;
+  }
+
   if (overrides.aiInstructions) {
     result.aiInstructions = {
       ...defaults.aiInstructions,
@@ -231,6 +450,12 @@ function mergeConfigWithCustomRuleMerge(
     };
   }
 
+  if (overrides.plugins) {
+    // Presets can bring their own rule types; each plugin is loaded once
+    const inherited = defaults.plugins ?? [];
+    result.plugins = [...inherited, ...overrides.plugins.filter((plugin) => !inherited.includes(plugin))];
+  }
+
   if (overrides.include) {
     result.include = overrides.include;
   }
@@ -243,6 +468,10 @@ function mergeConfigWithCustomRuleMerge(
     result.integrations = { ...defaults.integrations, ...overrides.integrations };
   }
 
+  if (overrides.workspaces !== undefined) {
+    result.workspaces = overrides.workspaces;
+  }
+
   if (overrides.aiInstructions) {
     result.aiInstructions = {
       ...defaults.aiInstructions,
@@ -254,169 +483,56 @@ function mergeConfigWithCustomRuleMerge(
 }
 
 /**
- * Validate configuration
+ * Validate configuration. Custom rules are checked by their registered validators,
+ * so pass a registry with plugins loaded to validate plugin rules.
  */
-export function validateConfig(config: ChaperoneConfig): string[] {
+export function validateConfig(config: ChaperoneConfig, registry?: RuleRegistry): string[] {
   const errors: string[] = [];
 
   if (!config.version) {
     errors.push("Missing version field");
   }
 
-  if (config.rules?.custom) {
-    for (let i = 0; i < config.rules.custom.length; i++) {
-      const rule = config.rules.custom[i];
-      const ruleId = rule.id;
-      const ruleType = rule.type;
-
-      if (!ruleId) {
-        errors.push(`Custom rule at index ${i} is missing 'id'`);
-      }
-
-      if (!ruleType) {
-        errors.push(`Custom rule '${ruleId || i}' is missing 'type'`);
-      }
-
-      if (ruleType === "file-naming") {
-        if (!rule.pattern) {
-          errors.push(`File naming rule '${ruleId}' is missing 'pattern'`);
-        }
-      }
-
-      if (ruleType === "file-pairing") {
-        if (!rule.files) {
-          errors.push(`File pairing rule '${ruleId}' is missing 'files'`);
-        }
-
-        if (!rule.pair?.from) {
-          errors.push(`File pairing rule '${ruleId}' is missing 'pair.from'`);
-        }
-
-        if (!rule.pair?.to) {
-          errors.push(`File pairing rule '${ruleId}' is missing 'pair.to'`);
-        }
-      }
-
-      if (ruleType === "file-contract") {
-        if (!rule.files) {
-          errors.push(`File contract rule '${ruleId}' is missing 'files'`);
-        }
-      }
-
-      if (ruleType === "regex") {
-        if (!rule.pattern) {
-          errors.push(`Regex rule '${ruleId}' is missing 'pattern'`);
-        }
-        if (!rule.files) {
-          errors.push(`Regex rule '${ruleId}' is missing 'files'`);
-        }
-        if (!rule.message) {
-          errors.push(`Regex rule '${ruleId}' is missing 'message'`);
-        }
-      }
-
-      if (ruleType === "package-fields") {
-        if (!rule.requiredFields || !Array.isArray(rule.requiredFields) || rule.requiredFields.length === 0) {
-          errors.push(`Package fields rule '${ruleId}' is missing 'requiredFields'`);
-        }
-      }
-
-      if (ruleType === "component-location") {
-        if (!rule.files) {
-          errors.push(`Component location rule '${ruleId}' is missing 'files'`);
-        }
-        if (!rule.componentType) {
-          errors.push(`Component location rule '${ruleId}' is missing 'componentType'`);
-        }
-        if (!rule.requiredLocation) {
-          errors.push(`Component location rule '${ruleId}' is missing 'requiredLocation'`);
-        }
-      }
-
-      if (ruleType === "command") {
-        if (!rule.command) {
-          errors.push(`Command rule '${ruleId}' is missing 'command'`);
-        }
-      }
-
-      if (ruleType === "symbol-reference") {
-        if (!rule.sourceFiles) {
-          errors.push(`Symbol reference rule '${ruleId}' is missing 'sourceFiles'`);
-        }
-        if (!rule.targetFiles) {
-          errors.push(`Symbol reference rule '${ruleId}' is missing 'targetFiles'`);
-        }
-      }
-
-      if (ruleType === "retired-path") {
-        if (!rule.paths || !Array.isArray(rule.paths) || rule.paths.length === 0) {
-          errors.push(`Retired path rule '${ruleId}' is missing 'paths'`);
-        }
-      }
-
-      if (ruleType === "file-suffix-content") {
-        if (!rule.suffix) {
-          errors.push(`File suffix content rule '${ruleId}' is missing 'suffix'`);
-        }
-        if (!rule.files) {
-          errors.push(`File suffix content rule '${ruleId}' is missing 'files'`);
-        }
-      }
-
-      if (ruleType === "file-structure") {
-        if (!rule.parentDirs) {
-          errors.push(`File structure rule '${ruleId}' is missing 'parentDirs'`);
-        }
-        if (!rule.required || !Array.isArray(rule.required) || rule.required.length === 0) {
-          errors.push(`File structure rule '${ruleId}' is missing 'required'`);
-        }
-      }
-
-      if (ruleType === "forbidden-import") {
-        if (!rule.files) {
-          errors.push(`Forbidden import rule '${ruleId}' is missing 'files'`);
-        }
-      }
-
-      if (ruleType === "import-boundary") {
-        if (!rule.layers || typeof rule.layers !== "object" || Object.keys(rule.layers).length === 0) {
-          errors.push(`Import boundary rule '${ruleId}' is missing 'layers'`);
-        }
-      }
+  if (config.plugins !== undefined && !Array.isArray(config.plugins)) {
+    errors.push("'plugins' must be an array of module paths");
+  }
 
-      if (ruleType === "public-api") {
-        if (!rule.modules) {
-          errors.push(`Public API rule '${ruleId}' is missing 'modules'`);
-        }
-        if (!rule.files) {
-          errors.push(`Public API rule '${ruleId}' is missing 'files'`);
-        }
-      }
+  if (config.rules?.tools) {
+    errors.push(...validateToolConfigs(config.rules.tools));
+  }
 
-      if (ruleType === "relationship") {
-        if (!rule.when?.files) {
-          errors.push(`Relationship rule '${ruleId}' is missing 'when.files'`);
-        }
-        if (!rule.then || !Array.isArray(rule.then) || rule.then.length === 0) {
-          errors.push(`Relationship rule '${ruleId}' is missing 'then'`);
-        }
-      }
-    }
+  if (config.rules?.custom) {
+    errors.push(...validateCustomRules(config.rules.custom, registry));
   }
 
   return errors;
 }
 
 /**
- * Get effective include/exclude patterns
+ * Build an ignore-file matcher from the `integrations` settings.
+ * Returns undefined when no ignore files are enabled.
+ */
+export function createIntegrationsIgnoreMatcher(
+  config: ChaperoneConfig,
+  cwd: string
+): IgnoreMatcher | undefined {
+  const options = getIgnoreMatcherOptions(config.integrations);
+  return options ? createIgnoreMatcher(cwd, options) : undefined;
+}
+
+/**
+ * Get effective include/exclude patterns.
+ * When `cwd` is given, the ignore files enabled in `integrations` are loaded as well.
  */
 export function getEffectivePatterns(
   config: ChaperoneConfig,
   overrideInclude?: string[],
-  overrideExclude?: string[]
-): { include: string[]; exclude: string[] } {
+  overrideExclude?: string[],
+  cwd?: string
+): { include: string[]; exclude: string[]; isIgnored?: IgnoreMatcher } {
   return {
     include: overrideInclude ?? config.include ?? DEFAULT_CONFIG.include ?? [],
     exclude: overrideExclude ?? config.exclude ?? DEFAULT_CONFIG.exclude ?? [],
+    isIgnored: cwd ? createIntegrationsIgnoreMatcher(config, cwd) : undefined,
   };
 }
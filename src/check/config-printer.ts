@@ -0,0 +1,72 @@
+import type { ResolvedConfig, RuleOrigin } from "./config-loader";
+
+function describeOrigin(origin: RuleOrigin, disabled: boolean): string {
+  const overrides = disabled ? origin.overriddenIn.slice(0, -1) : origin.overriddenIn;
+  const parts = [`from ${origin.definedIn}`];
+  if (overrides.length > 0) parts.push(`overridden in ${overrides.join(", ")}`);
+  if (disabled) parts.push(`disabled in ${origin.overriddenIn.at(-1) ?? origin.definedIn}`);
+  return parts.join(", ");
+}
+
+function indent(text: string, spaces: number): string {
+  const padding = " ".repeat(spaces);
+  return text
+    .split("\n")
+    .map((line) => padding + line)
+    .join("\n");
+}
+
+/**
+ * Render the effective config as JSONC, with a comment above each custom rule naming
+ * the preset or config file that defined it and any that overrode it. Disabled rules
+ * are left out of the config and listed in a trailing comment.
+ */
+export function formatResolvedConfig(resolved: ResolvedConfig): string {
+  const { config } = resolved;
+  const rules = (config.rules?.custom ?? []).filter((rule) => !rule.disabled);
+  const placeholder = "\0custom";
+
+  let output = JSON.stringify(
+    config.rules ? { ...config, rules: { ...config.rules, custom: placeholder } } : config,
+    null,
+    2
+  );
+
+  const rendered = rules.map((rule) => {
+    const origin = resolved.ruleOrigins[rule.id];
+    const comment = origin ? `// ${describeOrigin(origin, false)}\n` : "";
+    return indent(`${comment}${JSON.stringify(rule, null, 2)}`, 6);
+  });
+  output = output.replace(
+    JSON.stringify(placeholder),
+    rendered.length > 0 ? `[\n${rendered.join(",\n")}\n    ]` : "[]"
+  );
+
+  const disabled = Object.entries(resolved.disabledRules);
+  if (disabled.length > 0) {
+    output += "\n\n// Disabled rules:";
+    for (const [id, origin] of disabled) {
+      output += `\n//   ${id} (${describeOrigin(origin, true)})`;
+    }
+  }
+
+  return output;
+}
+
+/**
+ * The effective config plus rule origins, for `config print --json`
+ */
+export function formatResolvedConfigJson(resolved: ResolvedConfig): string {
+  const { config, path, ruleOrigins, disabledRules } = resolved;
+  const custom = (config.rules?.custom ?? []).filter((rule) => !rule.disabled);
+  return JSON.stringify(
+    {
+      path,
+      config: config.rules ? { ...config, rules: { ...config.rules, custom } } : config,
+      ruleOrigins,
+      disabledRules,
+    },
+    null,
+    2
+  );
+}
@@ -0,0 +1,32 @@
+import { describe, expect, test } from "bun:test";
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
+import { getBuiltInPreset, listBuiltInPresets } from "../presets";
+import { buildConfigJsonSchema, builtInRuleSchemas, chaperoneConfigSchema } from "./config-schema";
+import { BUILT_IN_RULES } from "./rules";
+
+const ROOT_DIR = join(import.meta.dir, "..", "..");
+
+describe("config schema", () => {
+  test("covers every built-in rule type", () => {
+    const schemaTypes: string[] = builtInRuleSchemas.map((schema) => schema.shape.type.value);
+    expect(schemaTypes.sort()).toEqual(BUILT_IN_RULES.map((runner) => runner.type).sort());
+  });
+
+  test("accepts the built-in presets and this repo's config without dropping fields", () => {
+    const configs = [
+      JSON.parse(readFileSync(join(ROOT_DIR, ".chaperone.json"), "utf-8")),
+      ...listBuiltInPresets().map((name) => ({ version: "1.0.0", rules: getBuiltInPreset(name)!.rules })),
+    ];
+
+    for (const config of configs) {
+      // Unknown keys are stripped, so a lossless round trip means every field is in the schema
+      expect(chaperoneConfigSchema.parse(config)).toEqual(config);
+    }
+  });
+
+  test("schema.json is up to date", () => {
+    const published = JSON.parse(readFileSync(join(ROOT_DIR, "schema.json"), "utf-8"));
+    expect(published).toEqual(buildConfigJsonSchema());
+  });
+});
@@ -0,0 +1,554 @@
+import { z } from "zod";
+import { zodToJsonSchema } from "zod-to-json-schema";
+
+/**
+ * Where the published JSON Schema for .chaperone.json lives; written as `$schema` by `chaperone init`
+ */
+export const CONFIG_SCHEMA_URL = "https://raw.githubusercontent.com/marckraw/chaperone-cli/master/schema.json";
+
+const severitySchema = z.enum(["error", "warning"]).describe("Severity level");
+
+/**
+ * AI-generated metadata (optional on all rules)
+ */
+export const aiGeneratedMetadataSchema = z.object({
+  source: z.string().optional().describe("Source file the rule was extracted from (e.g., 'CLAUDE.md')"),
+  originalText: z.string().optional().describe("The original instruction text from the AI file"),
+});
+
+/**
+ * Fields shared by every custom rule
+ */
+export const baseRuleSchema = z
+  .object({
+    id: z.string().describe("Unique kebab-case identifier for the rule"),
+    severity: severitySchema,
+    exclude: z
+      .array(z.string())
+      .optional()
+      .describe("Glob patterns to exclude from this rule (e.g., ['**/*.test.ts', 'src/generated/**'])"),
+    disabled: z.boolean().optional().describe("Disable a rule inherited from a preset with the same id"),
+  })
+  .merge(aiGeneratedMetadataSchema);
+
+export const scaffoldSchema = z
+  .object({
+    template: z.string().optional().describe("Inline template content ({{file}}, {{companion}}, {{name}} placeholders)"),
+    templateFile: z.string().optional().describe("Path to a template file, relative to the project root"),
+  })
+  .describe("Create missing companion files with --fix");
+
+const pairSchema = z.object({
+  from: z.string().describe("Regex pattern applied to relative file path"),
+  to: z.string().describe("Replacement string for companion file path"),
+});
+
+const messageSchema = z.string().optional().describe("Custom error message");
+
+/**
+ * File naming rule - check for companion files
+ */
+export const fileNamingRuleSchema = baseRuleSchema.extend({
+  type: z.literal("file-naming"),
+  pattern: z.string().describe("Glob pattern for files to check, e.g., 'src/**/*.tsx'"),
+  requireCompanion: z
+    .object({
+      transform: z
+        .string()
+        .describe("Transform pattern for companion file, e.g., '$1.styles.ts' or '$1.test.ts'"),
+    })
+    .optional()
+    .describe("Require a companion file for each match"),
+  scaffold: scaffoldSchema.optional(),
+  message: messageSchema,
+});
+
+/**
+ * File pairing rule - map each file path to a companion path and enforce existence/non-existence
+ */
+export const filePairingRuleSchema = baseRuleSchema.extend({
+  type: z.literal("file-pairing"),
+  files: z.string().describe("Glob pattern for source files to check"),
+  pair: pairSchema,
+  mustExist: z.boolean().optional().describe("If true, companion must exist; if false, companion must NOT exist"),
+  requireTransformMatch: z
+    .boolean()
+    .optional()
+    .describe("If true, fail when pair.from does not match a file path"),
+  scaffold: scaffoldSchema.optional(),
+  message: messageSchema,
+});
+
+/**
+ * File contract assertions - semantic content checks beyond regex
+ */
+export const fileContractAssertionsSchema = z
+  .object({
+    firstLine: z.string().optional().describe("First non-empty, non-comment line must match (string or regex)"),
+    mustExportDefault: z.boolean().optional(),
+    mustExportNamed: z.boolean().optional(),
+    mustNotImport: z.array(z.string()).optional().describe("Module patterns that must not be imported (supports * glob)"),
+    mustImport: z.array(z.string()).optional().describe("Module patterns that must be imported"),
+    maxLines: z.number().int().optional(),
+    minLines: z.number().int().optional(),
+    mustHaveJSDoc: z.boolean().optional().describe("Exported functions must have JSDoc"),
+    maxExports: z.number().int().optional(),
+    mustBeModule: z.boolean().optional().describe("Must have at least one import or export"),
+  })
+  .describe("Semantic content checks");
+
+/**
+ * File contract rule - enforce required/forbidden content patterns per file with optional filename capture
+ */
+export const fileContractRuleSchema = baseRuleSchema.extend({
+  type: z.literal("file-contract"),
+  files: z.string().describe("Glob pattern for files to check"),
+  requiredPatterns: z.array(z.string()).optional().describe("Regex patterns that must match each file"),
+  requiredAnyPatterns: z
+    .array(z.string())
+    .optional()
+    .describe("At least one of these regex patterns must match each file"),
+  forbiddenPatterns: z.array(z.string()).optional().describe("Regex patterns that must not match"),
+  captureFromPath: z
+    .object({
+      pattern: z.string().describe("Regex applied to file path or basename"),
+      group: z.union([z.number().int(), z.string()]).optional().describe("Capture group index or name"),
+      source: z.enum(["path", "basename"]).optional().describe("Capture source (default: path)"),
+    })
+    .optional(),
+  templatedRequiredPatterns: z
+    .array(z.string())
+    .optional()
+    .describe("Required regex patterns with {{capture}} placeholder"),
+  templatedRequiredAnyPatterns: z
+    .array(z.string())
+    .optional()
+    .describe("RequiredAny regex patterns with {{capture}} placeholder"),
+  templatedForbiddenPatterns: z
+    .array(z.string())
+    .optional()
+    .describe("Forbidden regex patterns with {{capture}} placeholder"),
+  assertions: fileContractAssertionsSchema.optional(),
+  message: messageSchema,
+});
+
+/**
+ * Regex rule - search for forbidden/required patterns
+ */
+export const regexRuleSchema = baseRuleSchema.extend({
+  type: z.literal("regex"),
+  pattern: z.string().describe("Regex pattern to search for (properly escaped)"),
+  files: z.string().describe("Glob pattern for files to check, e.g., 'src/**/*.ts'"),
+  message: z.string().describe("Error message explaining the violation"),
+  mustMatch: z
+    .boolean()
+    .optional()
+    .describe("If true, pattern must exist; if false (default), pattern must NOT exist"),
+  reportOnce: z
+    .boolean()
+    .optional()
+    .describe("If true, only report the first match per file (useful for file-level rules like 'must use .tsx extension')"),
+  replacement: z
+    .string()
+    .optional()
+    .describe("Replacement applied by --fix ($&, $1 and $<name> are supported)"),
+});
+
+/**
+ * Package fields rule - validate package.json has required fields
+ */
+export const packageFieldsRuleSchema = baseRuleSchema.extend({
+  type: z.literal("package-fields"),
+  requiredFields: z
+    .array(z.string())
+    .describe("Fields that must exist in package.json (supports dot notation like 'scripts.build')"),
+  forbiddenFields: z
+    .array(z.string())
+    .optional()
+    .describe("Fields that must NOT exist in package.json"),
+  fieldPatterns: z
+    .record(z.string(), z.string())
+    .optional()
+    .describe("Field values must match these regex patterns"),
+  message: messageSchema,
+});
+
+/**
+ * Component location rule - ensure component types are in correct folders
+ */
+export const componentLocationRuleSchema = baseRuleSchema.extend({
+  type: z.literal("component-location"),
+  files: z.string().describe("Glob pattern for component files to check, e.g., 'src/**/*.tsx'"),
+  componentType: z
+    .enum(["presentational", "stateful"])
+    .describe("Type of component: 'presentational' (pure, no hooks/state) or 'stateful' (has hooks/state)"),
+  requiredLocation: z
+    .string()
+    .describe("Folder/pattern where these components should be, e.g., 'src/components/ui/'"),
+  mustBeIn: z
+    .boolean()
+    .describe("If true, components must be in location; if false, must NOT be in location"),
+  message: messageSchema,
+});
+
+/**
+ * Command rule - run command-based invariant checks
+ */
+export const commandRuleSchema = baseRuleSchema.extend({
+  type: z.literal("command"),
+  command: z.string().describe("Executable to run, e.g., 'npm' or 'node'"),
+  args: z.array(z.string()).optional().describe("Command arguments"),
+  cwd: z.string().optional().describe("Optional working directory relative to project root"),
+  timeoutMs: z.number().int().positive().optional().describe("Optional command timeout in milliseconds"),
+  expectedExitCode: z.number().int().optional().describe("Expected process exit code (default: 0)"),
+  stdoutPattern: z.string().optional().describe("Optional regex that stdout must match"),
+  stderrPattern: z.string().optional().describe("Optional regex that stderr must match"),
+  message: messageSchema,
+});
+
+/**
+ * Symbol reference rule - ensure exported symbols are referenced in target files
+ */
+export const symbolReferenceRuleSchema = baseRuleSchema.extend({
+  type: z.literal("symbol-reference"),
+  sourceFiles: z.string().describe("Glob pattern for source files with exported symbols"),
+  targetFiles: z.string().describe("Glob pattern for files where symbols must be referenced"),
+  symbolKinds: z
+    .array(z.enum(["function-declaration", "function-variable"]))
+    .optional()
+    .describe("Kinds of exported symbols to enforce"),
+  symbolPattern: z
+    .string()
+    .optional()
+    .describe("Optional regex filter applied to symbol names before checking"),
+  ignoreSymbols: z.array(z.string()).optional().describe("Symbol names to ignore"),
+  message: messageSchema,
+});
+
+/**
+ * Retired path rule - prevent files in deprecated directories
+ */
+export const retiredPathRuleSchema = baseRuleSchema.extend({
+  type: z.literal("retired-path"),
+  paths: z.array(
+    z.object({
+      pattern: z.string().describe("Glob for the retired location"),
+      reason: z.string().optional().describe("Why the location was retired"),
+      migratedTo: z.string().optional().describe("Where files belong instead"),
+    })
+  ),
+  message: messageSchema,
+});
+
+const namedPatternSchema = z.object({
+  pattern: z.string().describe("Regex pattern"),
+  name: z.string().describe("Name shown in violation messages"),
+});
+
+/**
+ * File suffix content rule - content rules by file suffix
+ */
+export const fileSuffixContentRuleSchema = baseRuleSchema.extend({
+  type: z.literal("file-suffix-content"),
+  suffix: z.string().describe("File suffix, e.g., '.presentational.tsx'"),
+  files: z.string().describe("Glob scope, e.g., 'src/**'"),
+  forbiddenPatterns: z.array(namedPatternSchema).optional(),
+  requiredPatterns: z.array(namedPatternSchema).optional(),
+  message: messageSchema,
+});
+
+/**
+ * File structure rule - enforce feature folder conventions
+ */
+export const fileStructureRuleSchema = baseRuleSchema.extend({
+  type: z.literal("file-structure"),
+  parentDirs: z.string().describe("Glob for parent directories, e.g., 'src/features/*'"),
+  required: z.array(z.string()).describe("Entries that must exist, e.g., ['ui', 'index.ts']"),
+  optional: z.array(z.string()).optional().describe("Entries that may exist, e.g., ['lib', 'model', 'api']"),
+  strict: z.boolean().optional().describe("If true, entries not listed are violations"),
+  message: messageSchema,
+});
+
+const allowedUsageSchema = {
+  allowedIn: z.array(z.string()).describe("Globs for files where this is allowed"),
+  message: messageSchema,
+};
+
+/**
+ * Forbidden import rule - restrict imports to specific files
+ */
+export const forbiddenImportRuleSchema = baseRuleSchema.extend({
+  type: z.literal("forbidden-import"),
+  files: z.string().describe("Glob for files to scan"),
+  restrictions: z.array(
+    z.object({ source: z.string().describe("Regex matching the import source"), ...allowedUsageSchema })
+  ),
+  checkPatterns: z
+    .array(z.object({ pattern: z.string().describe("Regex matching code usage, e.g., '\\\\binvoke\\\\('"), ...allowedUsageSchema }))
+    .optional(),
+  includeTypeImports: z.boolean().optional().describe("Also check type-only imports (default: false)"),
+  message: messageSchema,
+});
+
+/**
+ * Import boundary rule - enforce architectural layer boundaries
+ */
+export const importBoundaryRuleSchema = baseRuleSchema.extend({
+  type: z.literal("import-boundary"),
+  layers: z.record(
+    z.string(),
+    z.object({
+      files: z.string().describe("Glob for the layer's files"),
+      allowImportsFrom: z.array(z.string()).describe("Layer names this layer may import from"),
+    })
+  ),
+  includeTypeImports: z.boolean().optional().describe("Also check type-only imports (default: true)"),
+  includeDynamicImports: z.boolean().optional().describe("Also check dynamic imports (default: true)"),
+  message: messageSchema,
+});
+
+/**
+ * Public API rule - enforce barrel file imports
+ */
+export const publicApiRuleSchema = baseRuleSchema.extend({
+  type: z.literal("public-api"),
+  modules: z.string().describe("Glob for module roots, e.g., 'src/features/*'"),
+  files: z.string().describe("Glob for files to check"),
+  barrelFile: z.string().optional().describe("Barrel file name (default: 'index.ts')"),
+  allowSameModule: z.boolean().optional().describe("Allow deep imports within the same module (default: true)"),
+  message: messageSchema,
+});
+
+const companionSchema = z.object({
+  suffix: z.string().optional().describe("Companion suffix replacing the file's extension"),
+  pair: pairSchema.optional(),
+});
+const patternsSchema = z.object({ patterns: z.array(z.string()) });
+
+/**
+ * Relationship rule actions
+ */
+export const relationshipActionSchema = z.union([
+  z.object({ mustHaveCompanion: companionSchema }).strict(),
+  z.object({ mustNotHaveCompanion: companionSchema }).strict(),
+  z.object({ mustImport: z.object({ companion: z.boolean().optional(), modules: z.array(z.string()).optional() }) }).strict(),
+  z.object({ mustNotImport: z.object({ modules: z.array(z.string()) }) }).strict(),
+  z.object({ companionMustContain: patternsSchema }).strict(),
+  z.object({ companionMustNot: patternsSchema }).strict(),
+  z.object({ fileMustContain: patternsSchema }).strict(),
+  z.object({ fileMustNot: patternsSchema }).strict(),
+  z.object({ companionMaxLines: z.number().int() }).strict(),
+  z.object({ maxLines: z.number().int() }).strict(),
+]);
+
+/**
+ * Relationship rule - composite "if A then B" rules
+ */
+export const relationshipRuleSchema = baseRuleSchema.extend({
+  type: z.literal("relationship"),
+  when: z.object({ files: z.string().describe("Glob for the files the actions apply to") }),
+  then: z.array(relationshipActionSchema),
+  message: messageSchema,
+});
+
+/**
+ * Package boundary rule - dependencies between workspace packages
+ */
+export const packageBoundaryRuleSchema = baseRuleSchema.extend({
+  type: z.literal("package-boundary"),
+  packages: z
+    .array(z.string())
+    .optional()
+    .describe("Workspace globs (default: package.json workspaces or pnpm-workspace.yaml)"),
+  groups: z
+    .record(
+      z.string(),
+      z.object({
+        packages: z
+          .union([z.string(), z.array(z.string())])
+          .describe("Globs for package directories or names, e.g., 'apps/*'"),
+        allowDependenciesOn: z.array(z.string()).describe("Group names this group's packages may depend on"),
+      })
+    )
+    .optional(),
+  requireDeclared: z
+    .boolean()
+    .optional()
+    .describe("Imported workspace packages must be declared in package.json (default: true)"),
+  allowCycles: z.boolean().optional().describe("Allow circular package dependencies (default: false)"),
+  includeTypeImports: z.boolean().optional().describe("Also check type-only imports (default: true)"),
+  includeDynamicImports: z.boolean().optional().describe("Also check dynamic imports (default: true)"),
+  message: messageSchema,
+});
+
+/**
+ * No cycles rule - forbid circular imports between files
+ */
+export const noCyclesRuleSchema = baseRuleSchema.extend({
+  type: z.literal("no-cycles"),
+  files: z.string().describe("Glob for the files in the import graph"),
+  maxCycleLength: z.number().int().min(2).optional().describe("Only report cycles of at most this many files"),
+  includeTypeImports: z.boolean().optional().describe("Also follow type-only imports (default: true)"),
+  includeDynamicImports: z.boolean().optional().describe("Also follow dynamic imports (default: true)"),
+  message: messageSchema,
+});
+
+/**
+ * Dead code rule - files no entry point reaches and exports nothing imports
+ */
+export const deadCodeRuleSchema = baseRuleSchema.extend({
+  type: z.literal("dead-code"),
+  files: z.string().describe("Glob for the files to report on"),
+  entryPoints: z
+    .array(z.string())
+    .min(1)
+    .describe("Globs for files used from outside the import graph (CLI, tests, configs); their exports are public"),
+  unusedFiles: z.boolean().optional().describe("Report files no entry point reaches (default: true)"),
+  unusedExports: z.boolean().optional().describe("Report exports nothing imports (default: true)"),
+  message: messageSchema,
+});
+
+/**
+ * Every built-in custom rule type
+ */
+export const builtInRuleSchemas = [
+  fileNamingRuleSchema,
+  filePairingRuleSchema,
+  fileContractRuleSchema,
+  regexRuleSchema,
+  packageFieldsRuleSchema,
+  componentLocationRuleSchema,
+  commandRuleSchema,
+  symbolReferenceRuleSchema,
+  retiredPathRuleSchema,
+  fileSuffixContentRuleSchema,
+  fileStructureRuleSchema,
+  forbiddenImportRuleSchema,
+  importBoundaryRuleSchema,
+  publicApiRuleSchema,
+  relationshipRuleSchema,
+  packageBoundaryRuleSchema,
+  noCyclesRuleSchema,
+  deadCodeRuleSchema,
+] as const;
+
+export const customRuleSchema = z.discriminatedUnion("type", [...builtInRuleSchemas]);
+
+export const toolConfigSchema = z.object({
+  enabled: z.boolean(),
+  extensions: z.array(z.string()).optional().describe("File extensions passed to the tool"),
+  args: z.array(z.string()).optional().describe("Extra arguments"),
+});
+
+const severityMapSchema = z
+  .record(z.string(), severitySchema)
+  .optional()
+  .describe("Maps the tool's severity values; unmapped values containing 'warn' are warnings");
+
+export const toolOutputParserSchema = z.discriminatedUnion("format", [
+  z.object({
+    format: z.literal("regex"),
+    pattern: z.string().describe("Regex with named groups file, message and optionally line, column, rule, severity"),
+    severityMap: severityMapSchema,
+  }),
+  z.object({
+    format: z.literal("json"),
+    path: z.string().optional().describe("Path selecting result items, e.g., '[].warnings[]'"),
+    fields: z.object({
+      file: z.string(),
+      message: z.string(),
+      line: z.string().optional(),
+      column: z.string().optional(),
+      rule: z.string().optional(),
+      severity: z.string().optional(),
+    }),
+    severityMap: severityMapSchema,
+  }),
+]);
+
+export const externalToolConfigSchema = z.object({
+  name: z.string().describe("Tool name; biome, oxlint, stylelint, vue-tsc and knip need nothing else"),
+  enabled: z.boolean().optional(),
+  command: z.string().optional().describe("Binary, looked up in node_modules/.bin first, then PATH"),
+  args: z.array(z.string()).optional(),
+  fixArgs: z.array(z.string()).optional().describe("Arguments added with --fix"),
+  projectArgs: z.array(z.string()).optional().describe("Arguments added when checking the whole project"),
+  fileArgs: z.boolean().optional().describe("Pass the changed-files scope as arguments (default: true)"),
+  extensions: z.array(z.string()).optional().describe("Only pass scoped files with these extensions"),
+  parser: toolOutputParserSchema.optional(),
+  timeout: z.number().int().positive().optional().describe("Milliseconds (default: 120000)"),
+});
+
+/**
+ * The full .chaperone.json file
+ */
+export const chaperoneConfigSchema = z.object({
+  $schema: z.string().optional(),
+  version: z.string().describe("Config format version"),
+  extends: z
+    .array(z.string())
+    .optional()
+    .describe("Presets: 'chaperone/<name>', './<path>', a package name, or a pinned git or tarball URL"),
+  plugins: z.array(z.string()).optional().describe("Local modules registering custom rule types"),
+  project: z.record(z.string(), z.unknown()).optional().describe("Detected project tooling (written by chaperone init)"),
+  rules: z
+    .object({
+      typescript: toolConfigSchema.optional(),
+      eslint: toolConfigSchema.optional(),
+      prettier: toolConfigSchema.optional(),
+      tools: z.array(externalToolConfigSchema).optional().describe("Extra tool runners (Biome, oxlint, stylelint, ...)"),
+      custom: z.array(customRuleSchema).optional(),
+    })
+    .optional(),
+  include: z.array(z.string()).optional().describe("Globs for files to check"),
+  exclude: z.array(z.string()).optional().describe("Globs for files to skip"),
+  integrations: z
+    .object({
+      respectEslintIgnore: z.boolean().optional(),
+      respectPrettierIgnore: z.boolean().optional(),
+      respectGitignore: z.boolean().optional().describe("Also reads nested .gitignore files"),
+      useTypescriptPaths: z.boolean().optional(),
+    })
+    .optional(),
+  aiInstructions: z
+    .object({
+      autoDetect: z.boolean(),
+      files: z.array(z.string()),
+      extractRules: z.boolean(),
+    })
+    .optional(),
+  workspaces: z
+    .union([z.boolean(), z.array(z.string())])
+    .optional()
+    .describe("Check each workspace package with its own config; globs override package.json / pnpm-workspace.yaml"),
+});
+
+type JsonSchema = Record<string, unknown>;
+
+/**
+ * Generate the JSON Schema for .chaperone.json.
+ * Rules whose type is not built in are accepted with the base rule fields, since plugins register their own types.
+ */
+export function buildConfigJsonSchema(): JsonSchema {
+  const schema = zodToJsonSchema(chaperoneConfigSchema, { $refStrategy: "none" }) as JsonSchema;
+  const rules = (schema["properties"] as Record<string, JsonSchema>)["rules"]!;
+  const custom = (rules["properties"] as Record<string, JsonSchema>)["custom"]!;
+  const builtInTypes = builtInRuleSchemas.map((ruleSchema) => ruleSchema.shape.type.value);
+
+  const pluginRuleSchema = baseRuleSchema.extend({ type: z.string().describe("Rule type registered by a plugin") }).passthrough();
+  const pluginRule = zodToJsonSchema(pluginRuleSchema, { $refStrategy: "none" }) as JsonSchema;
+  delete pluginRule["$schema"];
+
+  custom["items"] = {
+    if: { properties: { type: { enum: builtInTypes } }, required: ["type"] },
+    then: custom["items"],
+    else: pluginRule,
+  };
+
+  return {
+    $schema: "http://json-schema.org/draft-07/schema#",
+    $id: CONFIG_SCHEMA_URL,
+    title: "Chaperone configuration",
+    ...Object.fromEntries(Object.entries(schema).filter(([key]) => key !== "$schema")),
+  };
+}
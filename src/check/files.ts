@@ -0,0 +1,54 @@
+import { existsSync } from "node:fs";
+import { relative, resolve } from "node:path";
+import { globSync } from "../utils/glob";
+import { getChangedFiles, getStagedFiles } from "../utils/git";
+import type { IgnoreMatcher } from "../utils/ignore";
+import type { CheckOptions } from "./types";
+import type { ProjectIndex } from "./rules/types";
+
+/**
+ * Resolve the file set a check is limited to, or undefined for a full project check.
+ * Paths are relative to cwd; deleted files are dropped.
+ */
+export async function resolveFileScope(options: CheckOptions): Promise<string[] | undefined> {
+  const { cwd } = options;
+  let files: string[];
+
+  if (options.files) {
+    files = options.files.map((file) => relative(cwd, resolve(cwd, file)).split("\\").join("/"));
+  } else if (options.staged) {
+    files = await getStagedFiles(cwd);
+  } else if (options.changed) {
+    files = await getChangedFiles(cwd, typeof options.changed === "string" ? options.changed : undefined);
+  } else {
+    return undefined;
+  }
+
+  return Array.from(new Set(files)).filter((file) => existsSync(resolve(cwd, file)));
+}
+
+/**
+ * Collect files that will be checked, limited to the scope when one is given.
+ * Pass the run's project index to avoid walking the tree again.
+ */
+export function collectFilesToCheck(
+  cwd: string,
+  include: string[],
+  exclude: string[],
+  isIgnored?: IgnoreMatcher,
+  scope?: Set<string>,
+  index?: ProjectIndex
+): Set<string> {
+  const allFiles = new Set<string>();
+
+  for (const pattern of include) {
+    const files = index ? index.glob(pattern) : globSync(pattern, { cwd, ignore: exclude, isIgnored });
+    for (const file of files) {
+      if (!scope || scope.has(file)) {
+        allFiles.add(file);
+      }
+    }
+  }
+
+  return allFiles;
+}
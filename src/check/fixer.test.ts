@@ -0,0 +1,82 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { existsSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { applyFixes } from "./fixer";
+
+let cwd: string;
+
+beforeEach(() => {
+  cwd = mkdtempSync(join(tmpdir(), "chaperone-fixer-"));
+});
+
+afterEach(() => {
+  rmSync(cwd, { recursive: true, force: true });
+});
+
+describe("applyFixes", () => {
+  test("applies non-overlapping edits from multiple fixes", () => {
+    writeFileSync(join(cwd, "a.ts"), "var a = 1;\nvar b = 2;\n");
+
+    const report = applyFixes(
+      [
+        { kind: "edit", rule: "regex/one", file: "a.ts", edits: [{ range: [0, 3], text: "let" }] },
+        { kind: "edit", rule: "regex/two", file: "a.ts", edits: [{ range: [11, 14], text: "const" }] },
+      ],
+      cwd
+    );
+
+    expect(report.applied).toHaveLength(2);
+    expect(report.skipped).toHaveLength(0);
+    expect(readFileSync(join(cwd, "a.ts"), "utf-8")).toBe("let a = 1;\nconst b = 2;\n");
+  });
+
+  test("skips a fix that overlaps an earlier one", () => {
+    writeFileSync(join(cwd, "a.ts"), "var a = 1;\n");
+
+    const report = applyFixes(
+      [
+        { kind: "edit", rule: "regex/one", file: "a.ts", edits: [{ range: [0, 5], text: "let a" }] },
+        { kind: "edit", rule: "regex/two", file: "a.ts", edits: [{ range: [4, 5], text: "b" }] },
+      ],
+      cwd
+    );
+
+    expect(report.applied.map((fix) => fix.rule)).toEqual(["regex/one"]);
+    expect(report.skipped[0]?.reason).toContain("regex/one");
+    expect(readFileSync(join(cwd, "a.ts"), "utf-8")).toBe("let a = 1;\n");
+  });
+
+  test("creates missing files but never overwrites existing ones", () => {
+    writeFileSync(join(cwd, "exists.ts"), "keep");
+
+    const report = applyFixes(
+      [
+        { kind: "create", rule: "file-pairing/tests", file: "nested/new.test.ts", content: "new" },
+        { kind: "create", rule: "file-pairing/tests", file: "exists.ts", content: "overwrite" },
+      ],
+      cwd
+    );
+
+    expect(report.applied).toHaveLength(1);
+    expect(readFileSync(join(cwd, "nested/new.test.ts"), "utf-8")).toBe("new");
+    expect(readFileSync(join(cwd, "exists.ts"), "utf-8")).toBe("keep");
+  });
+
+  test("moves files and rejects targets outside the project", () => {
+    writeFileSync(join(cwd, "old.ts"), "x");
+
+    const report = applyFixes(
+      [
+        { kind: "move", rule: "retired-path/legacy", file: "old.ts", to: "src/utils/old.ts" },
+        { kind: "move", rule: "retired-path/legacy", file: "old.ts", to: "../escape.ts" },
+      ],
+      cwd
+    );
+
+    expect(report.applied).toHaveLength(1);
+    expect(report.skipped[0]?.reason).toBe("Fix target is outside the project");
+    expect(existsSync(join(cwd, "src/utils/old.ts"))).toBe(true);
+    expect(existsSync(join(cwd, "old.ts"))).toBe(false);
+  });
+});
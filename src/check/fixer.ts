@@ -0,0 +1,241 @@
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from "node:fs";
+import { dirname, isAbsolute, join, relative, resolve } from "node:path";
+import type { FixSummary } from "./types";
+import type { RuleFix, TextEdit } from "./rules/types";
+
+/**
+ * Outcome of applying a batch of rule fixes
+ */
+export interface FixReport {
+  applied: RuleFix[];
+  skipped: Array<{ fix: RuleFix; reason: string }>;
+}
+
+type EditFix = Extract<RuleFix, { kind: "edit" }>;
+type CreateFix = Extract<RuleFix, { kind: "create" }>;
+type MoveFix = Extract<RuleFix, { kind: "move" }>;
+
+/**
+ * Two edits conflict when their ranges overlap, or when both insert at the same offset
+ */
+function editsOverlap(a: TextEdit, b: TextEdit): boolean {
+  if (a.range[0] === b.range[0]) return true;
+  return a.range[0] < b.range[1] && b.range[0] < a.range[1];
+}
+
+/**
+ * Why a fix's edits cannot be applied to the content, or null when they can
+ */
+function checkEdits(edits: TextEdit[], content: string): string | null {
+  const sorted = [...edits].sort((a, b) => a.range[0] - b.range[0]);
+  if (sorted.some((edit) => edit.range[0] < 0 || edit.range[1] < edit.range[0] || edit.range[1] > content.length)) {
+    return "Edit range is outside the file content";
+  }
+  if (sorted.some((edit, i) => i > 0 && editsOverlap(sorted[i - 1]!, edit))) {
+    return "Fix contains overlapping edits";
+  }
+  return null;
+}
+
+/**
+ * Apply edits to content, from the end so earlier offsets stay valid
+ */
+function spliceEdits(content: string, edits: TextEdit[]): string {
+  let output = content;
+  for (const edit of [...edits].sort((a, b) => b.range[0] - a.range[0])) {
+    output = output.slice(0, edit.range[0]) + edit.text + output.slice(edit.range[1]);
+  }
+  return output;
+}
+
+/**
+ * Check that a fix target stays inside the project root
+ */
+function isInsideProject(cwd: string, file: string): boolean {
+  const rel = relative(cwd, resolve(cwd, file));
+  return rel !== "" && !rel.startsWith("..") && !isAbsolute(rel);
+}
+
+/**
+ * Apply all edit fixes for a single file. Fixes are accepted in order; a fix whose
+ * edits overlap an already-accepted fix is skipped as a whole.
+ */
+function applyEditFixes(fixes: EditFix[], cwd: string, changed: Set<string>, report: FixReport): void {
+  const fullPath = join(cwd, fixes[0]!.file);
+
+  let content: string;
+  try {
+    content = readFileSync(fullPath, "utf-8");
+  } catch {
+    for (const fix of fixes) {
+      report.skipped.push({ fix, reason: "File no longer exists" });
+    }
+    return;
+  }
+
+  const accepted: Array<{ fix: EditFix; edit: TextEdit }> = [];
+
+  for (const fix of fixes) {
+    const invalid = checkEdits(fix.edits, content);
+    if (invalid) {
+      report.skipped.push({ fix, reason: invalid });
+      continue;
+    }
+
+    const conflict = accepted.find((other) => fix.edits.some((edit) => editsOverlap(edit, other.edit)));
+    if (conflict) {
+      report.skipped.push({ fix, reason: `Conflicts with a fix from ${conflict.fix.rule}` });
+      continue;
+    }
+
+    for (const edit of fix.edits) {
+      accepted.push({ fix, edit });
+    }
+    report.applied.push(fix);
+  }
+
+  if (accepted.length === 0) return;
+
+  const output = spliceEdits(content, accepted.map(({ edit }) => edit));
+  if (output !== content) {
+    writeFileSync(fullPath, output, "utf-8");
+    changed.add(fixes[0]!.file);
+  }
+}
+
+function applyCreateFix(fix: CreateFix, cwd: string, claimed: Map<string, RuleFix>, report: FixReport): void {
+  const fullPath = join(cwd, fix.file);
+  const claimedBy = claimed.get(fix.file);
+
+  if (claimedBy) {
+    report.skipped.push({ fix, reason: `Conflicts with a fix from ${claimedBy.rule}` });
+    return;
+  }
+  if (existsSync(fullPath)) {
+    report.skipped.push({ fix, reason: `${fix.file} already exists` });
+    return;
+  }
+
+  mkdirSync(dirname(fullPath), { recursive: true });
+  writeFileSync(fullPath, fix.content, "utf-8");
+  claimed.set(fix.file, fix);
+  report.applied.push(fix);
+}
+
+/**
+ * Move a file and rewrite the import specifiers that point into or out of it.
+ * Every file involved is checked first, so a conflict skips the whole fix.
+ */
+function applyMoveFix(
+  fix: MoveFix,
+  cwd: string,
+  claimed: Map<string, RuleFix>,
+  changed: Set<string>,
+  report: FixReport
+): void {
+  const fromPath = join(cwd, fix.file);
+  const toPath = join(cwd, fix.to);
+  const imports = fix.imports ?? [];
+  const touched = [fix.file, fix.to, ...imports.map((group) => group.file)];
+  const claimedBy = touched.map((file) => claimed.get(file)).find(Boolean);
+
+  if (claimedBy) {
+    report.skipped.push({ fix, reason: `Conflicts with a fix from ${claimedBy.rule}` });
+    return;
+  }
+  if (!existsSync(fromPath)) {
+    report.skipped.push({ fix, reason: "File no longer exists" });
+    return;
+  }
+  if (existsSync(toPath)) {
+    report.skipped.push({ fix, reason: `${fix.to} already exists` });
+    return;
+  }
+
+  // Import edits were computed against the content the rule saw
+  const rewrites: Array<{ path: string; content: string }> = [];
+  for (const group of imports) {
+    if (changed.has(group.file)) {
+      report.skipped.push({ fix, reason: `${group.file} was changed by another fix; run --fix again` });
+      return;
+    }
+    let content: string;
+    try {
+      content = readFileSync(join(cwd, group.file), "utf-8");
+    } catch {
+      report.skipped.push({ fix, reason: `${group.file} no longer exists` });
+      return;
+    }
+    const invalid = checkEdits(group.edits, content);
+    if (invalid) {
+      report.skipped.push({ fix, reason: `${invalid} (${group.file})` });
+      return;
+    }
+    const path = group.file === fix.file ? toPath : join(cwd, group.file);
+    rewrites.push({ path, content: spliceEdits(content, group.edits) });
+  }
+
+  mkdirSync(dirname(toPath), { recursive: true });
+  renameSync(fromPath, toPath);
+  for (const { path, content } of rewrites) {
+    writeFileSync(path, content, "utf-8");
+  }
+  for (const file of touched) {
+    claimed.set(file, fix);
+    changed.add(file);
+  }
+  report.applied.push(fix);
+}
+
+/**
+ * Apply rule fixes to the working tree.
+ * Content edits are applied first, then file creations, then moves. A move whose import
+ * edits touch a file another fix already changed is skipped until the next run.
+ */
+export function applyFixes(fixes: RuleFix[], cwd: string): FixReport {
+  const report: FixReport = { applied: [], skipped: [] };
+
+  const inProject = fixes.filter((fix) => {
+    const targets = fix.kind === "move" ? [fix.file, fix.to, ...(fix.imports ?? []).map((group) => group.file)] : [fix.file];
+    if (targets.every((target) => isInsideProject(cwd, target))) return true;
+    report.skipped.push({ fix, reason: "Fix target is outside the project" });
+    return false;
+  });
+
+  const editsByFile = new Map<string, EditFix[]>();
+  for (const fix of inProject) {
+    if (fix.kind !== "edit") continue;
+    const list = editsByFile.get(fix.file) ?? [];
+    list.push(fix);
+    editsByFile.set(fix.file, list);
+  }
+  // Files written so far, whose content no longer matches the ranges of later fixes
+  const changed = new Set<string>();
+  for (const fileFixes of editsByFile.values()) {
+    applyEditFixes(fileFixes, cwd, changed, report);
+  }
+
+  const claimed = new Map<string, RuleFix>();
+  for (const fix of inProject) {
+    if (fix.kind === "create") applyCreateFix(fix, cwd, claimed, report);
+  }
+  for (const fix of inProject) {
+    if (fix.kind === "move") applyMoveFix(fix, cwd, claimed, changed, report);
+  }
+
+  return report;
+}
+
+/**
+ * Reduce a fix report to the serializable summary attached to CheckSummary
+ */
+export function summarizeFixes(report: FixReport): FixSummary {
+  return {
+    applied: report.applied.length,
+    skipped: report.skipped.map(({ fix, reason }) => ({
+      file: fix.file,
+      rule: fix.rule,
+      reason,
+    })),
+  };
+}
@@ -17,6 +17,20 @@ function groupBySource(results: CheckResult[]): Record<string, CheckResult[]> {
   return groups;
 }
 
+// Built-in sources in output order; external tools from `rules.tools` go between tools and custom rules
+const TOOL_SOURCES = ["typescript", "eslint", "prettier"];
+const RULE_SOURCES = ["custom", "ai-instructions"];
+
+/**
+ * Order grouped sources for output
+ */
+function getSourceOrder(grouped: Record<string, CheckResult[]>): string[] {
+  const external = Object.keys(grouped)
+    .filter((source) => !TOOL_SOURCES.includes(source) && !RULE_SOURCES.includes(source))
+    .sort();
+  return [...TOOL_SOURCES, ...external, ...RULE_SOURCES];
+}
+
 /**
  * Get markdown-friendly source heading
  */
@@ -59,6 +73,39 @@ function formatResultForAI(result: CheckResult): string {
   return lines.join("\n");
 }
 
+/**
+ * Format results as one markdown section per source, errors first
+ */
+function formatSourceSectionsForAI(results: CheckResult[], heading: string): string[] {
+  const lines: string[] = [];
+  const grouped = groupBySource(results);
+
+  for (const source of getSourceOrder(grouped)) {
+    const sourceResults = grouped[source];
+    if (!sourceResults || sourceResults.length === 0) {
+      continue;
+    }
+
+    lines.push(`${heading} ${getSourceHeading(source)}`);
+    lines.push("");
+
+    // Sort by severity (errors first) then by file
+    const sorted = [...sourceResults].sort((a, b) => {
+      if (a.severity !== b.severity) {
+        return a.severity === "error" ? -1 : 1;
+      }
+      return a.file.localeCompare(b.file);
+    });
+
+    for (const result of sorted) {
+      lines.push(formatResultForAI(result));
+      lines.push("");
+    }
+  }
+
+  return lines;
+}
+
 /**
  * Format check results in AI-optimized markdown format
  * Designed for consumption by LLMs like Claude, GPT, etc.
@@ -86,29 +133,21 @@ export function formatAI(summary: CheckSummary, noWarnings = false): string {
 
   // Group results by source for organized output
   const grouped = groupBySource(summary.results);
-  const sourceOrder = ["typescript", "eslint", "prettier", "custom", "ai-instructions"];
-
-  for (const source of sourceOrder) {
-    const results = grouped[source];
-    if (!results || results.length === 0) {
-      continue;
-    }
-
-    lines.push(`### ${getSourceHeading(source)}`);
-    lines.push("");
 
-    // Sort by severity (errors first) then by file
-    const sorted = [...results].sort((a, b) => {
-      if (a.severity !== b.severity) {
-        return a.severity === "error" ? -1 : 1;
+  if (summary.byPackage) {
+    // Workspace mode: one section per package with issues, each broken down by source
+    for (const [name, results] of Object.entries(summary.byPackage)) {
+      if (results.length === 0) {
+        continue;
       }
-      return a.file.localeCompare(b.file);
-    });
 
-    for (const result of sorted) {
-      lines.push(formatResultForAI(result));
+      const errors = results.filter((r) => r.severity === "error").length;
+      lines.push(`### Package \`${name}\` (${errors} error(s), ${results.length - errors} warning(s))`);
       lines.push("");
+      lines.push(...formatSourceSectionsForAI(results, "####"));
     }
+  } else {
+    lines.push(...formatSourceSectionsForAI(summary.results, "###"));
   }
 
   // Suggested actions for the AI to take
@@ -0,0 +1,46 @@
+import { describe, expect, test } from "bun:test";
+import type { CheckResult, CheckSummary } from "../types";
+import { formatGithub } from "./github";
+
+const summary = (results: CheckResult[], byPackage?: Record<string, CheckResult[]>): CheckSummary => ({
+  totalFiles: 2,
+  totalErrors: results.filter((r) => r.severity === "error").length,
+  totalWarnings: results.filter((r) => r.severity === "warning").length,
+  duration: 0,
+  success: results.every((r) => r.severity !== "error"),
+  results,
+  bySource: {},
+  byPackage,
+});
+
+const error: CheckResult = {
+  file: "src/a,b.ts",
+  line: 4,
+  column: 2,
+  rule: "regex/no-todo",
+  message: "100% bad\nreally",
+  severity: "error",
+  source: "custom",
+  suggestion: "Remove it",
+};
+const warning: CheckResult = { file: "src/c.ts", rule: "eslint/x", message: "Meh", severity: "warning", source: "eslint" };
+
+describe("formatGithub", () => {
+  test("emits escaped annotations and a status line", () => {
+    expect(formatGithub(summary([error, warning])).split("\n")).toEqual([
+      "::error file=src/a%2Cb.ts,line=4,col=2,title=regex/no-todo::100%25 bad%0Areally%0ARemove it",
+      "::warning file=src/c.ts,title=eslint/x::Meh",
+      "Chaperone check failed: 1 error(s), 1 warning(s) in 2 file(s)",
+    ]);
+  });
+
+  test("groups annotations by package, skipping packages without results", () => {
+    const scoped = { ...warning, package: "@acme/ui" };
+    expect(formatGithub(summary([scoped], { root: [], "@acme/ui": [scoped] })).split("\n")).toEqual([
+      "::group::@acme/ui (1 issue(s))",
+      "::warning file=src/c.ts,title=@acme/ui%3A eslint/x::Meh",
+      "::endgroup::",
+      "Chaperone check passed: 0 error(s), 1 warning(s) in 2 file(s)",
+    ]);
+  });
+});
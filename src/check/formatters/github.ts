@@ -0,0 +1,49 @@
+import type { CheckResult, CheckSummary } from "../types";
+
+/**
+ * Escape a workflow command message
+ */
+function escapeData(text: string): string {
+  return text.replace(/%/g, "%25").replace(/\r/g, "%0D").replace(/\n/g, "%0A");
+}
+
+/**
+ * Escape a workflow command property value
+ */
+function escapeProperty(text: string): string {
+  return escapeData(text).replace(/:/g, "%3A").replace(/,/g, "%2C");
+}
+
+function formatAnnotation(result: CheckResult): string {
+  const command = result.severity === "error" ? "error" : "warning";
+  const properties = [`file=${escapeProperty(result.file)}`];
+  if (result.line) properties.push(`line=${result.line}`);
+  if (result.line && result.column) properties.push(`col=${result.column}`);
+  properties.push(`title=${escapeProperty(result.package ? `${result.package}: ${result.rule}` : result.rule)}`);
+
+  const message = result.suggestion ? `${result.message}\n${result.suggestion}` : result.message;
+  return `::${command} ${properties.join(",")}::${escapeData(message)}`;
+}
+
+/**
+ * Format check results as GitHub Actions workflow commands, which show up
+ * as annotations on the changed lines of a pull request. In workspace mode,
+ * each package's annotations are wrapped in a collapsible log group.
+ */
+export function formatGithub(summary: CheckSummary): string {
+  const lines: string[] = [];
+  if (summary.byPackage) {
+    for (const [name, results] of Object.entries(summary.byPackage)) {
+      if (results.length === 0) continue;
+      lines.push(`::group::${escapeData(name)} (${results.length} issue(s))`, ...results.map(formatAnnotation), "::endgroup::");
+    }
+  } else {
+    lines.push(...summary.results.map(formatAnnotation));
+  }
+
+  const status = summary.success ? "passed" : "failed";
+  lines.push(
+    `Chaperone check ${status}: ${summary.totalErrors} error(s), ${summary.totalWarnings} warning(s) in ${summary.totalFiles} file(s)`
+  );
+  return lines.join("\n");
+}
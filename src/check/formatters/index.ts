@@ -2,15 +2,21 @@ import type { CheckSummary } from "../types";
 import { formatText } from "./text";
 import { formatJson } from "./json";
 import { formatAI } from "./ai";
+import { formatSarif } from "./sarif";
+import { formatJunit } from "./junit";
+import { formatGithub } from "./github";
 
 export { formatText } from "./text";
 export { formatJson } from "./json";
 export { formatAI } from "./ai";
+export { formatSarif, type SarifLog } from "./sarif";
+export { formatJunit } from "./junit";
+export { formatGithub } from "./github";
 
 /**
  * Output format types
  */
-export type OutputFormat = "text" | "json" | "ai";
+export type OutputFormat = "text" | "json" | "ai" | "sarif" | "junit" | "github";
 
 /**
  * Format options
@@ -38,10 +44,17 @@ function filterSummary(summary: CheckSummary, noWarnings: boolean): CheckSummary
     }
   }
 
+  const filteredByPackage = summary.byPackage
+    ? Object.fromEntries(
+        Object.entries(summary.byPackage).map(([name, results]) => [name, results.filter((r) => r.severity === "error")])
+      )
+    : undefined;
+
   return {
     ...summary,
     results: filteredResults,
     bySource: filteredBySource,
+    byPackage: filteredByPackage,
   };
 }
 
@@ -61,6 +74,12 @@ export function format(
       return formatJson(filteredSummary, noWarnings);
     case "ai":
       return formatAI(filteredSummary, noWarnings);
+    case "sarif":
+      return formatSarif(filteredSummary);
+    case "junit":
+      return formatJunit(filteredSummary);
+    case "github":
+      return formatGithub(filteredSummary);
     case "text":
     default:
       return formatText(filteredSummary, quiet, noWarnings);
@@ -11,6 +11,16 @@ export interface JsonOutput {
     totalWarnings: number;
     duration: number;
   };
+  fixes?: {
+    applied: number;
+    skipped: Array<{ file: string; rule: string; reason: string }>;
+  };
+  baseline?: {
+    file: string;
+    matched: number;
+    fixed: number;
+    updated: boolean;
+  };
   results: Array<{
     file: string;
     rule: string;
@@ -19,6 +29,7 @@ export interface JsonOutput {
     column?: number;
     severity: "error" | "warning";
     source?: string;
+    package?: string;
     fixable?: boolean;
     suggestion?: string;
   }>;
@@ -33,6 +44,18 @@ export interface JsonOutput {
       severity: "error" | "warning";
     }>
   >;
+  byPackage?: Record<
+    string,
+    Array<{
+      file: string;
+      rule: string;
+      message: string;
+      line?: number;
+      column?: number;
+      severity: "error" | "warning";
+      source?: string;
+    }>
+  >;
 }
 
 /**
@@ -47,6 +70,8 @@ export function formatJson(summary: CheckSummary, noWarnings = false): string {
       totalWarnings: summary.totalWarnings,
       duration: summary.duration,
     },
+    fixes: summary.fixes,
+    baseline: summary.baseline,
     results: summary.results.map((r) => ({
       file: r.file,
       rule: r.rule,
@@ -55,6 +80,7 @@ export function formatJson(summary: CheckSummary, noWarnings = false): string {
       column: r.column,
       severity: r.severity,
       source: r.source,
+      package: r.package,
       fixable: r.fixable,
       suggestion: r.suggestion,
     })),
@@ -77,5 +103,23 @@ export function formatJson(summary: CheckSummary, noWarnings = false): string {
     });
   }
 
+  // Group by workspace package
+  if (summary.byPackage) {
+    output.byPackage = Object.fromEntries(
+      Object.entries(summary.byPackage).map(([name, results]) => [
+        name,
+        results.map((result) => ({
+          file: result.file,
+          rule: result.rule,
+          message: result.message,
+          line: result.line,
+          column: result.column,
+          severity: result.severity,
+          source: result.source,
+        })),
+      ])
+    );
+  }
+
   return JSON.stringify(output, null, 2);
 }
@@ -0,0 +1,66 @@
+import { describe, expect, test } from "bun:test";
+import type { CheckResult, CheckSummary } from "../types";
+import { formatJunit } from "./junit";
+
+const summary = (results: CheckResult[]): CheckSummary => ({
+  totalFiles: 3,
+  totalErrors: results.filter((r) => r.severity === "error").length,
+  totalWarnings: results.filter((r) => r.severity === "warning").length,
+  duration: 1500,
+  success: results.every((r) => r.severity !== "error"),
+  results,
+  bySource: {},
+});
+
+describe("formatJunit", () => {
+  test("reports a passing case when there are no results", () => {
+    expect(formatJunit(summary([]))).toBe(
+      [
+        `<?xml version="1.0" encoding="UTF-8"?>`,
+        `<testsuites name="chaperone" tests="1" failures="0" time="1.500">`,
+        `  <testsuite name="chaperone" tests="1" failures="0">`,
+        `    <testcase name="3 file(s) checked" classname="chaperone"/>`,
+        `  </testsuite>`,
+        `</testsuites>`,
+      ].join("\n")
+    );
+  });
+
+  test("groups results by package and rule, failing errors and keeping warnings as output", () => {
+    const output = formatJunit(
+      summary([
+        { file: "src/a.ts", line: 3, rule: "regex/no-todo", message: "No <TODO> & \"friends\"", severity: "error", source: "custom", suggestion: "Fix it" },
+        { file: "src/b.ts", rule: "regex/no-todo", message: "Soft", severity: "warning", source: "custom" },
+        { file: "packages/ui/x.ts", rule: "regex/no-todo", message: "In ui", severity: "error", source: "custom", package: "@acme/ui" },
+      ])
+    );
+
+    expect(output.split("\n").slice(1)).toEqual([
+      `<testsuites name="chaperone" tests="3" failures="2" time="1.500">`,
+      `  <testsuite name="regex/no-todo" tests="2" failures="1">`,
+      `    <testcase name="src/a.ts:3" classname="regex/no-todo">`,
+      `      <failure message="No &lt;TODO&gt; &amp; &quot;friends&quot;" type="error">No &lt;TODO&gt; &amp; &quot;friends&quot;`,
+      `Suggestion: Fix it</failure>`,
+      `    </testcase>`,
+      `    <testcase name="src/b.ts" classname="regex/no-todo">`,
+      `      <system-out>warning: Soft</system-out>`,
+      `    </testcase>`,
+      `  </testsuite>`,
+      `  <testsuite name="regex/no-todo" package="@acme/ui" tests="1" failures="1">`,
+      `    <testcase name="packages/ui/x.ts" classname="regex/no-todo">`,
+      `      <failure message="In ui" type="error">In ui</failure>`,
+      `    </testcase>`,
+      `  </testsuite>`,
+      `</testsuites>`,
+    ]);
+  });
+
+  test("drops control characters that are invalid in XML", () => {
+    const output = formatJunit(
+      summary([{ file: "a.ts", rule: "tool/x", message: "\x1b[31mred\x1b[0m\tok\x00", severity: "error", source: "tool" }])
+    );
+
+    expect(output).toContain(`<failure message="[31mred[0m\tok" type="error">`);
+    expect(output).not.toMatch(/[\x00-\x08\x0B\x0C\x0E-\x1F]/);
+  });
+});
@@ -0,0 +1,86 @@
+import type { CheckResult, CheckSummary } from "../types";
+
+/**
+ * Escape text for XML attributes and content, dropping control characters XML 1.0 cannot represent
+ */
+function escapeXml(text: string): string {
+  return text
+    .replace(/[\x00-\x08\x0B\x0C\x0E-\x1F]/g, "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+/**
+ * Group results by workspace package and rule id, keeping the order rules were first reported in
+ */
+function groupByRule(results: CheckResult[]): Map<string, CheckResult[]> {
+  const groups = new Map<string, CheckResult[]>();
+  for (const result of results) {
+    const key = `${result.package ?? ""}\0${result.rule}`;
+    const group = groups.get(key) ?? [];
+    group.push(result);
+    groups.set(key, group);
+  }
+  return groups;
+}
+
+function formatTestCase(result: CheckResult): string[] {
+  const location = result.line ? `${result.file}:${result.line}` : result.file;
+  const name = escapeXml(location);
+  const classname = escapeXml(result.rule);
+  const details = escapeXml([result.message, result.suggestion ? `Suggestion: ${result.suggestion}` : ""].filter(Boolean).join("\n"));
+
+  // Errors fail the test case; warnings pass but keep their details in the output
+  if (result.severity === "error") {
+    return [
+      `    <testcase name="${name}" classname="${classname}">`,
+      `      <failure message="${escapeXml(result.message)}" type="error">${details}</failure>`,
+      `    </testcase>`,
+    ];
+  }
+  return [
+    `    <testcase name="${name}" classname="${classname}">`,
+    `      <system-out>warning: ${details}</system-out>`,
+    `    </testcase>`,
+  ];
+}
+
+/**
+ * Format check results as JUnit XML: one test suite per rule, one test case per violation.
+ * In workspace mode there is a suite per package and rule, with the package name in its `package` attribute.
+ */
+export function formatJunit(summary: CheckSummary): string {
+  const time = (summary.duration / 1000).toFixed(3);
+  const lines = [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<testsuites name="chaperone" tests="${Math.max(summary.results.length, 1)}" failures="${summary.totalErrors}" time="${time}">`,
+  ];
+
+  if (summary.results.length === 0) {
+    // Report a single passing case so CI shows that the check ran
+    lines.push(
+      `  <testsuite name="chaperone" tests="1" failures="0">`,
+      `    <testcase name="${summary.totalFiles} file(s) checked" classname="chaperone"/>`,
+      `  </testsuite>`
+    );
+  }
+
+  for (const results of groupByRule(summary.results).values()) {
+    const { rule, package: packageName } = results[0]!;
+    const failures = results.filter((r) => r.severity === "error").length;
+    const packageAttribute = packageName ? ` package="${escapeXml(packageName)}"` : "";
+    lines.push(
+      `  <testsuite name="${escapeXml(rule)}"${packageAttribute} tests="${results.length}" failures="${failures}">`
+    );
+    for (const result of results) {
+      lines.push(...formatTestCase(result));
+    }
+    lines.push(`  </testsuite>`);
+  }
+
+  lines.push(`</testsuites>`);
+  return lines.join("\n");
+}
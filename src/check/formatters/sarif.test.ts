@@ -0,0 +1,88 @@
+import { describe, expect, test } from "bun:test";
+import type { CheckResult, CheckSummary, CustomRule } from "../types";
+import { formatSarif, type SarifLog } from "./sarif";
+
+const summary = (results: CheckResult[], rules: CustomRule[]): CheckSummary => ({
+  totalFiles: 2,
+  totalErrors: results.filter((r) => r.severity === "error").length,
+  totalWarnings: results.filter((r) => r.severity === "warning").length,
+  duration: 0,
+  success: results.every((r) => r.severity !== "error"),
+  results,
+  bySource: {},
+  rules,
+});
+
+describe("formatSarif", () => {
+  test("describes custom and tool rules and points results at them", () => {
+    const rules: CustomRule[] = [
+      {
+        id: "no-todo",
+        type: "regex",
+        severity: "warning",
+        pattern: "TODO",
+        files: "src/**",
+        message: "No TODOs",
+        source: "CLAUDE.md",
+        originalText: "Never leave TODOs",
+      },
+    ];
+    const log: SarifLog = JSON.parse(
+      formatSarif(
+        summary(
+          [
+            { file: "src/a.ts", line: 2, column: 5, rule: "eslint/no-debugger", message: "Debugger", severity: "error", source: "eslint" },
+            { file: "src/b.ts", rule: "regex/no-todo", message: "No TODOs", severity: "warning", source: "custom", suggestion: "Remove it", package: "@acme/ui" },
+          ],
+          rules
+        )
+      )
+    );
+
+    expect(log.version).toBe("2.1.0");
+    expect(log.runs).toHaveLength(1);
+    const [run] = log.runs;
+    expect(run!.tool.driver.rules).toEqual([
+      {
+        id: "regex/no-todo",
+        name: "no-todo",
+        shortDescription: { text: "No TODOs" },
+        fullDescription: { text: "Never leave TODOs" },
+        defaultConfiguration: { level: "warning" },
+        properties: { type: "regex", extractedFrom: "CLAUDE.md" },
+      },
+      {
+        id: "eslint/no-debugger",
+        name: "no-debugger",
+        shortDescription: { text: "eslint/no-debugger" },
+        defaultConfiguration: { level: "error" },
+        properties: { source: "eslint" },
+      },
+    ]);
+    expect(run!.results).toEqual([
+      {
+        ruleId: "eslint/no-debugger",
+        ruleIndex: 1,
+        level: "error",
+        message: { text: "Debugger" },
+        locations: [
+          {
+            physicalLocation: {
+              artifactLocation: { uri: "src/a.ts", uriBaseId: "%SRCROOT%" },
+              region: { startLine: 2, startColumn: 5 },
+            },
+          },
+        ],
+        properties: { source: "eslint" },
+      },
+      {
+        ruleId: "regex/no-todo",
+        ruleIndex: 0,
+        level: "warning",
+        message: { text: "No TODOs" },
+        locations: [{ physicalLocation: { artifactLocation: { uri: "src/b.ts", uriBaseId: "%SRCROOT%" } } }],
+        properties: { source: "custom", suggestion: "Remove it", package: "@acme/ui" },
+      },
+    ]);
+  });
+});
@@ -0,0 +1,134 @@
+import type { CheckResult, CheckSummary, CustomRule } from "../types";
+import { VERSION } from "../../version";
+
+const SARIF_SCHEMA = "https://json.schemastore.org/sarif-2.1.0.json";
+
+type SarifLevel = "error" | "warning";
+
+/**
+ * SARIF 2.1.0 reporting descriptor (one per rule)
+ */
+interface SarifRule {
+  id: string;
+  name: string;
+  shortDescription: { text: string };
+  fullDescription?: { text: string };
+  defaultConfiguration: { level: SarifLevel };
+  properties?: { type?: string; source?: string; extractedFrom?: string };
+}
+
+interface SarifResult {
+  ruleId: string;
+  ruleIndex: number;
+  level: SarifLevel;
+  message: { text: string };
+  locations: Array<{
+    physicalLocation: {
+      artifactLocation: { uri: string; uriBaseId: string };
+      region?: { startLine: number; startColumn?: number };
+    };
+  }>;
+  properties?: { source?: string; suggestion?: string; package?: string };
+}
+
+/**
+ * SARIF 2.1.0 log with a single run
+ */
+export interface SarifLog {
+  $schema: string;
+  version: "2.1.0";
+  runs: Array<{
+    tool: { driver: { name: string; version: string; rules: SarifRule[] } };
+    originalUriBaseIds: Record<string, { description: { text: string } }>;
+    results: SarifResult[];
+  }>;
+}
+
+/**
+ * Build a descriptor from a custom rule config.
+ * AI-extracted rules carry the instruction they came from as the full description.
+ */
+function describeCustomRule(rule: CustomRule): SarifRule {
+  const message = "message" in rule && typeof rule.message === "string" ? rule.message : undefined;
+
+  return {
+    id: `${rule.type}/${rule.id}`,
+    name: rule.id,
+    shortDescription: { text: message ?? `${rule.type} rule ${rule.id}` },
+    ...(rule.originalText ? { fullDescription: { text: rule.originalText } } : {}),
+    defaultConfiguration: { level: rule.severity },
+    properties: { type: rule.type, ...(rule.source ? { extractedFrom: rule.source } : {}) },
+  };
+}
+
+/**
+ * Build a descriptor for results without a rule config (TypeScript, ESLint, Prettier)
+ */
+function describeResult(result: CheckResult): SarifRule {
+  return {
+    id: result.rule,
+    name: result.rule.slice(result.rule.indexOf("/") + 1),
+    shortDescription: { text: result.rule },
+    defaultConfiguration: { level: result.severity },
+    ...(result.source ? { properties: { source: result.source } } : {}),
+  };
+}
+
+/**
+ * Format check results as SARIF 2.1.0 for code-scanning tools
+ */
+export function formatSarif(summary: CheckSummary): string {
+  const rules: SarifRule[] = [];
+  const ruleIndex = new Map<string, number>();
+
+  const addRule = (descriptor: SarifRule): number => {
+    const existing = ruleIndex.get(descriptor.id);
+    if (existing !== undefined) return existing;
+    ruleIndex.set(descriptor.id, rules.length);
+    rules.push(descriptor);
+    return rules.length - 1;
+  };
+
+  for (const rule of summary.rules ?? []) {
+    addRule(describeCustomRule(rule));
+  }
+
+  const results = summary.results.map((result): SarifResult => {
+    const region = result.line
+      ? { startLine: result.line, ...(result.column ? { startColumn: result.column } : {}) }
+      : undefined;
+    const properties = result.source || result.suggestion || result.package
+      ? { source: result.source, suggestion: result.suggestion, package: result.package }
+      : undefined;
+
+    return {
+      ruleId: result.rule,
+      ruleIndex: addRule(describeResult(result)),
+      level: result.severity,
+      message: { text: result.message },
+      locations: [
+        {
+          physicalLocation: {
+            artifactLocation: { uri: result.file, uriBaseId: "%SRCROOT%" },
+            ...(region ? { region } : {}),
+          },
+        },
+      ],
+      ...(properties ? { properties } : {}),
+    };
+  });
+
+  const log: SarifLog = {
+    $schema: SARIF_SCHEMA,
+    version: "2.1.0",
+    runs: [
+      {
+        tool: { driver: { name: "chaperone", version: VERSION, rules } },
+        originalUriBaseIds: { "%SRCROOT%": { description: { text: "Project root" } } },
+        results,
+      },
+    ],
+  };
+
+  return JSON.stringify(log, null, 2);
+}
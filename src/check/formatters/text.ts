@@ -97,6 +97,54 @@ function groupBySource(results: CheckResult[]): Record<string, CheckResult[]> {
   return groups;
 }
 
+// Built-in sources in output order; external tools from `rules.tools` go between tools and custom rules
+const TOOL_SOURCES = ["typescript", "eslint", "prettier"];
+const RULE_SOURCES = ["custom", "ai-instructions"];
+
+/**
+ * Order grouped sources for output
+ */
+function getSourceOrder(grouped: Record<string, CheckResult[]>): string[] {
+  const external = Object.keys(grouped)
+    .filter((source) => !TOOL_SOURCES.includes(source) && !RULE_SOURCES.includes(source))
+    .sort();
+  return [...TOOL_SOURCES, ...external, ...RULE_SOURCES];
+}
+
+/**
+ * Error and warning counts for a section header
+ */
+function formatCounts(results: CheckResult[], noWarnings: boolean): string {
+  const errorCount = results.filter((r) => r.severity === "error").length;
+  const warningCount = results.filter((r) => r.severity === "warning").length;
+  return noWarnings ? `${errorCount} errors` : `${errorCount} errors, ${warningCount} warnings`;
+}
+
+/**
+ * Format results as one section per source
+ */
+function formatSourceSections(results: CheckResult[], noWarnings: boolean): string[] {
+  const lines: string[] = [];
+  const grouped = groupBySource(results);
+
+  for (const source of getSourceOrder(grouped)) {
+    const sourceResults = grouped[source];
+    if (!sourceResults || sourceResults.length === 0) {
+      continue;
+    }
+
+    lines.push(`${colors.bold}${getSourceLabel(source)}${colors.reset} (${formatCounts(sourceResults, noWarnings)})`);
+    lines.push("");
+
+    for (const result of sourceResults) {
+      lines.push(formatResult(result));
+      lines.push("");
+    }
+  }
+
+  return lines;
+}
+
 /**
  * Format check results as human-readable text
  */
@@ -122,12 +170,31 @@ export function formatText(summary: CheckSummary, quiet = false, noWarnings = fa
     );
   }
   lines.push(`${colors.dim}Duration:${colors.reset} ${(summary.duration / 1000).toFixed(2)}s`);
+  if (summary.fixes) {
+    const skippedInfo = summary.fixes.skipped.length > 0
+      ? ` ${colors.yellow}(${summary.fixes.skipped.length} skipped)${colors.reset}`
+      : "";
+    lines.push(`${colors.dim}Fixes applied:${colors.reset} ${colors.green}${summary.fixes.applied}${colors.reset}${skippedInfo}`);
+    for (const skipped of summary.fixes.skipped) {
+      lines.push(`  ${colors.dim}${skipped.file} (${skipped.rule}): ${skipped.reason}${colors.reset}`);
+    }
+  }
+  if (summary.baseline?.updated) {
+    lines.push(
+      `${colors.dim}Baseline:${colors.reset} recorded ${summary.baseline.matched} violation(s) in ${summary.baseline.file}`
+    );
+  } else if (summary.baseline) {
+    const fixedInfo = summary.baseline.fixed > 0
+      ? `, ${colors.green}${summary.baseline.fixed} fixed${colors.reset} ${colors.dim}(run --update-baseline to shrink it)${colors.reset}`
+      : "";
+    lines.push(`${colors.dim}Baseline:${colors.reset} ${summary.baseline.matched} known violation(s) hidden${fixedInfo}`);
+  }
   lines.push("");
 
   // Per-tool breakdown
   const grouped = groupBySource(summary.results);
   const toolStats: string[] = [];
-  const sourceOrder = ["typescript", "eslint", "prettier", "custom", "ai-instructions"];
+  const sourceOrder = getSourceOrder(grouped);
 
   for (const source of sourceOrder) {
     const results = grouped[source];
@@ -162,6 +229,21 @@ export function formatText(summary: CheckSummary, quiet = false, noWarnings = fa
 
   }
 
+  if (summary.byPackage) {
+    lines.push(`${colors.bold}By Package:${colors.reset}`);
+    for (const [name, results] of Object.entries(summary.byPackage)) {
+      const errors = results.filter((r) => r.severity === "error").length;
+      const warnings = noWarnings ? 0 : results.filter((r) => r.severity === "warning").length;
+      const status = errors > 0
+        ? `${colors.red}✗${colors.reset}`
+        : warnings > 0
+          ? `${colors.yellow}!${colors.reset}`
+          : `${colors.green}✓${colors.reset}`;
+      lines.push(`  ${status} ${name}${errors + warnings > 0 ? ` ${colors.dim}(${formatCounts(results, noWarnings)})${colors.reset}` : ""}`);
+    }
+    lines.push("");
+  }
+
   // If quiet mode and no errors, stop here
   if (quiet && summary.totalErrors === 0) {
     return lines.join("\n");
@@ -170,27 +252,20 @@ export function formatText(summary: CheckSummary, quiet = false, noWarnings = fa
   // Filter to only errors in quiet mode or noWarnings mode
   const resultFilter = quiet || noWarnings ? (r: CheckResult) => r.severity === "error" : () => true;
 
-  // Output by source (reuse sourceOrder from above)
-  for (const source of sourceOrder) {
-    const results = grouped[source]?.filter(resultFilter);
-    if (!results || results.length === 0) {
-      continue;
-    }
-
-    const sourceLabel = getSourceLabel(source);
-    const errorCount = results.filter((r) => r.severity === "error").length;
-    const warningCount = results.filter((r) => r.severity === "warning").length;
-
-    const countInfo = noWarnings
-      ? `${errorCount} errors`
-      : `${errorCount} errors, ${warningCount} warnings`;
-    lines.push(`${colors.bold}${sourceLabel}${colors.reset} (${countInfo})`);
-    lines.push("");
+  if (summary.byPackage) {
+    // Workspace mode: one section per package, each broken down by source
+    for (const [name, packageResults] of Object.entries(summary.byPackage)) {
+      const results = packageResults.filter(resultFilter);
+      if (results.length === 0) {
+        continue;
+      }
 
-    for (const result of results) {
-      lines.push(formatResult(result));
+      lines.push(`${colors.bold}${colors.blue}Package ${name}${colors.reset} (${formatCounts(results, noWarnings)})`);
       lines.push("");
+      lines.push(...formatSourceSections(results, noWarnings));
     }
+  } else {
+    lines.push(...formatSourceSections(summary.results.filter(resultFilter), noWarnings));
   }
 
   // Suggestions
@@ -0,0 +1,121 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { dirname, join } from "node:path";
+import { buildImportGraph, formatGraphMermaid } from "./graph";
+
+let cwd: string;
+
+const write = (file: string, content: string) => {
+  mkdirSync(dirname(join(cwd, file)), { recursive: true });
+  writeFileSync(join(cwd, file), content);
+};
+
+beforeEach(() => {
+  cwd = mkdtempSync(join(tmpdir(), "chaperone-graph-"));
+  write(
+    ".chaperone.json",
+    JSON.stringify({
+      version: "1.0.0",
+      rules: {
+        custom: [
+          {
+            id: "layers",
+            type: "import-boundary",
+            severity: "error",
+            layers: {
+              ui: { files: "src/ui/**", allowImportsFrom: ["features"] },
+              features: { files: "src/features/**", allowImportsFrom: ["data"] },
+              data: { files: "src/data/**", allowImportsFrom: [] },
+            },
+          },
+          { id: "api", type: "public-api", severity: "error", modules: "src/features/*", files: "src/**/*.ts" },
+        ],
+      },
+    })
+  );
+  write("src/ui/page.ts", 'import { login } from "../features/auth";\nimport { db } from "../data/db";\n');
+  write("src/ui/unrelated.ts", "export const x = 1;\n");
+  write("src/features/auth/index.ts", 'export { login } from "./login";\n');
+  write("src/features/auth/login.ts", 'import { db } from "../../data/db";\nexport const login = db;\n');
+  write("src/data/db.ts", "export const db = 1;\n");
+});
+
+afterEach(() => {
+  rmSync(cwd, { recursive: true, force: true });
+});
+
+describe("buildImportGraph", () => {
+  test("keeps the paths between --from and --to, annotated with layers, modules and violations", () => {
+    const graph = buildImportGraph({ cwd, from: "src/ui", to: "src/data/db.ts" });
+
+    expect(graph.nodes).toEqual([
+      { file: "src/data/db.ts", layer: "data" },
+      { file: "src/features/auth/index.ts", layer: "features", module: "src/features/auth" },
+      { file: "src/features/auth/login.ts", layer: "features", module: "src/features/auth" },
+      { file: "src/ui/page.ts", layer: "ui" },
+    ]);
+    expect(graph.edges.map((edge) => [edge.from, edge.to, edge.violation])).toEqual([
+      ["src/features/auth/index.ts", "src/features/auth/login.ts", undefined],
+      ["src/features/auth/login.ts", "src/data/db.ts", undefined],
+      ["src/ui/page.ts", "src/features/auth/index.ts", undefined],
+      ["src/ui/page.ts", "src/data/db.ts", "layers"],
+    ]);
+    expect(formatGraphMermaid(graph)).toContain("linkStyle 3 stroke:red,color:red");
+  });
+
+  test("checks each rule with its own layers and import options, preferring value imports", () => {
+    write(
+      ".chaperone.json",
+      JSON.stringify({
+        version: "1.0.0",
+        rules: {
+          custom: [
+            {
+              id: "values",
+              type: "import-boundary",
+              severity: "error",
+              includeTypeImports: false,
+              includeDynamicImports: false,
+              layers: {
+                ui: { files: "src/ui/**", allowImportsFrom: [] },
+                data: { files: "src/data/**", allowImportsFrom: [] },
+              },
+            },
+            {
+              id: "shared",
+              type: "import-boundary",
+              severity: "error",
+              layers: {
+                app: { files: "src/ui/**", allowImportsFrom: ["shared"] },
+                shared: { files: "src/shared/**", allowImportsFrom: [] },
+              },
+            },
+          ],
+        },
+      })
+    );
+    write("src/ui/types.ts", 'import type { db } from "../data/db";\n');
+    write("src/ui/lazy.ts", 'export const load = () => import("../data/db");\n');
+    write("src/ui/page.ts", 'import type { db } from "../data/db";\nimport { db as value } from "../data/db";\n');
+    write("src/shared/util.ts", 'import "../ui/page";\n');
+
+    const graph = buildImportGraph({ cwd, from: "src/shared/util.ts" });
+    expect(graph.nodes.map((node) => [node.file, node.layer])).toEqual([
+      ["src/data/db.ts", "data"],
+      ["src/shared/util.ts", "shared"],
+      ["src/ui/page.ts", "app"],
+    ]);
+
+    const edges = buildImportGraph({ cwd, to: "src/data/db.ts" }).edges.filter((edge) => edge.from.startsWith("src/ui/"));
+    expect(edges.map((edge) => [edge.from, edge.line, edge.isTypeImport, edge.violation])).toEqual([
+      ["src/ui/lazy.ts", 1, false, undefined],
+      ["src/ui/page.ts", 2, false, "values"],
+      ["src/ui/types.ts", 1, true, undefined],
+    ]);
+    expect(graph.edges.map((edge) => [edge.from, edge.violation])).toEqual([
+      ["src/shared/util.ts", "shared"],
+      ["src/ui/page.ts", "values"],
+    ]);
+  });
+});
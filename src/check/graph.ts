@@ -0,0 +1,298 @@
+import { posix } from "node:path";
+import { getEffectivePatterns, resolveConfig } from "./config-loader";
+import { collectFilesToCheck } from "./files";
+import type { ImportBoundaryRule, PublicApiRule } from "./types";
+import type { ImportEntry, RuleRunnerOptions } from "./rules/types";
+import { collectFiles } from "./rules/utils/collect-files";
+import { MODULE_FILE_PATTERN } from "./rules/utils/module-graph";
+import { createModuleResolver } from "./rules/utils/module-resolver";
+import { createProjectIndex, readProjectImports } from "./rules/utils/project-index";
+import { matchGlob } from "../utils/glob";
+
+export type GraphFormat = "dot" | "mermaid" | "json";
+
+export const GRAPH_FORMATS: GraphFormat[] = ["dot", "mermaid", "json"];
+
+export interface GraphNode {
+  file: string;
+  layer?: string; // Layer from the import-boundary rules
+  module?: string; // Module root from the public-api rules
+}
+
+export interface GraphEdge {
+  from: string;
+  to: string;
+  source: string; // Import specifier as written
+  line: number; // First value import of `to` in `from`, or first import when all are type-only
+  isTypeImport: boolean;
+  violation?: string; // Id of the first import-boundary rule that forbids this import
+}
+
+export interface ImportGraph {
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+}
+
+export interface GraphOptions {
+  cwd: string;
+  configPath?: string;
+  from?: string; // Only files reachable from these files (path, directory or glob)
+  to?: string; // Only files that reach these files (path, directory or glob)
+  includeTypeImports?: boolean; // default: true
+}
+
+/**
+ * Whether a file matches a --from/--to query: the file itself, a directory containing it, or a glob
+ */
+function matchesQuery(file: string, query: string): boolean {
+  const path = query.replace(/^\.\//, "").replace(/\/+$/, "");
+  return file === path || file.startsWith(`${path}/`) || matchGlob(file, path);
+}
+
+/**
+ * Files reachable from `starts` by following `adjacency`, including the starts themselves
+ */
+function walk(starts: string[], adjacency: Map<string, Set<string>>): Set<string> {
+  const seen = new Set(starts);
+  const queue = [...starts];
+  for (let i = 0; i < queue.length; i++) {
+    for (const next of adjacency.get(queue[i]!) ?? []) {
+      if (!seen.has(next)) {
+        seen.add(next);
+        queue.push(next);
+      }
+    }
+  }
+  return seen;
+}
+
+/**
+ * Build the resolved import graph of the project, annotated with the layers of its
+ * import-boundary rules and the module roots of its public-api rules.
+ * With `from` and/or `to`, only the files and imports on a path between them are kept.
+ */
+export function buildImportGraph(options: GraphOptions): ImportGraph {
+  const { cwd } = options;
+  const { config } = resolveConfig(cwd, options.configPath);
+  const patterns = getEffectivePatterns(config, undefined, undefined, cwd);
+  const index = createProjectIndex(cwd, { exclude: patterns.exclude, isIgnored: patterns.isIgnored });
+  const ruleOptions: RuleRunnerOptions = {
+    cwd,
+    include: patterns.include,
+    exclude: patterns.exclude,
+    isIgnored: patterns.isIgnored,
+    index,
+    moduleResolver: createModuleResolver(cwd, { useTypescriptPaths: config.integrations?.useTypescriptPaths ?? false }),
+  };
+
+  const files = [...collectFilesToCheck(cwd, patterns.include, patterns.exclude, patterns.isIgnored, undefined, index)]
+    .filter((file) => MODULE_FILE_PATTERN.test(file))
+    .sort();
+  const fileSet = new Set(files);
+  const rules = (config.rules?.custom ?? []).filter((rule) => !rule.disabled);
+
+  // Layers of each import-boundary rule; later layers win within a rule, as in import-boundary,
+  // and the node shows the layer of the last rule that has one
+  const boundaries = rules.filter((rule): rule is ImportBoundaryRule => rule.type === "import-boundary");
+  const layersByRule = new Map<ImportBoundaryRule, Map<string, string>>();
+  const layerOf = new Map<string, string>();
+  for (const rule of boundaries) {
+    const layers = new Map<string, string>();
+    for (const [layer, layerConfig] of Object.entries(rule.layers)) {
+      for (const file of collectFiles(layerConfig.files, ruleOptions, rule.exclude, { scoped: false })) {
+        layers.set(file, layer);
+        layerOf.set(file, layer);
+      }
+    }
+    layersByRule.set(rule, layers);
+  }
+
+  // First rule forbidding any of the imports, counting only the imports that rule checks
+  const violationOf = (from: string, to: string, imports: ImportEntry[]): string | undefined =>
+    boundaries.find((rule) => {
+      const layers = layersByRule.get(rule)!;
+      const fromLayer = layers.get(from);
+      const toLayer = layers.get(to);
+      if (!fromLayer || !toLayer || fromLayer === toLayer) return false;
+      if (rule.layers[fromLayer]!.allowImportsFrom.includes(toLayer)) return false;
+      return imports.some(
+        (imp) =>
+          (!imp.isTypeImport || (rule.includeTypeImports ?? true)) &&
+          (!imp.isDynamic || (rule.includeDynamicImports ?? true))
+      );
+    })?.id;
+
+  // A file belongs to the deepest public-api module root containing it
+  const moduleGlobs = rules
+    .filter((rule): rule is PublicApiRule => rule.type === "public-api")
+    .map((rule) => rule.modules);
+  const moduleOf = (file: string): string | undefined => {
+    for (let dir = posix.dirname(file); dir !== "."; dir = posix.dirname(dir)) {
+      if (moduleGlobs.some((glob) => matchGlob(dir, glob))) return dir;
+    }
+    return undefined;
+  };
+
+  const edges: GraphEdge[] = [];
+  for (const file of files) {
+    let imports: ImportEntry[];
+    try {
+      imports = readProjectImports(file, ruleOptions, {
+        includeTypeImports: options.includeTypeImports ?? true,
+        includeDynamicImports: true,
+        includeRequire: true,
+      });
+    } catch {
+      continue;
+    }
+
+    // One edge per imported file, merging every import of it
+    const importsOf = new Map<string, ImportEntry[]>();
+    for (const imp of imports) {
+      const to = ruleOptions.moduleResolver!.resolve(imp.source, file);
+      if (!to || to === file || !fileSet.has(to)) continue;
+      importsOf.set(to, [...(importsOf.get(to) ?? []), imp]);
+    }
+
+    for (const [to, targetImports] of importsOf) {
+      // A value import wins over type-only ones, so the edge is only type-only when every import is
+      const first = targetImports.find((imp) => !imp.isTypeImport) ?? targetImports[0]!;
+      const violation = violationOf(file, to, targetImports);
+      edges.push({
+        from: file,
+        to,
+        source: first.source,
+        line: first.line,
+        isTypeImport: first.isTypeImport,
+        ...(violation && { violation }),
+      });
+    }
+  }
+
+  // Path queries: keep files reachable from `from` that can also reach `to`
+  let kept: Set<string> = fileSet;
+  const adjacency = (reverse: boolean) => {
+    const map = new Map<string, Set<string>>();
+    for (const edge of edges) {
+      const [a, b] = reverse ? [edge.to, edge.from] : [edge.from, edge.to];
+      map.set(a, (map.get(a) ?? new Set()).add(b));
+    }
+    return map;
+  };
+  for (const [query, reverse] of [
+    [options.from, false],
+    [options.to, true],
+  ] as const) {
+    if (!query) continue;
+    const starts = files.filter((file) => matchesQuery(file, query));
+    if (starts.length === 0) {
+      throw new Error(`No files match --${reverse ? "to" : "from"} "${query}"`);
+    }
+    const reached = walk(starts, adjacency(reverse));
+    kept = new Set([...kept].filter((file) => reached.has(file)));
+  }
+
+  return {
+    nodes: files
+      .filter((file) => kept.has(file))
+      .map((file) => ({
+        file,
+        ...(layerOf.has(file) && { layer: layerOf.get(file) }),
+        ...(moduleOf(file) && { module: moduleOf(file) }),
+      })),
+    edges: edges.filter((edge) => kept.has(edge.from) && kept.has(edge.to)),
+  };
+}
+
+/**
+ * Group nodes by layer; nodes outside every layer come last under ""
+ */
+function groupByLayer(graph: ImportGraph): Map<string, GraphNode[]> {
+  const groups = new Map<string, GraphNode[]>();
+  for (const node of graph.nodes) {
+    const layer = node.layer ?? "";
+    groups.set(layer, [...(groups.get(layer) ?? []), node]);
+  }
+  const outside = groups.get("");
+  if (outside) {
+    groups.delete("");
+    groups.set("", outside);
+  }
+  return groups;
+}
+
+/**
+ * Graphviz DOT: one cluster per layer, forbidden imports in red, type-only imports dashed
+ */
+export function formatGraphDot(graph: ImportGraph): string {
+  const quote = (value: string) => `"${value.replace(/"/g, '\\"')}"`;
+  const nodeLine = (node: GraphNode) =>
+    node.module ? `${quote(node.file)} [label=${quote(`${node.file}\\nmodule: ${node.module}`)}];` : `${quote(node.file)};`;
+
+  const lines = ["digraph imports {", "  rankdir=LR;", '  node [shape=box, fontname="Helvetica"];'];
+  for (const [layer, nodes] of groupByLayer(graph)) {
+    if (!layer) {
+      lines.push(...nodes.map((node) => `  ${nodeLine(node)}`));
+      continue;
+    }
+    lines.push(`  subgraph ${quote(`cluster_${layer}`)} {`, `    label=${quote(layer)};`);
+    lines.push(...nodes.map((node) => `    ${nodeLine(node)}`));
+    lines.push("  }");
+  }
+
+  for (const edge of graph.edges) {
+    const attributes = [
+      ...(edge.violation ? ["color=red", `label=${quote(edge.violation)}`] : []),
+      ...(edge.isTypeImport ? ["style=dashed"] : []),
+    ];
+    const suffix = attributes.length > 0 ? ` [${attributes.join(", ")}]` : "";
+    lines.push(`  ${quote(edge.from)} -> ${quote(edge.to)}${suffix};`);
+  }
+  lines.push("}");
+  return lines.join("\n");
+}
+
+/**
+ * Mermaid flowchart: one subgraph per layer, forbidden imports in red, type-only imports dotted
+ */
+export function formatGraphMermaid(graph: ImportGraph): string {
+  const ids = new Map(graph.nodes.map((node, i) => [node.file, `n${i}`]));
+  const escape = (value: string) => value.replace(/"/g, "#quot;");
+  const nodeLine = (node: GraphNode) =>
+    `${ids.get(node.file)}["${escape(node.module ? `${node.file}<br/>module: ${node.module}` : node.file)}"]`;
+
+  const lines = ["flowchart LR"];
+  let layerCount = 0;
+  for (const [layer, nodes] of groupByLayer(graph)) {
+    if (!layer) {
+      lines.push(...nodes.map((node) => `  ${nodeLine(node)}`));
+      continue;
+    }
+    lines.push(`  subgraph layer${layerCount++}["${escape(layer)}"]`);
+    lines.push(...nodes.map((node) => `    ${nodeLine(node)}`));
+    lines.push("  end");
+  }
+
+  const violations: number[] = [];
+  graph.edges.forEach((edge, i) => {
+    const arrow = edge.isTypeImport ? "-.->" : "-->";
+    const label = edge.violation ? `|${escape(edge.violation)}|` : "";
+    lines.push(`  ${ids.get(edge.from)} ${arrow}${label} ${ids.get(edge.to)}`);
+    if (edge.violation) violations.push(i);
+  });
+  if (violations.length > 0) {
+    lines.push(`  linkStyle ${violations.join(",")} stroke:red,color:red`);
+  }
+  return lines.join("\n");
+}
+
+export function formatGraph(graph: ImportGraph, format: GraphFormat): string {
+  switch (format) {
+    case "dot":
+      return formatGraphDot(graph);
+    case "mermaid":
+      return formatGraphMermaid(graph);
+    case "json":
+      return JSON.stringify(graph, null, 2);
+  }
+}
@@ -1,15 +1,54 @@
-import { loadConfig, getEffectivePatterns } from "./config-loader";
+import { dirname, join, posix, relative } from "node:path";
+import { resolveConfig, resolvePackageConfig, getEffectivePatterns } from "./config-loader";
 import { runAllTools } from "./runners";
-import { runAllRules } from "./rules";
+import { runAllRules, type RuleRegistry } from "./rules";
+import { loadRuleRegistry } from "./plugins";
 import { format, type OutputFormat } from "./formatters";
-import type { CheckOptions, CheckResult, CheckSummary, ChaperoneConfig } from "./types";
-import { globSync } from "../utils/glob";
+import { applyFixes, summarizeFixes } from "./fixer";
+import type {
+  BaselineSummary,
+  CheckOptions,
+  CheckResult,
+  CheckSummary,
+  ChaperoneConfig,
+  CustomRule,
+  FixSummary,
+} from "./types";
+import { collectFilesToCheck, resolveFileScope } from "./files";
+import { createSummary } from "./summary";
+import { createProjectIndex } from "./rules/utils/project-index";
+import { createRuleCache } from "./rules/utils/rule-cache";
+import { getDefaultConcurrency } from "../utils/concurrency";
+import { applyBaseline, BASELINE_FILENAME, createBaseline, loadBaseline, writeBaseline } from "./baseline";
+import { discoverWorkspaces, getRootPackageName } from "../utils/workspaces";
 
 export * from "./types";
 export * from "./config-loader";
 export { runAllTools } from "./runners";
-export { runAllRules } from "./rules";
-export { format, formatText, formatJson, formatAI } from "./formatters";
+export { runAllRules, defineRule, createRuleRegistry, BUILT_IN_RULES } from "./rules";
+export type { ChaperonePlugin, RuleRegistry, RuleRunner, RuleRunnerOptions, RuleResult, RuleFix } from "./rules";
+export { loadPlugins, loadRuleRegistry } from "./plugins";
+export { collectFiles, isInScope } from "./rules/utils/collect-files";
+export { readProjectFile, readProjectImports } from "./rules/utils/project-index";
+export { format, formatText, formatJson, formatAI, formatSarif, formatJunit, formatGithub } from "./formatters";
+export { applyFixes, type FixReport } from "./fixer";
+export { watch, type WatchOptions } from "./watch";
+export { BASELINE_FILENAME, type Baseline, type BaselineEntry } from "./baseline";
+export { clearRuleCache, RULE_CACHE_DIR } from "./rules/utils/rule-cache";
+export { buildConfigJsonSchema, CONFIG_SCHEMA_URL } from "./config-schema";
+export { formatResolvedConfig, formatResolvedConfigJson } from "./config-printer";
+export {
+  buildImportGraph,
+  formatGraph,
+  GRAPH_FORMATS,
+  type GraphEdge,
+  type GraphFormat,
+  type GraphNode,
+  type GraphOptions,
+  type ImportGraph,
+} from "./graph";
+export { discoverWorkspaces, getWorkspacePatterns, type WorkspacePackage } from "../utils/workspaces";
+export { diffPreset, formatPreset, formatPresetDiff, formatPresetList, type PresetDiff, type PresetRuleDiff } from "./presets";
 
 /**
  * Progress callback for reporting check progress
@@ -30,61 +69,105 @@ export interface CheckOptionsWithProgress extends CheckOptions {
 }
 
 /**
- * Main check function - orchestrates all checks
+ * One project checked with its own config: the repository, or a workspace package
  */
-export async function check(options: CheckOptionsWithProgress): Promise<CheckSummary> {
-  const startTime = Date.now();
-  const { cwd, configPath, fix, include, exclude, onProgress, onDebug } = options;
+interface ProjectRun {
+  cwd: string;
+  config: ChaperoneConfig;
+  registry: RuleRegistry;
+  configFile?: string | null; // Absolute path of the config file the project was loaded from
+  scope?: Set<string>; // Relative to the project's cwd
+  exclude?: string[]; // Extra patterns to skip, e.g. workspace package directories at the root
+  tools?: boolean; // Run TypeScript, ESLint, Prettier and rules.tools (default: true)
+}
 
-  // Load configuration
-  onProgress?.("Loading configuration", "start");
-  const config = loadConfig(cwd, configPath);
-  onProgress?.("Loading configuration", "done");
+/**
+ * Run the tools and custom rules of one project, applying fixes when asked
+ */
+async function checkProject(
+  project: ProjectRun,
+  options: CheckOptionsWithProgress
+): Promise<{ results: CheckResult[]; totalFiles: number; fixes?: FixSummary }> {
+  const { cwd, config, registry, scope } = project;
+  const { fix, include, onProgress, onDebug } = options;
+  const concurrency = options.concurrency ?? getDefaultConcurrency();
 
   // Get effective include/exclude patterns
-  const patterns = getEffectivePatterns(config, include, exclude);
+  const patterns = getEffectivePatterns(config, include, options.exclude, cwd);
+  if (project.exclude) {
+    patterns.exclude = [...patterns.exclude, ...project.exclude];
+  }
 
-  // Count total files to check
+  // Collect the files to check
   onProgress?.("Scanning files", "start");
-  const allFiles = countFilesToCheck(cwd, patterns.include, patterns.exclude);
+  const indexOptions = { exclude: patterns.exclude, isIgnored: patterns.isIgnored };
+  const index = createProjectIndex(cwd, indexOptions);
+  const filesToCheck = collectFilesToCheck(cwd, patterns.include, patterns.exclude, patterns.isIgnored, scope, index);
   onProgress?.("Scanning files", "done");
 
-  // Run TypeScript
-  onProgress?.("Running TypeScript", "start");
-  const toolResults = await runAllTools(config, {
-    cwd,
-    fix,
-  });
+  let toolResults: CheckResult[] = [];
+  if (project.tools !== false) {
+    // Run TypeScript (always project-wide), ESLint and Prettier (scoped when a file set is given)
+    onProgress?.("Running TypeScript", "start");
+    const tools = await runAllTools(config, {
+      cwd,
+      fix,
+      files: scope ? Array.from(filesToCheck) : undefined,
+      configFile: project.configFile ? relative(cwd, project.configFile) : undefined,
+      concurrency,
+    });
+    toolResults = tools.results;
 
-  // Report tool results
-  if (toolResults.bySource.typescript?.skipped) {
-    onProgress?.("Running TypeScript", "skipped");
-  } else {
-    onProgress?.("Running TypeScript", "done");
-  }
+    // Report tool results
+    if (tools.bySource.typescript?.skipped) {
+      onProgress?.("Running TypeScript", "skipped");
+    } else {
+      onProgress?.("Running TypeScript", "done");
+    }
 
-  if (toolResults.bySource.eslint?.skipped) {
-    onProgress?.("Running ESLint", "skipped");
-  } else {
-    onProgress?.("Running ESLint", "start");
-    onProgress?.("Running ESLint", "done");
-  }
+    if (tools.bySource.eslint?.skipped) {
+      onProgress?.("Running ESLint", "skipped");
+    } else {
+      onProgress?.("Running ESLint", "start");
+      onProgress?.("Running ESLint", "done");
+    }
 
-  if (toolResults.bySource.prettier?.skipped) {
-    onProgress?.("Running Prettier", "skipped");
-  } else {
-    onProgress?.("Running Prettier", "start");
-    onProgress?.("Running Prettier", "done");
+    if (tools.bySource.prettier?.skipped) {
+      onProgress?.("Running Prettier", "skipped");
+    } else {
+      onProgress?.("Running Prettier", "start");
+      onProgress?.("Running Prettier", "done");
+    }
+
+    // External tools from rules.tools
+    for (const tool of config.rules?.tools ?? []) {
+      const step = `Running ${tool.name}`;
+      if (tools.bySource[tool.name]?.skipped) {
+        onProgress?.(step, "skipped");
+      } else {
+        onProgress?.(step, "start");
+        onProgress?.(step, "done");
+      }
+    }
   }
 
   // Run all custom rules
   onProgress?.("Checking custom rules", "start");
-  const ruleResults = await runAllRules(config, {
+  const cache = options.cache !== false ? createRuleCache(cwd) : undefined;
+  const ruleOptions = {
     cwd,
     include: patterns.include,
     exclude: patterns.exclude,
+    isIgnored: patterns.isIgnored,
+    scope,
+    reportUnusedDisables: options.reportUnusedDisables,
+    index,
+    concurrency,
+    cache,
+    registry,
     onDebug,
-  });
+  };
+  let ruleResults = await runAllRules(config, ruleOptions);
 
   const customRulesCount = config.rules?.custom?.length ?? 0;
   if (customRulesCount === 0) {
@@ -93,22 +176,174 @@ export async function check(options: CheckOptionsWithProgress): Promise<CheckSum
     onProgress?.("Checking custom rules", "done");
   }
 
-  // Combine results
-  const allResults: CheckResult[] = [...toolResults.results, ...ruleResults.results];
+  // Apply custom rule fixes, then re-run rules so only remaining issues are reported
+  let fixSummary: FixSummary | undefined;
+  if (fix && ruleResults.fixes.length > 0) {
+    onProgress?.("Applying fixes", "start");
+    const report = applyFixes(ruleResults.fixes, cwd);
+    onDebug?.(`Applied ${report.applied.length} fix(es), skipped ${report.skipped.length}`);
+    for (const { fix: skippedFix, reason } of report.skipped) {
+      onDebug?.(`  skipped ${skippedFix.rule} on ${skippedFix.file}: ${reason}`);
+    }
+    fixSummary = summarizeFixes(report);
+    onProgress?.("Applying fixes", "done");
+
+    if (report.applied.length > 0) {
+      // Fixes changed files on disk, so the cached index is stale
+      ruleResults = await runAllRules(config, { ...ruleOptions, index: createProjectIndex(cwd, indexOptions) });
+    }
+  }
+  cache?.save();
+
+  return { results: [...toolResults, ...ruleResults.results], totalFiles: filesToCheck.size, fixes: fixSummary };
+}
+
+/**
+ * Limit a root-relative file scope to one workspace package, relative to the package
+ */
+function scopeToPackage(scope: Set<string> | undefined, dir: string): Set<string> | undefined {
+  if (!scope) return undefined;
+  const prefix = `${dir}/`;
+  return new Set([...scope].filter((file) => file.startsWith(prefix)).map((file) => file.slice(prefix.length)));
+}
+
+/**
+ * Main check function - orchestrates all checks
+ */
+export async function check(options: CheckOptionsWithProgress): Promise<CheckSummary> {
+  const startTime = Date.now();
+  const { cwd, configPath, onProgress, onDebug } = options;
+
+  // Load configuration
+  onProgress?.("Loading configuration", "start");
+  const resolved = resolveConfig(cwd, configPath);
+  const { config, path: configFile } = resolved;
+  const registry = await loadRuleRegistry(config, configFile ? dirname(configFile) : cwd);
+  onProgress?.("Loading configuration", "done");
+
+  // Resolve the changed-files scope (--staged, --changed, --files)
+  const scopeFiles = await resolveFileScope(options);
+  const scope = scopeFiles ? new Set(scopeFiles) : undefined;
+  if (scopeFiles) {
+    onDebug?.(`Limiting checks to ${scopeFiles.length} file(s)`);
+  }
+
+  // Workspace mode: check the root and each package with its own (cascaded) config
+  const workspaces = options.workspaces === false ? false : (options.workspaces ?? config.workspaces);
+  const packages = workspaces
+    ? discoverWorkspaces(cwd, Array.isArray(workspaces) ? workspaces : undefined)
+    : [];
+  if (workspaces) {
+    onDebug?.(`Found ${packages.length} workspace package(s)`);
+  }
+
+  let allResults: CheckResult[] = [];
+  let totalFiles = 0;
+  let fixSummary: FixSummary | undefined;
+  const rules = new Map<string, CustomRule>();
+
+  if (packages.length === 0) {
+    const outcome = await checkProject({ cwd, config, registry, configFile, scope }, options);
+    allResults = outcome.results;
+    totalFiles = outcome.totalFiles;
+    fixSummary = outcome.fixes;
+    for (const rule of config.rules?.custom ?? []) rules.set(rule.id, rule);
+  } else {
+    // Tools run inside each package; the root only gets custom rules for files outside the packages
+    const rootScope = scope
+      ? new Set([...scope].filter((file) => !packages.some((pkg) => file.startsWith(`${pkg.dir}/`))))
+      : undefined;
+    const projects = [
+      {
+        name: getRootPackageName(cwd),
+        dir: "",
+        run: {
+          cwd,
+          config,
+          registry,
+          configFile,
+          scope: rootScope,
+          exclude: packages.map((pkg) => `${pkg.dir}/**`),
+          tools: false,
+        } as ProjectRun,
+      },
+    ];
+    for (const pkg of packages) {
+      const packageDir = join(cwd, pkg.dir);
+      const packageResolved = resolvePackageConfig(resolved, packageDir);
+      const packageConfig = packageResolved.config;
+      const packageRegistry = packageConfig.plugins?.length ? await loadRuleRegistry(packageConfig, packageDir) : registry;
+      projects.push({
+        name: pkg.name,
+        dir: pkg.dir,
+        run: {
+          cwd: packageDir,
+          config: packageConfig,
+          registry: packageRegistry,
+          configFile: packageResolved.path,
+          scope: scopeToPackage(scope, pkg.dir),
+        },
+      });
+    }
+
+    for (const { name, dir, run } of projects) {
+      // Scoped runs skip packages without selected files
+      if (run.scope && run.scope.size === 0) {
+        onProgress?.(`Checking ${name}`, "skipped");
+        continue;
+      }
+
+      onProgress?.(`Checking ${name}`, "start");
+      const outcome = await checkProject(run, { ...options, onProgress: undefined });
+      // posix.join also folds `../.chaperone.json` for packages that use the root config
+      const toRootPath = (file: string) => (dir ? posix.join(dir, file) : file);
+      allResults.push(...outcome.results.map((result) => ({ ...result, file: toRootPath(result.file), package: name })));
+      totalFiles += outcome.totalFiles;
+      if (outcome.fixes) {
+        fixSummary = {
+          applied: (fixSummary?.applied ?? 0) + outcome.fixes.applied,
+          skipped: [
+            ...(fixSummary?.skipped ?? []),
+            ...outcome.fixes.skipped.map((skipped) => ({ ...skipped, file: toRootPath(skipped.file) })),
+          ],
+        };
+      }
+      for (const rule of run.config.rules?.custom ?? []) {
+        if (!rules.has(rule.id)) rules.set(rule.id, rule);
+      }
+      onProgress?.(`Checking ${name}`, "done");
+    }
+  }
+
+  // Compare against the baseline; scoped runs only cover the selected files (plus project-wide tool results)
+  let baselineSummary: BaselineSummary | undefined;
+  if (options.baseline !== false || options.updateBaseline) {
+    const coveredFiles = scope ? new Set([...scope, ...allResults.map((r) => r.file)]) : undefined;
+    const previous = loadBaseline(cwd);
+
+    if (options.updateBaseline) {
+      const fixed = previous ? applyBaseline(allResults, previous, cwd, coveredFiles).summary.fixed : 0;
+      writeBaseline(cwd, createBaseline(allResults, cwd, previous, coveredFiles));
+      onDebug?.(`Wrote ${allResults.length} violation(s) to the baseline`);
+      baselineSummary = { file: BASELINE_FILENAME, matched: allResults.length, fixed, updated: true };
+      allResults = [];
+    } else if (previous) {
+      const applied = applyBaseline(allResults, previous, cwd, coveredFiles);
+      onDebug?.(`Baseline hid ${applied.summary.matched} known violation(s), ${applied.summary.fixed} fixed`);
+      baselineSummary = applied.summary;
+      allResults = applied.results;
+    }
+  }
 
   // Calculate summary
-  const totalErrors = allResults.filter((r) => r.severity === "error").length;
-  const totalWarnings = allResults.filter((r) => r.severity === "warning").length;
-
-  const summary: CheckSummary = {
-    totalFiles: allFiles,
-    totalErrors,
-    totalWarnings,
-    duration: Date.now() - startTime,
-    success: totalErrors === 0,
-    results: allResults,
-    bySource: groupBySource(allResults),
-  };
+  const summary = createSummary(allResults, {
+    totalFiles,
+    startTime,
+    fixes: fixSummary,
+    baseline: baselineSummary,
+    rules: [...rules.values()].filter((rule) => !rule.disabled),
+    packages: packages.length > 0 ? [getRootPackageName(cwd), ...packages.map((pkg) => pkg.name)] : undefined,
+  });
 
   return summary;
 }
@@ -129,39 +364,6 @@ export async function checkAndFormat(options: CheckOptionsWithProgress): Promise
   return { summary, output };
 }
 
-/**
- * Count files that will be checked
- */
-function countFilesToCheck(cwd: string, include: string[], exclude: string[]): number {
-  const allFiles = new Set<string>();
-
-  for (const pattern of include) {
-    const files = globSync(pattern, { cwd, ignore: exclude });
-    for (const file of files) {
-      allFiles.add(file);
-    }
-  }
-
-  return allFiles.size;
-}
-
-/**
- * Group results by source
- */
-function groupBySource(results: CheckResult[]): Record<string, CheckResult[]> {
-  const groups: Record<string, CheckResult[]> = {};
-
-  for (const result of results) {
-    const source = result.source ?? "unknown";
-    if (!groups[source]) {
-      groups[source] = [];
-    }
-    groups[source].push(result);
-  }
-
-  return groups;
-}
-
 /**
  * Create default check options
  */
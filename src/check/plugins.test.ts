@@ -0,0 +1,80 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { dirname, join } from "node:path";
+import { loadPlugins, loadRuleRegistry } from "./plugins";
+import { runAllRules } from "./rules";
+import type { ChaperoneConfig, CustomRule } from "./types";
+
+let cwd: string;
+
+const write = (file: string, content: string) => {
+  mkdirSync(dirname(join(cwd, file)), { recursive: true });
+  writeFileSync(join(cwd, file), content);
+};
+
+beforeEach(() => {
+  cwd = mkdtempSync(join(tmpdir(), "chaperone-plugins-"));
+});
+
+afterEach(() => {
+  rmSync(cwd, { recursive: true, force: true });
+});
+
+describe("loadRuleRegistry", () => {
+  test("registers plugin rules from default and named exports, resolved against the config directory", async () => {
+    write(
+      "plugins/legacy.mjs",
+      `export default {
+        rules: [{
+          type: "acme/no-legacy",
+          describe: (rule) => "checking " + rule.id,
+          run: async (rule) => ({
+            ruleId: rule.id,
+            results: [{ file: "src/a.ts", rule: "acme/no-legacy/" + rule.id, message: rule.message, severity: rule.severity, source: "custom" }],
+          }),
+        }],
+      };`
+    );
+    write(
+      "plugins/named.mjs",
+      `import { defineRule } from "chaperone";
+      export const rules = [defineRule({ type: "acme/noop", run: async (rule) => ({ ruleId: rule.id, results: [] }) })];`
+    );
+
+    const config: ChaperoneConfig = {
+      version: "1.0.0",
+      plugins: ["./plugins/legacy.mjs", "./plugins/named.mjs"],
+      rules: { custom: [{ id: "legacy", type: "acme/no-legacy", severity: "warning", message: "Legacy API" } as unknown as CustomRule] },
+    };
+    const registry = await loadRuleRegistry(config, cwd);
+    expect(registry.has("acme/no-legacy")).toBe(true);
+    expect(registry.has("acme/noop")).toBe(true);
+    expect(registry.has("regex")).toBe(true);
+
+    const { results } = await runAllRules(config, { cwd, include: ["**/*"], exclude: [], registry });
+    expect(results.map((r) => [r.rule, r.message, r.severity])).toEqual([["acme/no-legacy/legacy", "Legacy API", "warning"]]);
+  });
+
+  test("rejects rule types that are already registered", async () => {
+    write("plugin.mjs", `export const rules = [{ type: "regex", run: async () => ({ ruleId: "x", results: [] }) }];`);
+
+    await expect(loadRuleRegistry({ version: "1.0.0", plugins: ["./plugin.mjs"] }, cwd)).rejects.toThrow(
+      'Rule type "regex" is already registered'
+    );
+  });
+});
+
+describe("loadPlugins", () => {
+  test("reports unsupported, missing and malformed plugins", async () => {
+    write("no-rules.mjs", "export const name = 'empty';");
+    write("bad-rule.mjs", "export const rules = [{ type: 'acme/x' }];");
+    write("broken.mjs", "export const = ;");
+
+    await expect(loadPlugins(["chaperone-plugin-acme"], cwd)).rejects.toThrow("Unsupported plugin specifier");
+    await expect(loadPlugins(["./missing.mjs"], cwd)).rejects.toThrow("Plugin not found");
+    await expect(loadPlugins(["./no-rules.mjs"], cwd)).rejects.toThrow("must export a 'rules' array");
+    await expect(loadPlugins(["./bad-rule.mjs"], cwd)).rejects.toThrow("exports a rule without a 'type' and a 'run' function");
+    await expect(loadPlugins(["./broken.mjs"], cwd)).rejects.toThrow("Failed to load plugin ./broken.mjs");
+  });
+});
@@ -0,0 +1,56 @@
+import { existsSync } from "node:fs";
+import { isAbsolute, resolve } from "node:path";
+import { pathToFileURL } from "node:url";
+import { provideChaperoneModule } from "./config-loader";
+import { createRuleRegistry } from "./rules";
+import type { ChaperonePlugin, RuleRegistry, RuleRunner } from "./rules";
+import type { ChaperoneConfig } from "./types";
+
+/**
+ * Load the rule runners exported by plugin modules.
+ * Supports "./<path>", "../<path>" and absolute paths, resolved against configDir.
+ */
+export async function loadPlugins(specifiers: string[], configDir: string): Promise<RuleRunner[]> {
+  const runners: RuleRunner[] = [];
+
+  for (const specifier of specifiers) {
+    if (!specifier.startsWith("./") && !specifier.startsWith("../") && !isAbsolute(specifier)) {
+      throw new Error(`Unsupported plugin specifier: "${specifier}". Plugins must be local modules ("./<path>").`);
+    }
+
+    const pluginPath = resolve(configDir, specifier);
+    if (!existsSync(pluginPath)) {
+      throw new Error(`Plugin not found: ${pluginPath}`);
+    }
+
+    let plugin: Partial<ChaperonePlugin>;
+    try {
+      provideChaperoneModule();
+      const module = await import(pathToFileURL(pluginPath).href);
+      plugin = module.default ?? module;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(`Failed to load plugin ${specifier}: ${message}`);
+    }
+
+    if (!plugin || !Array.isArray(plugin.rules)) {
+      throw new Error(`Plugin ${specifier} must export a 'rules' array`);
+    }
+    for (const runner of plugin.rules) {
+      if (!runner || typeof runner.type !== "string" || typeof runner.run !== "function") {
+        throw new Error(`Plugin ${specifier} exports a rule without a 'type' and a 'run' function`);
+      }
+      runners.push(runner);
+    }
+  }
+
+  return runners;
+}
+
+/**
+ * Build the rule registry for a config: built-in rules plus the rules of its plugins
+ */
+export async function loadRuleRegistry(config: ChaperoneConfig, configDir: string): Promise<RuleRegistry> {
+  const plugins = await loadPlugins(config.plugins ?? [], configDir);
+  return createRuleRegistry(plugins);
+}
@@ -0,0 +1,73 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { getVendoredPresetName, resolvePresetPackage } from "./preset-resolver";
+
+let cwd: string;
+
+beforeEach(() => {
+  cwd = mkdtempSync(join(tmpdir(), "chaperone-presets-"));
+});
+
+afterEach(() => {
+  rmSync(cwd, { recursive: true, force: true });
+});
+
+const writeJson = (path: string, value: unknown): void => {
+  mkdirSync(join(cwd, path, ".."), { recursive: true });
+  writeFileSync(join(cwd, path), JSON.stringify(value));
+};
+
+describe("resolvePresetPackage", () => {
+  test("loads the file named by the chaperone field from a parent node_modules", () => {
+    writeJson("node_modules/@acme/preset/package.json", { name: "@acme/preset", main: "index.js", chaperone: "preset.json" });
+    writeJson("node_modules/@acme/preset/preset.json", { include: ["src/**"] });
+    writeJson("node_modules/@acme/preset/strict.json", { include: ["lib/**"] });
+    mkdirSync(join(cwd, "packages/app"), { recursive: true });
+
+    expect(resolvePresetPackage("@acme/preset", join(cwd, "packages/app")).preset).toEqual({ include: ["src/**"] });
+    expect(resolvePresetPackage("@acme/preset/strict", cwd).preset).toEqual({ include: ["lib/**"] });
+  });
+
+  test("follows the root entry of package.json exports before main", () => {
+    writeJson("node_modules/acme-preset/package.json", {
+      name: "acme-preset",
+      main: "legacy.json",
+      exports: { ".": { types: "./index.d.ts", require: "./preset.cjs" }, "./package.json": "./package.json" },
+    });
+    writeFileSync(join(cwd, "node_modules/acme-preset/preset.cjs"), 'module.exports = { include: ["src/**"] };\n');
+    writeJson("node_modules/@acme/preset/package.json", { name: "@acme/preset", exports: "./preset.json" });
+    writeJson("node_modules/@acme/preset/preset.json", { include: ["lib/**"] });
+
+    expect(resolvePresetPackage("acme-preset", cwd).preset).toEqual({ include: ["src/**"] });
+    expect(resolvePresetPackage("@acme/preset", cwd).preset).toEqual({ include: ["lib/**"] });
+  });
+
+  test("falls back to index.js", () => {
+    writeJson("node_modules/acme-preset/package.json", { name: "acme-preset" });
+    writeFileSync(join(cwd, "node_modules/acme-preset/index.js"), 'module.exports = { exclude: ["dist/**"] };\n');
+
+    expect(resolvePresetPackage("acme-preset", cwd).preset).toEqual({ exclude: ["dist/**"] });
+  });
+
+  test("reads pinned git presets from the vendored directory", () => {
+    expect(getVendoredPresetName("git+https://github.com/acme/preset.git#v1.2.0")).toBe("github.com-acme-preset@v1.2.0");
+    expect(getVendoredPresetName("github:acme/preset#v1.2.0")).toBe("github.com-acme-preset@v1.2.0");
+
+    writeJson(".chaperone/presets/github.com-acme-preset@v1.2.0/index.json", { exclude: ["dist/**"] });
+    expect(resolvePresetPackage("github:acme/preset#v1.2.0", cwd).preset).toEqual({ exclude: ["dist/**"] });
+    expect(() => resolvePresetPackage("github:acme/preset", cwd)).toThrow("must be pinned");
+  });
+
+  test("lists every location tried when a preset is missing", () => {
+    writeJson("node_modules/acme-preset/package.json", { name: "acme-preset", chaperone: "missing.json" });
+
+    expect(() => resolvePresetPackage("acme-preset", cwd)).toThrow(
+      `Cannot resolve preset "acme-preset". Tried:\n` +
+        `  - ${join(cwd, "node_modules/acme-preset/missing.json")} (from package.json "chaperone", not found)\n` +
+        `  - ${join(cwd, "node_modules/acme-preset/index.json")} (not found)\n` +
+        `  - ${join(cwd, "node_modules/acme-preset/index.js")} (not found)`
+    );
+  });
+});
@@ -0,0 +1,190 @@
+import { existsSync, readFileSync } from "node:fs";
+import { createRequire } from "node:module";
+import { dirname, extname, join, resolve } from "node:path";
+import type { ChaperonePreset } from "../presets";
+import type { ChaperoneConfig } from "./types";
+
+// Where pinned git and tarball presets are vendored, relative to the config directory
+export const VENDORED_PRESETS_DIR = ".chaperone/presets";
+
+/**
+ * A preset loaded from a package or vendored directory
+ */
+export interface ResolvedPreset {
+  preset: ChaperonePreset | Partial<ChaperoneConfig>;
+  path: string; // File the preset was loaded from
+}
+
+// git+https://…#ref, git+ssh://…#ref, git@host:org/repo.git#ref, github:org/repo#ref
+const GIT_SPECIFIER = /^(?:git\+[a-z]+:\/\/|git:\/\/|git@|github:|gitlab:|bitbucket:)/;
+const TARBALL_SPECIFIER = /^https?:\/\/.+\.(?:tgz|tar\.gz)$/;
+
+export function isGitSpecifier(specifier: string): boolean {
+  return GIT_SPECIFIER.test(specifier);
+}
+
+export function isTarballSpecifier(specifier: string): boolean {
+  return TARBALL_SPECIFIER.test(specifier);
+}
+
+/**
+ * Whether a specifier names an npm package (`@acme/preset`, `acme-preset/strict`)
+ */
+export function isPackageSpecifier(specifier: string): boolean {
+  return /^(?:@[a-z0-9][\w.-]*\/)?[a-z0-9][\w.-]*(?:\/[\w./-]+)?$/i.test(specifier) && !specifier.startsWith("chaperone/");
+}
+
+/**
+ * Directory name a pinned git or tarball specifier is vendored under, e.g.
+ * "git+https://github.com/acme/preset.git#v1.2.0" → "github.com-acme-preset@v1.2.0"
+ */
+export function getVendoredPresetName(specifier: string): string {
+  const [source = "", ref] = specifier.split("#");
+  const name = source
+    .replace(/^git\+/, "")
+    .replace(/^[a-z]+:\/\//, "")
+    .replace(/^git@/, "")
+    .replace(/^github:/, "github.com/")
+    .replace(/^gitlab:/, "gitlab.com/")
+    .replace(/^bitbucket:/, "bitbucket.org/")
+    .replace(/\.git$/, "")
+    .replace(/\.(?:tgz|tar\.gz)$/, "")
+    .replace(/[^\w.@-]+/g, "-");
+  return ref ? `${name}@${ref.replace(/[^\w.-]+/g, "-")}` : name;
+}
+
+/**
+ * Load a preset file: JSON is parsed, anything else is required as a module (default export or the module itself)
+ */
+function loadPresetFile(path: string): ChaperonePreset | Partial<ChaperoneConfig> {
+  if (extname(path) === ".json") {
+    return JSON.parse(readFileSync(path, "utf-8"));
+  }
+  const module = createRequire(path)(path);
+  return module.default ?? module;
+}
+
+// Conditions tried in a package.json `exports` entry, in order
+const EXPORT_CONDITIONS = ["require", "import", "node", "default"];
+
+/**
+ * The target of the "." entry of a package.json `exports` field: a path, an array of
+ * fallbacks, a conditions object, or a map of subpaths to any of these
+ */
+function resolveRootExport(exports: unknown): string | undefined {
+  if (typeof exports === "string") return exports;
+  if (Array.isArray(exports)) {
+    for (const entry of exports) {
+      const target = resolveRootExport(entry);
+      if (target) return target;
+    }
+    return undefined;
+  }
+  if (!exports || typeof exports !== "object") return undefined;
+
+  const entries = exports as Record<string, unknown>;
+  if (Object.keys(entries).some((key) => key.startsWith("."))) return resolveRootExport(entries["."]);
+  for (const condition of EXPORT_CONDITIONS) {
+    const target = resolveRootExport(entries[condition]);
+    if (target) return target;
+  }
+  return undefined;
+}
+
+/**
+ * Find the preset file inside a package directory: the `chaperone` field of its package.json,
+ * then the "." entry of its `exports`, then its `main` entry, then index.json and index.js.
+ * Records each attempt.
+ */
+function findPresetInPackage(packageDir: string, subpath: string | undefined, attempts: string[]): string | null {
+  if (subpath) {
+    for (const candidate of [join(packageDir, subpath), join(packageDir, `${subpath}.json`)]) {
+      if (existsSync(candidate) && extname(candidate)) return candidate;
+      attempts.push(`${candidate} (not found)`);
+    }
+    return null;
+  }
+
+  const manifestPath = join(packageDir, "package.json");
+  if (existsSync(manifestPath)) {
+    let manifest: { chaperone?: unknown; exports?: unknown; main?: unknown };
+    try {
+      manifest = JSON.parse(readFileSync(manifestPath, "utf-8"));
+    } catch {
+      attempts.push(`${manifestPath} (invalid JSON)`);
+      return null;
+    }
+
+    for (const [field, value] of [
+      ["chaperone", manifest.chaperone],
+      ["exports", resolveRootExport(manifest.exports)],
+      ["main", manifest.main],
+    ] as const) {
+      if (typeof value !== "string") continue;
+      const candidate = join(packageDir, value);
+      if (existsSync(candidate)) return candidate;
+      attempts.push(`${candidate} (from package.json "${field}", not found)`);
+    }
+  } else {
+    attempts.push(`${manifestPath} (not found)`);
+  }
+
+  for (const fallback of [join(packageDir, "index.json"), join(packageDir, "index.js")]) {
+    if (existsSync(fallback)) return fallback;
+    attempts.push(`${fallback} (not found)`);
+  }
+  return null;
+}
+
+/**
+ * Resolve a package, git or tarball preset specifier.
+ * Packages are looked up in node_modules from configDir upwards; git and tarball presets must be
+ * vendored under .chaperone/presets, since checks never download anything.
+ * Throws with every location tried when the preset cannot be found.
+ */
+export function resolvePresetPackage(specifier: string, configDir: string): ResolvedPreset {
+  const attempts: string[] = [];
+  let path: string | null = null;
+
+  if (isGitSpecifier(specifier) || isTarballSpecifier(specifier)) {
+    if (isGitSpecifier(specifier) && !specifier.includes("#")) {
+      throw new Error(`Git preset "${specifier}" must be pinned to a tag or commit (e.g. "${specifier}#v1.0.0")`);
+    }
+    const vendorDir = resolve(configDir, VENDORED_PRESETS_DIR, getVendoredPresetName(specifier));
+    if (existsSync(vendorDir)) {
+      path = findPresetInPackage(vendorDir, undefined, attempts);
+    } else {
+      attempts.push(`${vendorDir} (not vendored)`);
+    }
+  } else {
+    const segments = specifier.split("/");
+    const nameLength = specifier.startsWith("@") ? 2 : 1;
+    const packageName = segments.slice(0, nameLength).join("/");
+    const subpath = segments.slice(nameLength).join("/") || undefined;
+
+    for (let dir = resolve(configDir); ; dir = dirname(dir)) {
+      const packageDir = join(dir, "node_modules", packageName);
+      if (existsSync(packageDir)) {
+        path = findPresetInPackage(packageDir, subpath, attempts);
+        break;
+      }
+      attempts.push(`${packageDir} (not installed)`);
+      if (dirname(dir) === dir) break;
+    }
+  }
+
+  if (!path) {
+    const hint =
+      isGitSpecifier(specifier) || isTarballSpecifier(specifier)
+        ? `\nVendor it into ${join(VENDORED_PRESETS_DIR, getVendoredPresetName(specifier))} (see "Preset specifiers" in the README).`
+        : "";
+    throw new Error(`Cannot resolve preset "${specifier}". Tried:\n${attempts.map((a) => `  - ${a}`).join("\n")}${hint}`);
+  }
+
+  try {
+    return { preset: loadPresetFile(path), path };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Failed to load preset "${specifier}" from ${path}: ${message}`);
+  }
+}
@@ -0,0 +1,104 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { listBuiltInPresets } from "../presets";
+import { diffPreset, findPreset, formatPreset, formatPresetDiff, formatPresetList } from "./presets";
+
+let cwd: string;
+
+const stripColors = (text: string) => text.replace(/\x1b\[[0-9;]*m/g, "");
+
+const writeConfig = (config: unknown) => writeFileSync(join(cwd, ".chaperone.json"), JSON.stringify(config));
+
+beforeEach(() => {
+  cwd = mkdtempSync(join(tmpdir(), "chaperone-presets-command-"));
+});
+
+afterEach(() => {
+  rmSync(cwd, { recursive: true, force: true });
+});
+
+describe("findPreset", () => {
+  test("accepts names with and without the chaperone/ prefix", () => {
+    expect(findPreset("chaperone/react-layered")).toBe(findPreset("react-layered"));
+    expect(() => findPreset("chaperone/missing")).toThrow(
+      `Unknown built-in preset: chaperone/missing. Available presets: ${listBuiltInPresets().join(", ")}`
+    );
+  });
+});
+
+describe("formatPresetList / formatPreset", () => {
+  test("list every preset with its rule count, and show each rule of one", () => {
+    const list = stripColors(formatPresetList());
+    for (const name of listBuiltInPresets()) {
+      expect(list).toContain(`chaperone/${name}`);
+      expect(list).toContain(`(${findPreset(name).rules?.custom?.length ?? 0} rules)`);
+    }
+
+    const preset = findPreset("react-layered");
+    const shown = stripColors(formatPreset("react-layered"));
+    expect(shown).toContain(`Rules (${preset.rules!.custom!.length}):`);
+    for (const rule of preset.rules!.custom!) {
+      expect(shown).toContain(`[${rule.type}] ${rule.id} (${rule.severity})`);
+    }
+  });
+});
+
+describe("diffPreset", () => {
+  test("marks preset rules as disabled, overridden or inherited by the config", () => {
+    const [first, second, ...rest] = findPreset("react-layered").rules!.custom!;
+    writeConfig({
+      version: "1.0.0",
+      extends: ["chaperone/react-layered"],
+      rules: {
+        custom: [
+          { id: first!.id, type: first!.type, disabled: true },
+          { ...second!, severity: "warning", exclude: ["legacy/**"] },
+        ],
+      },
+    });
+
+    const diff = diffPreset("react-layered", cwd);
+    expect(diff.extended).toBe(true);
+    expect(diff.rules.map((rule) => [rule.id, rule.status, rule.changes])).toEqual([
+      [first!.id, "disabled", []],
+      [second!.id, "overridden", ["severity: error → warning", "exclude: added"]],
+      ...rest.map((rule) => [rule.id, "inherited", []]),
+    ]);
+    expect(stripColors(formatPresetDiff(diff, cwd))).toContain(`1 disabled, 1 overridden, ${rest.length} inherited`);
+  });
+
+  test("includes overrides and disabled rules from presets between the preset and the config", () => {
+    const [first, second, third, ...rest] = findPreset("react-layered").rules!.custom!;
+    writeFileSync(
+      join(cwd, "team.json"),
+      JSON.stringify({
+        extends: ["chaperone/react-layered"],
+        rules: { custom: [{ ...second!, severity: "warning" }, { id: third!.id, type: third!.type, disabled: true }] },
+      })
+    );
+    writeConfig({ version: "1.0.0", extends: ["./team.json"], rules: { custom: [{ ...first!, exclude: ["legacy/**"] }] } });
+
+    const diff = diffPreset("react-layered", cwd);
+    expect(diff.extended).toBe(true);
+    expect(diff.rules.map((rule) => [rule.id, rule.status, rule.changedIn])).toEqual([
+      [first!.id, "overridden", [".chaperone.json"]],
+      [second!.id, "overridden", ["./team.json"]],
+      [third!.id, "disabled", ["./team.json"]],
+      ...rest.map((rule) => [rule.id, "inherited", []]),
+    ]);
+
+    const output = stripColors(formatPresetDiff(diff, cwd));
+    expect(output).toMatch(new RegExp(`${second!.id} +overridden in \\./team\\.json \\(severity: error → warning\\)`));
+    expect(output).toMatch(new RegExp(`${third!.id} +disabled in \\./team\\.json`));
+  });
+
+  test("notes when the config does not extend the preset", () => {
+    writeConfig({ version: "1.0.0" });
+
+    const output = stripColors(formatPresetDiff(diffPreset("react-layered", cwd), cwd));
+    expect(output).toContain(".chaperone.json does not extend chaperone/react-layered; none of its rules apply.");
+    expect(() => diffPreset("react-layered", cwd, "missing.json")).toThrow("Config file not found");
+  });
+});
@@ -0,0 +1,187 @@
+import { join, relative, resolve } from "node:path";
+import { getBuiltInPreset, listBuiltInPresets, type ChaperonePreset } from "../presets";
+import { CONFIG_FILENAME, resolveConfig, type RuleOrigin } from "./config-loader";
+import { BUILT_IN_RULES } from "./rules";
+import type { CustomRule } from "./types";
+
+/**
+ * How the current config treats a preset rule
+ */
+export type PresetRuleStatus = "inherited" | "overridden" | "disabled";
+
+export interface PresetRuleDiff {
+  id: string;
+  type: string;
+  status: PresetRuleStatus;
+  changes: string[]; // "severity: error → warning" for each overridden field
+  changedIn: string[]; // Presets or config files after the preset that redeclared or disabled the rule
+}
+
+export interface PresetDiff {
+  preset: string;
+  configPath: string;
+  extended: boolean; // Whether the preset is part of the config's extends chain
+  rules: PresetRuleDiff[];
+}
+
+/**
+ * Look up a built-in preset by "<name>" or "chaperone/<name>"
+ */
+export function findPreset(name: string): ChaperonePreset {
+  const presetName = name.replace(/^chaperone\//, "");
+  const preset = getBuiltInPreset(presetName);
+  if (!preset) {
+    throw new Error(`Unknown built-in preset: ${name}. Available presets: ${listBuiltInPresets().join(", ")}`);
+  }
+  return preset;
+}
+
+/**
+ * One line per built-in preset: name, description and rule count
+ */
+export function formatPresetList(): string {
+  const presets = listBuiltInPresets().map(findPreset);
+  const width = Math.max(...presets.map((preset) => `chaperone/${preset.name}`.length));
+
+  const lines = ["\x1b[1mBuilt-in presets\x1b[0m", ""];
+  for (const preset of presets) {
+    const name = `chaperone/${preset.name}`.padEnd(width);
+    const count = preset.rules?.custom?.length ?? 0;
+    lines.push(`  \x1b[36m${name}\x1b[0m  ${preset.description} \x1b[2m(${count} rules)\x1b[0m`);
+  }
+  lines.push("");
+  lines.push('Run "chaperone presets show <name>" to see a preset\'s rules.');
+  return lines.join("\n");
+}
+
+/**
+ * Render a preset: its settings, then each custom rule with what it checks
+ */
+export function formatPreset(name: string): string {
+  const preset = findPreset(name);
+  const lines = [`\x1b[1mchaperone/${preset.name}\x1b[0m`, preset.description, ""];
+
+  const tools = (["typescript", "eslint", "prettier"] as const).filter((tool) => preset.rules?.[tool]);
+  for (const tool of tools) {
+    lines.push(`  \x1b[2m${tool}:\x1b[0m ${JSON.stringify(preset.rules![tool])}`);
+  }
+  if (preset.include) lines.push(`  \x1b[2minclude:\x1b[0m ${preset.include.join(", ")}`);
+  if (preset.exclude) lines.push(`  \x1b[2mexclude:\x1b[0m ${preset.exclude.join(", ")}`);
+  if (preset.extends) lines.push(`  \x1b[2mextends:\x1b[0m ${preset.extends.join(", ")}`);
+  if (tools.length > 0 || preset.include || preset.exclude || preset.extends) lines.push("");
+
+  const rules = preset.rules?.custom ?? [];
+  lines.push(`Rules (${rules.length}):`);
+  for (const rule of rules) {
+    const severity = rule.severity === "error" ? "\x1b[31merror\x1b[0m" : "\x1b[33mwarning\x1b[0m";
+    lines.push("");
+    lines.push(`  \x1b[34m[${rule.type}]\x1b[0m ${rule.id} (${severity})`);
+    lines.push(`    ${describePresetRule(rule)}`);
+    if ("message" in rule && rule.message) {
+      lines.push(`    \x1b[2m${rule.message}\x1b[0m`);
+    }
+    if (rule.exclude?.length) {
+      lines.push(`    \x1b[2mexcluding: ${rule.exclude.join(", ")}\x1b[0m`);
+    }
+  }
+
+  return lines.join("\n");
+}
+
+function describePresetRule(rule: CustomRule): string {
+  const runner = BUILT_IN_RULES.find((candidate) => candidate.type === rule.type);
+  const description = runner?.describe?.(rule) ?? `${rule.type} rule`;
+  return description.charAt(0).toUpperCase() + description.slice(1);
+}
+
+/**
+ * Fields that differ between a preset rule and the config's rule with the same id
+ */
+function diffRuleFields(presetRule: CustomRule, configRule: CustomRule): string[] {
+  const before = presetRule as unknown as Record<string, unknown>;
+  const after = configRule as unknown as Record<string, unknown>;
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+
+  const changes: string[] = [];
+  for (const key of keys) {
+    if (key === "id" || key === "disabled") continue;
+    const from = JSON.stringify(before[key]);
+    const to = JSON.stringify(after[key]);
+    if (from === to) continue;
+    if (from === undefined) changes.push(`${key}: added`);
+    else if (to === undefined) changes.push(`${key}: removed`);
+    else if (typeof before[key] === "object" || typeof after[key] === "object") changes.push(`${key}: changed`);
+    else changes.push(`${key}: ${String(before[key])} → ${String(after[key])}`);
+  }
+  return changes;
+}
+
+/**
+ * Where a rule was declared, in merge order, from the preset on; null when the preset did not declare it
+ */
+function sourcesFromPreset(origin: RuleOrigin | undefined, preset: string): string[] | null {
+  if (!origin) return null;
+  const sources = [origin.definedIn, ...origin.overriddenIn];
+  const index = sources.findIndex((source) => source.split(" > ").includes(preset));
+  return index === -1 ? null : sources.slice(index);
+}
+
+/**
+ * Compare a preset's rules with the resolved config, including presets and config files that
+ * extend it. Rules with a preset rule's id replace it (later wins); `disabled: true` removes it.
+ */
+export function diffPreset(name: string, cwd: string, configPath?: string): PresetDiff {
+  const preset = findPreset(name);
+  const specifier = `chaperone/${preset.name}`;
+  const resolved = resolveConfig(cwd, configPath);
+  if (!resolved.path) {
+    throw new Error(`Config file not found: ${join(cwd, CONFIG_FILENAME)}`);
+  }
+
+  const configRules = new Map((resolved.config.rules?.custom ?? []).map((rule) => [rule.id, rule]));
+  let extended = false;
+  const rules = (preset.rules?.custom ?? []).map((presetRule): PresetRuleDiff => {
+    const disabled = presetRule.id in resolved.disabledRules;
+    const origin = disabled ? resolved.disabledRules[presetRule.id] : resolved.ruleOrigins[presetRule.id];
+    const sources = sourcesFromPreset(origin, specifier);
+    const base = { id: presetRule.id, type: presetRule.type };
+    if (!sources) return { ...base, status: "inherited", changes: [], changedIn: [] };
+
+    extended = true;
+    const changedIn = sources.slice(1);
+    if (disabled) return { ...base, status: "disabled", changes: [], changedIn };
+    if (changedIn.length === 0) return { ...base, status: "inherited", changes: [], changedIn };
+    return { ...base, status: "overridden", changes: diffRuleFields(presetRule, configRules.get(presetRule.id)!), changedIn };
+  });
+
+  return { preset: specifier, configPath: resolved.path, extended, rules };
+}
+
+export function formatPresetDiff(diff: PresetDiff, cwd: string): string {
+  const configName = relative(resolve(cwd), diff.configPath);
+  const lines = [`\x1b[1m${diff.preset}\x1b[0m vs ${configName}`, ""];
+
+  if (!diff.extended) {
+    lines.push(`\x1b[33mNote:\x1b[0m ${configName} does not extend ${diff.preset}; none of its rules apply.`);
+    lines.push("");
+  }
+
+  const width = Math.max(...diff.rules.map((rule) => rule.id.length));
+  for (const rule of diff.rules) {
+    const id = rule.id.padEnd(width);
+    const changedIn = rule.changedIn.join(", ");
+    if (rule.status === "disabled") {
+      lines.push(`  \x1b[31m✗\x1b[0m ${id}  disabled in ${rule.changedIn.at(-1)}`);
+    } else if (rule.status === "overridden") {
+      const detail = rule.changes.length > 0 ? rule.changes.join(", ") : "redeclared without changes";
+      lines.push(`  \x1b[33m~\x1b[0m ${id}  overridden in ${changedIn} \x1b[2m(${detail})\x1b[0m`);
+    } else {
+      lines.push(`  \x1b[32m✓\x1b[0m ${id}  \x1b[2minherited\x1b[0m`);
+    }
+  }
+
+  const count = (status: PresetRuleStatus) => diff.rules.filter((rule) => rule.status === status).length;
+  lines.push("");
+  lines.push(`${count("disabled")} disabled, ${count("overridden")} overridden, ${count("inherited")} inherited`);
+  return lines.join("\n");
+}
@@ -1,8 +1,7 @@
-import { readFileSync } from "node:fs";
-import { join } from "node:path";
-import { globSync } from "../../utils/glob";
 import type { CheckResult, ComponentLocationRule } from "../types";
 import type { RuleResult, RuleRunnerOptions } from "./types";
+import { collectFiles } from "./utils/collect-files";
+import { readProjectFile } from "./utils/project-index";
 
 /**
  * Patterns that indicate a component has state/side effects (NOT presentational)
@@ -112,24 +111,16 @@ export async function runComponentLocationRule(
   rule: ComponentLocationRule,
   options: RuleRunnerOptions
 ): Promise<RuleResult> {
-  const { cwd, exclude } = options;
   const results: CheckResult[] = [];
 
   // Merge global excludes with rule-specific excludes
-  const allExcludes = [...exclude, ...(rule.exclude ?? [])];
-
   // Find all component files
-  const files = globSync(rule.files, {
-    cwd,
-    ignore: allExcludes,
-  });
+  const files = collectFiles(rule.files, options, rule.exclude);
 
   for (const file of files) {
-    const fullPath = join(cwd, file);
-
     let content: string;
     try {
-      content = readFileSync(fullPath, "utf-8");
+      content = readProjectFile(file, options);
     } catch {
       continue;
     }
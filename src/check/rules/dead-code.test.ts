@@ -0,0 +1,75 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { dirname, join } from "node:path";
+import type { DeadCodeRule } from "../types";
+import { runDeadCodeRule } from "./dead-code";
+
+let cwd: string;
+
+const write = (file: string, content: string) => {
+  mkdirSync(dirname(join(cwd, file)), { recursive: true });
+  writeFileSync(join(cwd, file), content);
+};
+
+const run = async (extra: Partial<DeadCodeRule> = {}) => {
+  const rule: DeadCodeRule = {
+    id: "dead",
+    type: "dead-code",
+    severity: "error",
+    files: "src/**/*.ts",
+    entryPoints: ["src/main.ts"],
+    ...extra,
+  };
+  const { results } = await runDeadCodeRule(rule, { cwd, include: ["**/*"], exclude: ["node_modules"] });
+  return results.map((result) => [result.file, result.line, result.message]);
+};
+
+beforeEach(() => {
+  cwd = mkdtempSync(join(tmpdir(), "chaperone-dead-code-"));
+});
+
+afterEach(() => {
+  rmSync(cwd, { recursive: true, force: true });
+});
+
+describe("runDeadCodeRule", () => {
+  test("reports files no entry point reaches", async () => {
+    write("src/main.ts", 'import "./setup";\n');
+    write("src/setup.ts", "console.log('setup');\n");
+    write("src/orphan.ts", 'import "./setup";\n');
+
+    expect(await run()).toEqual([["src/orphan.ts", undefined, "File is not reachable from any entry point"]]);
+    expect(await run({ unusedFiles: false })).toEqual([]);
+  });
+
+  test("reports named exports nothing imports, but never the exports of entry points", async () => {
+    write("src/main.ts", 'import { used } from "./util";\nexport const cli = used;\n');
+    write("src/util.ts", "export const used = 1;\n\nexport function unused() {}\n");
+
+    expect(await run()).toEqual([["src/util.ts", 3, 'Export "unused" is never imported']]);
+    expect(await run({ unusedExports: false })).toEqual([]);
+  });
+
+  test("follows barrel re-exports and export * to the declaring module", async () => {
+    write("src/main.ts", 'import { format, add } from "./lib";\nconsole.log(format, add);\n');
+    write("src/lib/index.ts", 'export { format, parse } from "./format";\nexport * from "./math";\n');
+    write("src/lib/format.ts", "export const format = 1;\nexport const parse = 2;\nexport const pad = 3;\n");
+    write("src/lib/math.ts", "export const add = 1;\nexport const sub = 2;\n");
+
+    expect(await run()).toEqual([
+      ["src/lib/format.ts", 2, 'Export "parse" is never imported'],
+      ["src/lib/format.ts", 3, 'Export "pad" is never imported'],
+      ["src/lib/index.ts", 1, 'Re-export "parse" is never imported'],
+      ["src/lib/math.ts", 2, 'Export "sub" is never imported'],
+    ]);
+  });
+
+  test("counts namespace imports and dynamic import() as using every export", async () => {
+    write("src/main.ts", 'import * as math from "./math";\nconst load = () => import("./lazy");\nconsole.log(math, load);\n');
+    write("src/math.ts", "export const add = 1;\nexport const sub = 2;\n");
+    write("src/lazy.ts", "export const page = 1;\nexport default page;\n");
+
+    expect(await run()).toEqual([]);
+  });
+});
@@ -0,0 +1,196 @@
+import { dirname, posix } from "node:path";
+import type { CheckResult, DeadCodeRule } from "../types";
+import type { ExportEntry, ImportEntry, RuleResult, RuleRunnerOptions } from "./types";
+import { collectFiles, isInScope } from "./utils/collect-files";
+import { extractExports } from "./utils/import-extractor";
+import { MODULE_FILE_PATTERN } from "./utils/module-graph";
+import { createModuleResolver } from "./utils/module-resolver";
+import { readProjectFile, readProjectImports } from "./utils/project-index";
+import { matchGlob } from "../../utils/glob";
+
+// Marks every export of a module as used
+const ALL_EXPORTS = "*";
+
+interface ModuleInfo {
+  exports: ExportEntry[];
+  imports: Array<{ entry: ImportEntry; targets: string[] }>; // Project files each import resolves to
+  reExports: Map<string, { target: string; imported: string; line: number }>; // exported name → origin
+  starReExports: string[]; // `export * from` targets
+}
+
+/**
+ * Files an import refers to: the resolved file, or every matching file for import.meta.glob()
+ */
+function resolveTargets(
+  imp: ImportEntry,
+  file: string,
+  files: Set<string>,
+  resolve: (source: string, from: string) => string | null
+): string[] {
+  if (imp.kind === "glob") {
+    if (!imp.source.startsWith(".")) return [];
+    const pattern = posix.join(dirname(file), imp.source);
+    return [...files].filter((candidate) => candidate !== file && matchGlob(candidate, pattern));
+  }
+  const resolved = resolve(imp.source, file);
+  return resolved && resolved !== file && files.has(resolved) ? [resolved] : [];
+}
+
+/**
+ * Run dead-code rule to find files no entry point reaches and exports nothing imports.
+ * Usage follows re-exports, so a name imported through a barrel (such as the ones public-api
+ * enforces) counts as a use of the module that declares it. Exports of entry points are
+ * public and never reported.
+ */
+export async function runDeadCodeRule(
+  rule: DeadCodeRule,
+  options: RuleRunnerOptions
+): Promise<RuleResult> {
+  const results: CheckResult[] = [];
+  const ruleName = `dead-code/${rule.id}`;
+  const resolver = options.moduleResolver ?? createModuleResolver(options.cwd);
+
+  const entryPoints = new Set(
+    rule.entryPoints.flatMap((pattern) => collectFiles(pattern, options, rule.exclude, { scoped: false }))
+  );
+  const checked = new Set(
+    collectFiles(rule.files, options, rule.exclude, { scoped: false }).filter((file) => MODULE_FILE_PATTERN.test(file))
+  );
+  const files = new Set([...entryPoints, ...checked].filter((file) => MODULE_FILE_PATTERN.test(file)));
+
+  const modules = new Map<string, ModuleInfo>();
+  for (const file of files) {
+    const info: ModuleInfo = { exports: [], imports: [], reExports: new Map(), starReExports: [] };
+    modules.set(file, info);
+
+    let imports: ImportEntry[];
+    try {
+      info.exports = extractExports(readProjectFile(file, options));
+      imports = readProjectImports(file, options, {
+        includeTypeImports: true,
+        includeDynamicImports: true,
+        includeRequire: true,
+      });
+    } catch {
+      continue;
+    }
+
+    for (const entry of imports) {
+      const targets = resolveTargets(entry, file, files, (source, from) => resolver.resolve(source, from));
+      if (targets.length === 0) continue;
+      info.imports.push({ entry, targets });
+
+      if (entry.kind !== "export") continue;
+      if (entry.bindings.length === 0) {
+        info.starReExports.push(targets[0]!);
+      }
+      for (const binding of entry.bindings) {
+        info.reExports.set(binding.local, { target: targets[0]!, imported: binding.imported, line: entry.line });
+      }
+    }
+  }
+
+  // Reachability from the entry points over every kind of import
+  const reachable = new Set<string>();
+  const queue = [...entryPoints].filter((file) => files.has(file));
+  for (const file of queue) {
+    if (reachable.has(file)) continue;
+    reachable.add(file);
+    for (const { targets } of modules.get(file)!.imports) {
+      queue.push(...targets.filter((target) => !reachable.has(target)));
+    }
+  }
+
+  // Used names per file, following re-exports to the module that declares them
+  const used = new Map<string, Set<string>>();
+  const markUsed = (file: string, name: string): void => {
+    const names = used.get(file) ?? new Set<string>();
+    used.set(file, names);
+    if (names.has(name) || names.has(ALL_EXPORTS)) return;
+    names.add(name);
+
+    const info = modules.get(file);
+    if (!info) return;
+    if (name === ALL_EXPORTS) {
+      for (const origin of info.reExports.values()) markUsed(origin.target, origin.imported);
+      for (const target of info.starReExports) markUsed(target, ALL_EXPORTS);
+      return;
+    }
+
+    const origin = info.reExports.get(name);
+    if (origin) {
+      markUsed(origin.target, origin.imported);
+    } else if (!info.exports.some((entry) => entry.name === name) && name !== "default") {
+      // `export *` forwards every name except default
+      for (const target of info.starReExports) markUsed(target, name);
+    }
+  };
+
+  for (const file of entryPoints) {
+    if (files.has(file)) markUsed(file, ALL_EXPORTS);
+  }
+  for (const file of reachable) {
+    for (const { entry, targets } of modules.get(file)!.imports) {
+      for (const target of targets) {
+        if (entry.kind === "export") continue; // Re-exports only count when their own name is used
+        if (entry.bindings.length === 0) {
+          // Side-effect imports use nothing; import(), require() and globs may use anything
+          if (entry.kind !== "import") markUsed(target, ALL_EXPORTS);
+          continue;
+        }
+        for (const binding of entry.bindings) markUsed(target, binding.imported);
+      }
+    }
+  }
+
+  for (const file of [...checked].sort()) {
+    if (entryPoints.has(file) || !isInScope(file, options)) continue;
+
+    if (!reachable.has(file)) {
+      if (rule.unusedFiles ?? true) {
+        results.push({
+          file,
+          rule: ruleName,
+          message: rule.message || "File is not reachable from any entry point",
+          severity: rule.severity,
+          source: "custom",
+          suggestion: `Delete the file, import it, or add it to entryPoints (${rule.entryPoints.join(", ")})`,
+        });
+      }
+      continue;
+    }
+
+    if (!(rule.unusedExports ?? true)) continue;
+    const names = used.get(file) ?? new Set<string>();
+    if (names.has(ALL_EXPORTS)) continue;
+
+    const info = modules.get(file)!;
+    const unused = [
+      ...info.exports.map((entry) => ({ name: entry.name, line: entry.line, reExport: false })),
+      ...[...info.reExports].map(([name, origin]) => ({ name, line: origin.line, reExport: true })),
+    ].filter((entry) => !names.has(entry.name));
+
+    for (const entry of unused) {
+      results.push({
+        file,
+        rule: ruleName,
+        message: rule.message || `${entry.reExport ? "Re-export" : "Export"} "${entry.name}" is never imported`,
+        severity: rule.severity,
+        source: "custom",
+        line: entry.line,
+        suggestion: entry.reExport ? "Remove the re-export" : "Remove the export keyword, or the declaration if it is unused",
+        context: { matchedText: entry.name },
+      });
+    }
+  }
+
+  return { ruleId: rule.id, results };
+}
+
+export function isDeadCodeRule(rule: unknown): rule is DeadCodeRule {
+  return (
+    typeof rule === "object" &&
+    rule !== null &&
+    (rule as DeadCodeRule).type === "dead-code"
+  );
+}
@@ -1,8 +1,8 @@
-import { readFileSync } from "node:fs";
-import { basename, join } from "node:path";
-import { globSync } from "../../utils/glob";
+import { basename } from "node:path";
 import type { CheckResult, FileContractRule, FileContractAssertions } from "../types";
 import type { RuleResult, RuleRunnerOptions } from "./types";
+import { collectFiles } from "./utils/collect-files";
+import { readProjectFile } from "./utils/project-index";
 
 function compileRegex(pattern: string): RegExp | null {
   try {
@@ -304,25 +304,18 @@ export async function runFileContractRule(
   rule: FileContractRule,
   options: RuleRunnerOptions
 ): Promise<RuleResult> {
-  const { cwd, exclude } = options;
   const results: CheckResult[] = [];
 
-  const allExcludes = [...exclude, ...(rule.exclude ?? [])];
-  const files = globSync(rule.files, {
-    cwd,
-    ignore: allExcludes,
-  });
+  const files = collectFiles(rule.files, options, rule.exclude);
 
   const staticRequiredPatterns = rule.requiredPatterns ?? [];
   const staticRequiredAnyPatterns = rule.requiredAnyPatterns ?? [];
   const staticForbiddenPatterns = rule.forbiddenPatterns ?? [];
 
   for (const file of files) {
-    const fullPath = join(cwd, file);
-
     let content = "";
     try {
-      content = readFileSync(fullPath, "utf-8");
+      content = readProjectFile(file, options);
     } catch {
       continue;
     }
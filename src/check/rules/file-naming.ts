@@ -1,8 +1,9 @@
 import { existsSync } from "node:fs";
 import { dirname, basename, extname, join } from "node:path";
-import { globSync } from "../../utils/glob";
 import type { CheckResult, FileNamingRule } from "../types";
-import type { RuleResult, RuleRunnerOptions } from "./types";
+import type { RuleFix, RuleResult, RuleRunnerOptions } from "./types";
+import { renderScaffold } from "./utils/scaffold";
+import { collectFiles } from "./utils/collect-files";
 
 /**
  * Apply transform pattern to create companion file path
@@ -26,17 +27,12 @@ export async function runFileNamingRule(
   rule: FileNamingRule,
   options: RuleRunnerOptions
 ): Promise<RuleResult> {
-  const { cwd, exclude } = options;
+  const { cwd } = options;
   const results: CheckResult[] = [];
-
-  // Merge global excludes with rule-specific excludes
-  const allExcludes = [...exclude, ...(rule.exclude ?? [])];
+  const fixes: RuleFix[] = [];
 
   // Find files matching the pattern
-  const files = globSync(rule.pattern, {
-    cwd,
-    ignore: allExcludes,
-  });
+  const files = collectFiles(rule.pattern, options, rule.exclude);
 
   for (const file of files) {
     // Check if companion file is required
@@ -45,12 +41,18 @@ export async function runFileNamingRule(
       const fullCompanionPath = join(cwd, companionPath);
 
       if (!existsSync(fullCompanionPath)) {
+        const scaffold = renderScaffold(rule.scaffold, { file, companion: companionPath }, cwd);
+        if (scaffold !== null) {
+          fixes.push({ kind: "create", rule: `file-naming/${rule.id}`, file: companionPath, content: scaffold, source: file });
+        }
+
         results.push({
           file,
           rule: `file-naming/${rule.id}`,
           message: rule.message || `Missing companion file: ${companionPath}`,
           severity: rule.severity,
           source: "custom",
+          fixable: scaffold !== null || undefined,
           suggestion: `Create file: ${companionPath}`,
         });
       }
@@ -60,6 +62,7 @@ export async function runFileNamingRule(
   return {
     ruleId: rule.id,
     results,
+    fixes,
   };
 }
 
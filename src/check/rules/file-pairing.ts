@@ -1,8 +1,9 @@
 import { existsSync } from "node:fs";
 import { join } from "node:path";
-import { globSync } from "../../utils/glob";
 import type { CheckResult, FilePairingRule } from "../types";
-import type { RuleResult, RuleRunnerOptions } from "./types";
+import type { RuleFix, RuleResult, RuleRunnerOptions } from "./types";
+import { renderScaffold } from "./utils/scaffold";
+import { collectFiles } from "./utils/collect-files";
 
 function compileRegex(pattern: string): RegExp | null {
   try {
@@ -16,14 +17,11 @@ export async function runFilePairingRule(
   rule: FilePairingRule,
   options: RuleRunnerOptions
 ): Promise<RuleResult> {
-  const { cwd, exclude } = options;
+  const { cwd } = options;
   const results: CheckResult[] = [];
+  const fixes: RuleFix[] = [];
 
-  const allExcludes = [...exclude, ...(rule.exclude ?? [])];
-  const files = globSync(rule.files, {
-    cwd,
-    ignore: allExcludes,
-  });
+  const files = collectFiles(rule.files, options, rule.exclude);
 
   const transformRegex = compileRegex(rule.pair.from);
   if (!transformRegex) {
@@ -69,12 +67,18 @@ export async function runFilePairingRule(
     const companionExists = existsSync(fullCompanionPath);
 
     if (mustExist && !companionExists) {
+      const scaffold = renderScaffold(rule.scaffold, { file, companion: transformed }, cwd);
+      if (scaffold !== null) {
+        fixes.push({ kind: "create", rule: `file-pairing/${rule.id}`, file: transformed, content: scaffold, source: file });
+      }
+
       results.push({
         file,
         rule: `file-pairing/${rule.id}`,
         message: rule.message || `Missing companion file: ${transformed}`,
         severity: rule.severity,
         source: "custom",
+        fixable: scaffold !== null || undefined,
         suggestion: `Create file: ${transformed}`,
         context: {
           expectedValue: transformed,
@@ -102,6 +106,7 @@ export async function runFilePairingRule(
   return {
     ruleId: rule.id,
     results,
+    fixes,
   };
 }
 
@@ -1,8 +1,8 @@
 import { readdirSync, existsSync } from "node:fs";
 import { join, basename } from "node:path";
-import { globSync } from "../../utils/glob";
 import type { CheckResult, FileStructureRule } from "../types";
 import type { RuleResult, RuleRunnerOptions } from "./types";
+import { collectFiles } from "./utils/collect-files";
 
 /**
  * Discover directories matching a glob pattern like "src/features/*".
@@ -10,9 +10,11 @@ import type { RuleResult, RuleRunnerOptions } from "./types";
  */
 function discoverDirectories(
   parentDirs: string,
-  cwd: string,
-  ignore: string[]
+  options: RuleRunnerOptions,
+  ruleExclude?: string[]
 ): string[] {
+  const { cwd, isIgnored } = options;
+
   // The parentDirs pattern like "src/features/*" means we want to find
   // directories that match. We'll split the pattern to find the base and wildcard.
   const parts = parentDirs.split("/");
@@ -30,7 +32,7 @@ function discoverDirectories(
     try {
       const entries = readdirSync(fullParentPath, { withFileTypes: true });
       return entries
-        .filter((e) => e.isDirectory())
+        .filter((e) => e.isDirectory() && !isIgnored?.(join(parentPath, e.name), true))
         .map((e) => join(parentPath, e.name));
     } catch {
       return [];
@@ -38,7 +40,7 @@ function discoverDirectories(
   }
 
   // For more complex patterns, glob for files and extract unique dir paths
-  const files = globSync(parentDirs + "/**/*", { cwd, ignore });
+  const files = collectFiles(parentDirs + "/**/*", options, ruleExclude, { scoped: false });
   const dirs = new Set<string>();
   for (const file of files) {
     // Extract the directory that matches the pattern level
@@ -55,13 +57,16 @@ export async function runFileStructureRule(
   rule: FileStructureRule,
   options: RuleRunnerOptions
 ): Promise<RuleResult> {
-  const { cwd, exclude } = options;
+  const { cwd } = options;
   const results: CheckResult[] = [];
 
-  const allExcludes = [...exclude, ...(rule.exclude ?? [])];
-  const directories = discoverDirectories(rule.parentDirs, cwd, allExcludes);
+  const directories = discoverDirectories(rule.parentDirs, options, rule.exclude);
+  const { scope } = options;
 
   for (const dir of directories) {
+    // In changed-files mode, only check directories that contain a changed file
+    if (scope && !Array.from(scope).some((file) => file.startsWith(dir + "/"))) continue;
+
     const fullDirPath = join(cwd, dir);
     const dirName = basename(dir);
 
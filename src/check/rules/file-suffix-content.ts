@@ -1,8 +1,7 @@
-import { readFileSync } from "node:fs";
-import { join } from "node:path";
-import { globSync } from "../../utils/glob";
 import type { CheckResult, FileSuffixContentRule } from "../types";
 import type { RuleResult, RuleRunnerOptions } from "./types";
+import { collectFiles } from "./utils/collect-files";
+import { readProjectFile } from "./utils/project-index";
 
 function compileRegex(pattern: string): RegExp | null {
   try {
@@ -16,24 +15,17 @@ export async function runFileSuffixContentRule(
   rule: FileSuffixContentRule,
   options: RuleRunnerOptions
 ): Promise<RuleResult> {
-  const { cwd, exclude } = options;
   const results: CheckResult[] = [];
 
-  const allExcludes = [...exclude, ...(rule.exclude ?? [])];
-  const allFiles = globSync(rule.files, {
-    cwd,
-    ignore: allExcludes,
-  });
+  const allFiles = collectFiles(rule.files, options, rule.exclude);
 
   // Filter to only files that end with the specified suffix
   const matchedFiles = allFiles.filter((f) => f.endsWith(rule.suffix));
 
   for (const file of matchedFiles) {
-    const fullPath = join(cwd, file);
-
     let content = "";
     try {
-      content = readFileSync(fullPath, "utf-8");
+      content = readProjectFile(file, options);
     } catch {
       continue;
     }
@@ -1,9 +1,8 @@
-import { readFileSync } from "node:fs";
-import { join } from "node:path";
-import { globSync, matchGlob } from "../../utils/glob";
+import { matchGlob } from "../../utils/glob";
 import type { CheckResult, ForbiddenImportRule } from "../types";
 import type { RuleResult, RuleRunnerOptions } from "./types";
-import { extractImports } from "./utils/import-extractor";
+import { collectFiles } from "./utils/collect-files";
+import { readProjectFile, readProjectImports } from "./utils/project-index";
 
 function compileRegex(pattern: string): RegExp | null {
   try {
@@ -17,30 +16,23 @@ export async function runForbiddenImportRule(
   rule: ForbiddenImportRule,
   options: RuleRunnerOptions
 ): Promise<RuleResult> {
-  const { cwd, exclude } = options;
   const results: CheckResult[] = [];
 
-  const allExcludes = [...exclude, ...(rule.exclude ?? [])];
-  const files = globSync(rule.files, {
-    cwd,
-    ignore: allExcludes,
-  });
+  const files = collectFiles(rule.files, options, rule.exclude);
 
   const includeTypeImports = rule.includeTypeImports ?? false;
 
   for (const file of files) {
-    const fullPath = join(cwd, file);
-
     let content = "";
     try {
-      content = readFileSync(fullPath, "utf-8");
+      content = readProjectFile(file, options);
     } catch {
       continue;
     }
 
     // Check import restrictions
     if (rule.restrictions) {
-      const imports = extractImports(content, {
+      const imports = readProjectImports(file, options, {
         includeTypeImports,
         includeDynamicImports: true,
         includeRequire: true,
@@ -1,64 +1,25 @@
-import { readFileSync, existsSync } from "node:fs";
-import { join, dirname, relative, resolve } from "node:path";
-import { globSync } from "../../utils/glob";
 import type { CheckResult, ImportBoundaryRule } from "../types";
-import type { RuleResult, RuleRunnerOptions } from "./types";
-import { extractImports } from "./utils/import-extractor";
-
-const EXTENSIONS_TO_TRY = [".ts", ".tsx", ".js", ".jsx", "/index.ts", "/index.tsx", "/index.js", "/index.jsx"];
-
-/**
- * Resolve a relative import to a file path relative to cwd.
- * Tries common extensions if the exact path doesn't exist.
- */
-function resolveImportPath(
-  importSource: string,
-  importingFile: string,
-  cwd: string
-): string | null {
-  if (!importSource.startsWith("./") && !importSource.startsWith("../")) {
-    return null; // Skip bare specifiers (npm packages)
-  }
-
-  const importingDir = dirname(join(cwd, importingFile));
-  const resolved = resolve(importingDir, importSource);
-  const relativeResolved = relative(cwd, resolved);
-
-  // Try exact path first
-  if (existsSync(resolved)) {
-    return relativeResolved;
-  }
-
-  // Try with extensions
-  for (const ext of EXTENSIONS_TO_TRY) {
-    const withExt = resolved + ext;
-    if (existsSync(withExt)) {
-      return relative(cwd, withExt);
-    }
-  }
-
-  return null;
-}
+import type { ImportEntry, RuleResult, RuleRunnerOptions } from "./types";
+import { createModuleResolver } from "./utils/module-resolver";
+import { collectFiles, isInScope } from "./utils/collect-files";
+import { readProjectImports } from "./utils/project-index";
 
 export async function runImportBoundaryRule(
   rule: ImportBoundaryRule,
   options: RuleRunnerOptions
 ): Promise<RuleResult> {
-  const { cwd, exclude } = options;
+  const { cwd } = options;
   const results: CheckResult[] = [];
+  const resolver = options.moduleResolver ?? createModuleResolver(cwd);
 
-  const allExcludes = [...exclude, ...(rule.exclude ?? [])];
   const includeTypeImports = rule.includeTypeImports ?? true;
   const includeDynamicImports = rule.includeDynamicImports ?? true;
 
-  // Step 1: Build fileToLayer map
+  // Step 1: Build fileToLayer map (always project-wide, so imports of unchanged files resolve to a layer)
   const fileToLayer = new Map<string, string>();
 
   for (const [layerName, layerConfig] of Object.entries(rule.layers)) {
-    const layerFiles = globSync(layerConfig.files, {
-      cwd,
-      ignore: allExcludes,
-    });
+    const layerFiles = collectFiles(layerConfig.files, options, rule.exclude, { scoped: false });
 
     for (const file of layerFiles) {
       fileToLayer.set(file, layerName);
@@ -67,32 +28,26 @@ export async function runImportBoundaryRule(
 
   // Step 2: For each file in any layer, check its imports
   for (const [file, sourceLayer] of fileToLayer.entries()) {
-    const fullPath = join(cwd, file);
+    if (!isInScope(file, options)) continue;
 
-    let content = "";
+    let imports: ImportEntry[];
     try {
-      content = readFileSync(fullPath, "utf-8");
+      imports = readProjectImports(file, options, {
+        includeTypeImports,
+        includeDynamicImports,
+        includeRequire: true,
+      });
     } catch {
       continue;
     }
 
-    const imports = extractImports(content, {
-      includeTypeImports,
-      includeDynamicImports,
-      includeRequire: true,
-    });
-
     const allowedLayers = new Set(
       rule.layers[sourceLayer].allowImportsFrom
     );
 
     for (const imp of imports) {
-      // Only check relative imports
-      if (!imp.source.startsWith("./") && !imp.source.startsWith("../")) {
-        continue;
-      }
-
-      const resolvedPath = resolveImportPath(imp.source, file, cwd);
+      // Packages and unresolvable imports resolve to null
+      const resolvedPath = resolver.resolve(imp.source, file);
       if (!resolvedPath) continue;
 
       const targetLayer = fileToLayer.get(resolvedPath);
@@ -1,20 +1,54 @@
-import type { ChaperoneConfig, CheckResult, CustomRule } from "../types";
-import type { RuleRunnerOptions, RuleResult } from "./types";
-import { runFileNamingRule, isFileNamingRule } from "./file-naming";
-import { runFilePairingRule, isFilePairingRule } from "./file-pairing";
-import { runFileContractRule, isFileContractRule } from "./file-contract";
-import { runRegexRule, isRegexRule } from "./regex";
-import { runPackageFieldsRule, isPackageFieldsRule } from "./package-fields";
-import { runComponentLocationRule, isComponentLocationRule } from "./component-location";
-import { runCommandRule, isCommandRule } from "./command";
-import { runSymbolReferenceRule, isSymbolReferenceRule } from "./symbol-reference";
-import { runRetiredPathRule, isRetiredPathRule } from "./retired-path";
-import { runFileSuffixContentRule, isFileSuffixContentRule } from "./file-suffix-content";
-import { runFileStructureRule, isFileStructureRule } from "./file-structure";
-import { runForbiddenImportRule, isForbiddenImportRule } from "./forbidden-import";
-import { runImportBoundaryRule, isImportBoundaryRule } from "./import-boundary";
-import { runPublicApiRule, isPublicApiRule } from "./public-api";
-import { runRelationshipRule, isRelationshipRule } from "./relationship";
+import type {
+  BaseRule,
+  ChaperoneConfig,
+  CheckResult,
+  CommandRule,
+  DeadCodeRule,
+  ComponentLocationRule,
+  CustomRule,
+  FileContractRule,
+  FileNamingRule,
+  FilePairingRule,
+  FileStructureRule,
+  FileSuffixContentRule,
+  ForbiddenImportRule,
+  ImportBoundaryRule,
+  NoCyclesRule,
+  PackageBoundaryRule,
+  PackageFieldsRule,
+  PublicApiRule,
+  RegexRule,
+  RelationshipRule,
+  RetiredPathRule,
+  SymbolReferenceRule,
+} from "../types";
+import type { RuleFix, RuleRegistry, RuleRunner, RuleRunnerOptions, RuleResult } from "./types";
+import { runFileNamingRule } from "./file-naming";
+import { runFilePairingRule } from "./file-pairing";
+import { runFileContractRule } from "./file-contract";
+import { runRegexRule } from "./regex";
+import { runPackageFieldsRule } from "./package-fields";
+import { runComponentLocationRule } from "./component-location";
+import { runCommandRule } from "./command";
+import { runSymbolReferenceRule } from "./symbol-reference";
+import { runRetiredPathRule } from "./retired-path";
+import { runFileSuffixContentRule } from "./file-suffix-content";
+import { runFileStructureRule } from "./file-structure";
+import { runForbiddenImportRule } from "./forbidden-import";
+import { runImportBoundaryRule } from "./import-boundary";
+import { runPublicApiRule } from "./public-api";
+import { runRelationshipRule } from "./relationship";
+import { runPackageBoundaryRule } from "./package-boundary";
+import { runNoCyclesRule } from "./no-cycles";
+import { runDeadCodeRule } from "./dead-code";
+import { createModuleResolver } from "./utils/module-resolver";
+import { collectFiles } from "./utils/collect-files";
+import { applySuppressions } from "./utils/suppressions";
+import { createProjectIndex, describeIndexStats } from "./utils/project-index";
+import { createRuleWorkerPool, describeWorkerPoolStats } from "./utils/worker-pool";
+import { describeCacheStats } from "./utils/rule-cache";
+import { runConcurrently } from "../../utils/concurrency";
+import { getIgnoreMatcherOptions } from "../../utils/ignore";
 
 export * from "./types";
 export { runFileNamingRule, isFileNamingRule } from "./file-naming";
@@ -32,6 +66,9 @@ export { runForbiddenImportRule, isForbiddenImportRule } from "./forbidden-impor
 export { runImportBoundaryRule, isImportBoundaryRule } from "./import-boundary";
 export { runPublicApiRule, isPublicApiRule } from "./public-api";
 export { runRelationshipRule, isRelationshipRule } from "./relationship";
+export { runPackageBoundaryRule, isPackageBoundaryRule } from "./package-boundary";
+export { runNoCyclesRule, isNoCyclesRule } from "./no-cycles";
+export { runDeadCodeRule, isDeadCodeRule } from "./dead-code";
 export { detectAIInstructionFiles } from "./ai-instructions";
 
 /**
@@ -40,143 +77,76 @@ export { detectAIInstructionFiles } from "./ai-instructions";
 export interface AllRulesResult {
   results: CheckResult[];
   byRule: Record<string, RuleResult>;
+  fixes: RuleFix[];
 }
 
+// Rules that only read and scan file contents, so they can run on a worker thread
+const WORKER_RULE_TYPES = new Set(["regex", "file-contract", "file-suffix-content", "component-location"]);
+// Below this many files, starting workers costs more than it saves
+const WORKER_MIN_FILES = 2000;
+
 /**
- * Run all custom rules
+ * Type a rule runner by its config shape. Built-in rules and plugins use the same helper.
  */
-export async function runAllRules(
-  config: ChaperoneConfig,
-  options: RuleRunnerOptions
-): Promise<AllRulesResult> {
-  const { onDebug } = options;
-  const allResults: CheckResult[] = [];
-  const byRule: Record<string, RuleResult> = {};
-
-  // Run custom rules from config
-  const customRules = config.rules?.custom ?? [];
-
-  onDebug?.(`Found ${customRules.length} custom rule(s) in config`);
-
-  for (const rule of customRules) {
-    let result: RuleResult | null = null;
-    const isAIGenerated = !!rule.source;
-    const typeLabel = isAIGenerated ? `${rule.type}*` : rule.type;
-    const excludeInfo = rule.exclude?.length ? ` (excluding: ${rule.exclude.join(", ")})` : "";
-
-    if (isFileNamingRule(rule)) {
-      onDebug?.(`  [${typeLabel}] ${rule.id}: checking pattern "${rule.pattern}"${excludeInfo}`);
-      result = await runFileNamingRule(rule, options);
-    } else if (isFilePairingRule(rule)) {
-      onDebug?.(`  [${typeLabel}] ${rule.id}: checking pairing for "${rule.files}"${excludeInfo}`);
-      result = await runFilePairingRule(rule, options);
-    } else if (isFileContractRule(rule)) {
-      onDebug?.(`  [${typeLabel}] ${rule.id}: checking file contract in "${rule.files}"${excludeInfo}`);
-      result = await runFileContractRule(rule, options);
-    } else if (isRegexRule(rule)) {
-      const mode = rule.mustMatch ? "must match" : "must NOT match";
-      onDebug?.(`  [${typeLabel}] ${rule.id}: ${mode} /${rule.pattern}/ in "${rule.files}"${excludeInfo}`);
-      result = await runRegexRule(rule, options);
-    } else if (isPackageFieldsRule(rule)) {
-      onDebug?.(`  [${typeLabel}] ${rule.id}: checking package.json fields [${rule.requiredFields.join(", ")}]`);
-      result = await runPackageFieldsRule(rule, options);
-    } else if (isComponentLocationRule(rule)) {
-      const mode = rule.mustBeIn ? "must be in" : "must NOT be in";
-      onDebug?.(`  [${typeLabel}] ${rule.id}: ${rule.componentType} components ${mode} "${rule.requiredLocation}"${excludeInfo}`);
-      result = await runComponentLocationRule(rule, options);
-    } else if (isCommandRule(rule)) {
-      const commandDisplay = [rule.command, ...(rule.args ?? [])].join(" ").trim();
-      onDebug?.(`  [${typeLabel}] ${rule.id}: running command "${commandDisplay}"`);
-      result = await runCommandRule(rule, options);
-    } else if (isSymbolReferenceRule(rule)) {
-      onDebug?.(`  [${typeLabel}] ${rule.id}: checking exported symbols from "${rule.sourceFiles}" against "${rule.targetFiles}"${excludeInfo}`);
-      result = await runSymbolReferenceRule(rule, options);
-    } else if (isRetiredPathRule(rule)) {
-      onDebug?.(`  [${typeLabel}] ${rule.id}: checking retired paths (${rule.paths.length} pattern(s))${excludeInfo}`);
-      result = await runRetiredPathRule(rule, options);
-    } else if (isFileSuffixContentRule(rule)) {
-      onDebug?.(`  [${typeLabel}] ${rule.id}: checking content for files with suffix "${rule.suffix}" in "${rule.files}"${excludeInfo}`);
-      result = await runFileSuffixContentRule(rule, options);
-    } else if (isFileStructureRule(rule)) {
-      onDebug?.(`  [${typeLabel}] ${rule.id}: checking structure in "${rule.parentDirs}"${excludeInfo}`);
-      result = await runFileStructureRule(rule, options);
-    } else if (isForbiddenImportRule(rule)) {
-      onDebug?.(`  [${typeLabel}] ${rule.id}: checking forbidden imports in "${rule.files}"${excludeInfo}`);
-      result = await runForbiddenImportRule(rule, options);
-    } else if (isImportBoundaryRule(rule)) {
-      const layerNames = Object.keys(rule.layers).join(", ");
-      onDebug?.(`  [${typeLabel}] ${rule.id}: checking import boundaries across layers [${layerNames}]${excludeInfo}`);
-      result = await runImportBoundaryRule(rule, options);
-    } else if (isPublicApiRule(rule)) {
-      onDebug?.(`  [${typeLabel}] ${rule.id}: checking public API imports for modules "${rule.modules}"${excludeInfo}`);
-      result = await runPublicApiRule(rule, options);
-    } else if (isRelationshipRule(rule)) {
-      onDebug?.(`  [${typeLabel}] ${rule.id}: checking relationships for "${rule.when.files}"${excludeInfo}`);
-      result = await runRelationshipRule(rule, options);
-    }
-
-    if (result) {
-      byRule[rule.id] = result;
-      allResults.push(...result.results);
-      const issues = result.results.length;
-      if (issues > 0) {
-        onDebug?.(`    → ${issues} issue(s) found`);
-      } else {
-        onDebug?.(`    → passed`);
-      }
-    }
-  }
-
-  return {
-    results: allResults,
-    byRule,
-  };
+export function defineRule<R extends BaseRule>(runner: RuleRunner<R>): RuleRunner {
+  return runner;
 }
 
 /**
- * Validate custom rules
+ * Errors for regex sources that do not compile
  */
-export function validateCustomRules(rules: CustomRule[]): string[] {
+function checkRegexes(patterns: Array<string | undefined>, describe: (pattern: string) => string): string[] {
   const errors: string[] = [];
-
-  for (let i = 0; i < rules.length; i++) {
-    const rule = rules[i];
-    const ruleId = rule.id;
-    const ruleType = rule.type;
-
-    if (!ruleId) {
-      errors.push(`Rule at index ${i} is missing 'id'`);
-    }
-
-    if (!ruleType) {
-      errors.push(`Rule '${ruleId || i}' is missing 'type'`);
-      continue;
+  for (const pattern of patterns) {
+    if (!pattern) continue;
+    try {
+      new RegExp(pattern);
+    } catch {
+      errors.push(describe(pattern));
     }
+  }
+  return errors;
+}
 
-    if (isFileNamingRule(rule)) {
-      if (!rule.pattern) {
-        errors.push(`File naming rule '${ruleId}' is missing 'pattern'`);
-      }
-    } else if (isFilePairingRule(rule)) {
+/**
+ * Built-in rule types, registered like plugin rules
+ */
+export const BUILT_IN_RULES: RuleRunner[] = [
+  defineRule<FileNamingRule>({
+    type: "file-naming",
+    run: runFileNamingRule,
+    describe: (rule) => `checking pattern "${rule.pattern}"`,
+    validate: (rule) => (rule.pattern ? [] : [`File naming rule '${rule.id}' is missing 'pattern'`]),
+  }),
+  defineRule<FilePairingRule>({
+    type: "file-pairing",
+    run: runFilePairingRule,
+    describe: (rule) => `checking pairing for "${rule.files}"`,
+    validate: (rule) => {
+      const errors: string[] = [];
       if (!rule.files) {
-        errors.push(`File pairing rule '${ruleId}' is missing 'files'`);
+        errors.push(`File pairing rule '${rule.id}' is missing 'files'`);
       }
       if (!rule.pair?.from) {
-        errors.push(`File pairing rule '${ruleId}' is missing 'pair.from'`);
+        errors.push(`File pairing rule '${rule.id}' is missing 'pair.from'`);
       }
       if (!rule.pair?.to) {
-        errors.push(`File pairing rule '${ruleId}' is missing 'pair.to'`);
-      }
-      if (rule.pair?.from) {
-        try {
-          new RegExp(rule.pair.from);
-        } catch {
-          errors.push(`File pairing rule '${ruleId}' has invalid pair.from regex: ${rule.pair.from}`);
-        }
-      }
-    } else if (isFileContractRule(rule)) {
+        errors.push(`File pairing rule '${rule.id}' is missing 'pair.to'`);
+      }
+      errors.push(
+        ...checkRegexes([rule.pair?.from], (pattern) => `File pairing rule '${rule.id}' has invalid pair.from regex: ${pattern}`)
+      );
+      return errors;
+    },
+  }),
+  defineRule<FileContractRule>({
+    type: "file-contract",
+    run: runFileContractRule,
+    describe: (rule) => `checking file contract in "${rule.files}"`,
+    validate: (rule) => {
+      const errors: string[] = [];
       if (!rule.files) {
-        errors.push(`File contract rule '${ruleId}' is missing 'files'`);
+        errors.push(`File contract rule '${rule.id}' is missing 'files'`);
       }
 
       const hasContract =
@@ -189,7 +159,7 @@ export function validateCustomRules(rules: CustomRule[]): string[] {
         !!rule.assertions;
 
       if (!hasContract) {
-        errors.push(`File contract rule '${ruleId}' must define at least one contract pattern list or assertions`);
+        errors.push(`File contract rule '${rule.id}' must define at least one contract pattern list or assertions`);
       }
 
       const patternBuckets = [
@@ -200,200 +170,481 @@ export function validateCustomRules(rules: CustomRule[]): string[] {
         ...(rule.templatedRequiredAnyPatterns ?? []),
         ...(rule.templatedForbiddenPatterns ?? []),
       ];
-
-      for (const pattern of patternBuckets) {
-        try {
-          new RegExp(pattern);
-        } catch {
-          errors.push(`File contract rule '${ruleId}' has invalid regex pattern: ${pattern}`);
-        }
-      }
-
-      if (rule.captureFromPath?.pattern) {
-        try {
-          new RegExp(rule.captureFromPath.pattern);
-        } catch {
-          errors.push(`File contract rule '${ruleId}' has invalid captureFromPath.pattern: ${rule.captureFromPath.pattern}`);
-        }
-      }
-    } else if (isRegexRule(rule)) {
+      errors.push(...checkRegexes(patternBuckets, (pattern) => `File contract rule '${rule.id}' has invalid regex pattern: ${pattern}`));
+      errors.push(
+        ...checkRegexes(
+          [rule.captureFromPath?.pattern],
+          (pattern) => `File contract rule '${rule.id}' has invalid captureFromPath.pattern: ${pattern}`
+        )
+      );
+      return errors;
+    },
+  }),
+  defineRule<RegexRule>({
+    type: "regex",
+    run: runRegexRule,
+    describe: (rule) => `${rule.mustMatch ? "must match" : "must NOT match"} /${rule.pattern}/ in "${rule.files}"`,
+    validate: (rule) => {
+      const errors: string[] = [];
       if (!rule.pattern) {
-        errors.push(`Regex rule '${ruleId}' is missing 'pattern'`);
+        errors.push(`Regex rule '${rule.id}' is missing 'pattern'`);
       }
       if (!rule.files) {
-        errors.push(`Regex rule '${ruleId}' is missing 'files'`);
+        errors.push(`Regex rule '${rule.id}' is missing 'files'`);
       }
       if (!rule.message) {
-        errors.push(`Regex rule '${ruleId}' is missing 'message'`);
-      }
-      // Validate regex syntax
-      if (rule.pattern) {
-        try {
-          new RegExp(rule.pattern);
-        } catch {
-          errors.push(`Regex rule '${ruleId}' has invalid pattern: ${rule.pattern}`);
-        }
-      }
-    } else if (isPackageFieldsRule(rule)) {
-      if (!rule.requiredFields || rule.requiredFields.length === 0) {
-        errors.push(`Package fields rule '${ruleId}' is missing 'requiredFields'`);
-      }
-    } else if (isComponentLocationRule(rule)) {
+        errors.push(`Regex rule '${rule.id}' is missing 'message'`);
+      }
+      errors.push(...checkRegexes([rule.pattern], (pattern) => `Regex rule '${rule.id}' has invalid pattern: ${pattern}`));
+      return errors;
+    },
+  }),
+  defineRule<PackageFieldsRule>({
+    type: "package-fields",
+    run: runPackageFieldsRule,
+    describe: (rule) => `checking package.json fields [${(rule.requiredFields ?? []).join(", ")}]`,
+    validate: (rule) =>
+      !rule.requiredFields || rule.requiredFields.length === 0
+        ? [`Package fields rule '${rule.id}' is missing 'requiredFields'`]
+        : [],
+  }),
+  defineRule<ComponentLocationRule>({
+    type: "component-location",
+    run: runComponentLocationRule,
+    describe: (rule) =>
+      `${rule.componentType} components ${rule.mustBeIn ? "must be in" : "must NOT be in"} "${rule.requiredLocation}"`,
+    validate: (rule) => {
+      const errors: string[] = [];
       if (!rule.files) {
-        errors.push(`Component location rule '${ruleId}' is missing 'files'`);
+        errors.push(`Component location rule '${rule.id}' is missing 'files'`);
       }
       if (!rule.componentType) {
-        errors.push(`Component location rule '${ruleId}' is missing 'componentType'`);
+        errors.push(`Component location rule '${rule.id}' is missing 'componentType'`);
       }
       if (!rule.requiredLocation) {
-        errors.push(`Component location rule '${ruleId}' is missing 'requiredLocation'`);
-      }
-    } else if (isCommandRule(rule)) {
+        errors.push(`Component location rule '${rule.id}' is missing 'requiredLocation'`);
+      }
+      return errors;
+    },
+  }),
+  defineRule<CommandRule>({
+    type: "command",
+    run: runCommandRule,
+    describe: (rule) => `running command "${[rule.command, ...(rule.args ?? [])].join(" ").trim()}"`,
+    validate: (rule) => {
+      const errors: string[] = [];
       if (!rule.command) {
-        errors.push(`Command rule '${ruleId}' is missing 'command'`);
-      }
-
-      if (rule.stdoutPattern) {
-        try {
-          new RegExp(rule.stdoutPattern);
-        } catch {
-          errors.push(`Command rule '${ruleId}' has invalid stdoutPattern: ${rule.stdoutPattern}`);
-        }
-      }
-
-      if (rule.stderrPattern) {
-        try {
-          new RegExp(rule.stderrPattern);
-        } catch {
-          errors.push(`Command rule '${ruleId}' has invalid stderrPattern: ${rule.stderrPattern}`);
-        }
-      }
-    } else if (isSymbolReferenceRule(rule)) {
+        errors.push(`Command rule '${rule.id}' is missing 'command'`);
+      }
+      errors.push(...checkRegexes([rule.stdoutPattern], (pattern) => `Command rule '${rule.id}' has invalid stdoutPattern: ${pattern}`));
+      errors.push(...checkRegexes([rule.stderrPattern], (pattern) => `Command rule '${rule.id}' has invalid stderrPattern: ${pattern}`));
+      return errors;
+    },
+  }),
+  defineRule<SymbolReferenceRule>({
+    type: "symbol-reference",
+    run: runSymbolReferenceRule,
+    describe: (rule) => `checking exported symbols from "${rule.sourceFiles}" against "${rule.targetFiles}"`,
+    validate: (rule) => {
+      const errors: string[] = [];
       if (!rule.sourceFiles) {
-        errors.push(`Symbol reference rule '${ruleId}' is missing 'sourceFiles'`);
+        errors.push(`Symbol reference rule '${rule.id}' is missing 'sourceFiles'`);
       }
       if (!rule.targetFiles) {
-        errors.push(`Symbol reference rule '${ruleId}' is missing 'targetFiles'`);
-      }
-      if (rule.symbolPattern) {
-        try {
-          new RegExp(rule.symbolPattern);
-        } catch {
-          errors.push(`Symbol reference rule '${ruleId}' has invalid symbolPattern: ${rule.symbolPattern}`);
-        }
-      }
-    } else if (isRetiredPathRule(rule)) {
+        errors.push(`Symbol reference rule '${rule.id}' is missing 'targetFiles'`);
+      }
+      errors.push(
+        ...checkRegexes([rule.symbolPattern], (pattern) => `Symbol reference rule '${rule.id}' has invalid symbolPattern: ${pattern}`)
+      );
+      return errors;
+    },
+  }),
+  defineRule<RetiredPathRule>({
+    type: "retired-path",
+    run: runRetiredPathRule,
+    describe: (rule) => `checking retired paths (${(rule.paths ?? []).length} pattern(s))`,
+    validate: (rule) => {
+      const errors: string[] = [];
       if (!rule.paths || rule.paths.length === 0) {
-        errors.push(`Retired path rule '${ruleId}' is missing 'paths'`);
+        errors.push(`Retired path rule '${rule.id}' is missing 'paths'`);
       }
-      if (rule.paths) {
-        for (const entry of rule.paths) {
-          if (!entry.pattern) {
-            errors.push(`Retired path rule '${ruleId}' has a path entry missing 'pattern'`);
-          }
+      for (const entry of rule.paths ?? []) {
+        if (!entry.pattern) {
+          errors.push(`Retired path rule '${rule.id}' has a path entry missing 'pattern'`);
         }
       }
-    } else if (isFileSuffixContentRule(rule)) {
+      return errors;
+    },
+  }),
+  defineRule<FileSuffixContentRule>({
+    type: "file-suffix-content",
+    run: runFileSuffixContentRule,
+    describe: (rule) => `checking content for files with suffix "${rule.suffix}" in "${rule.files}"`,
+    validate: (rule) => {
+      const errors: string[] = [];
       if (!rule.suffix) {
-        errors.push(`File suffix content rule '${ruleId}' is missing 'suffix'`);
+        errors.push(`File suffix content rule '${rule.id}' is missing 'suffix'`);
       }
       if (!rule.files) {
-        errors.push(`File suffix content rule '${ruleId}' is missing 'files'`);
+        errors.push(`File suffix content rule '${rule.id}' is missing 'files'`);
       }
       if (!rule.forbiddenPatterns?.length && !rule.requiredPatterns?.length) {
-        errors.push(`File suffix content rule '${ruleId}' must define at least one pattern list`);
+        errors.push(`File suffix content rule '${rule.id}' must define at least one pattern list`);
       }
       for (const entry of [...(rule.forbiddenPatterns ?? []), ...(rule.requiredPatterns ?? [])]) {
-        try {
-          new RegExp(entry.pattern);
-        } catch {
-          errors.push(`File suffix content rule '${ruleId}' has invalid regex for "${entry.name}": ${entry.pattern}`);
-        }
-      }
-    } else if (isFileStructureRule(rule)) {
+        errors.push(
+          ...checkRegexes(
+            [entry.pattern],
+            (pattern) => `File suffix content rule '${rule.id}' has invalid regex for "${entry.name}": ${pattern}`
+          )
+        );
+      }
+      return errors;
+    },
+  }),
+  defineRule<FileStructureRule>({
+    type: "file-structure",
+    run: runFileStructureRule,
+    describe: (rule) => `checking structure in "${rule.parentDirs}"`,
+    validate: (rule) => {
+      const errors: string[] = [];
       if (!rule.parentDirs) {
-        errors.push(`File structure rule '${ruleId}' is missing 'parentDirs'`);
+        errors.push(`File structure rule '${rule.id}' is missing 'parentDirs'`);
       }
       if (!rule.required || rule.required.length === 0) {
-        errors.push(`File structure rule '${ruleId}' is missing 'required'`);
-      }
-    } else if (isForbiddenImportRule(rule)) {
+        errors.push(`File structure rule '${rule.id}' is missing 'required'`);
+      }
+      return errors;
+    },
+  }),
+  defineRule<ForbiddenImportRule>({
+    type: "forbidden-import",
+    run: runForbiddenImportRule,
+    describe: (rule) => `checking forbidden imports in "${rule.files}"`,
+    validate: (rule) => {
+      const errors: string[] = [];
       if (!rule.files) {
-        errors.push(`Forbidden import rule '${ruleId}' is missing 'files'`);
+        errors.push(`Forbidden import rule '${rule.id}' is missing 'files'`);
       }
       if (!rule.restrictions?.length && !rule.checkPatterns?.length) {
-        errors.push(`Forbidden import rule '${ruleId}' must define at least one restriction or checkPattern`);
+        errors.push(`Forbidden import rule '${rule.id}' must define at least one restriction or checkPattern`);
       }
-      if (rule.restrictions) {
-        for (const r of rule.restrictions) {
-          if (!r.source) {
-            errors.push(`Forbidden import rule '${ruleId}' has a restriction missing 'source'`);
-          }
-          if (r.source) {
-            try {
-              new RegExp(r.source);
-            } catch {
-              errors.push(`Forbidden import rule '${ruleId}' has invalid restriction source regex: ${r.source}`);
-            }
-          }
-          if (!r.allowedIn?.length) {
-            errors.push(`Forbidden import rule '${ruleId}' has a restriction missing 'allowedIn'`);
-          }
+      for (const restriction of rule.restrictions ?? []) {
+        if (!restriction.source) {
+          errors.push(`Forbidden import rule '${rule.id}' has a restriction missing 'source'`);
         }
-      }
-      if (rule.checkPatterns) {
-        for (const cp of rule.checkPatterns) {
-          if (!cp.pattern) {
-            errors.push(`Forbidden import rule '${ruleId}' has a checkPattern missing 'pattern'`);
-          }
-          if (cp.pattern) {
-            try {
-              new RegExp(cp.pattern);
-            } catch {
-              errors.push(`Forbidden import rule '${ruleId}' has invalid checkPattern regex: ${cp.pattern}`);
-            }
-          }
+        errors.push(
+          ...checkRegexes(
+            [restriction.source],
+            (pattern) => `Forbidden import rule '${rule.id}' has invalid restriction source regex: ${pattern}`
+          )
+        );
+        if (!restriction.allowedIn?.length) {
+          errors.push(`Forbidden import rule '${rule.id}' has a restriction missing 'allowedIn'`);
         }
       }
-    } else if (isImportBoundaryRule(rule)) {
+      for (const checkPattern of rule.checkPatterns ?? []) {
+        if (!checkPattern.pattern) {
+          errors.push(`Forbidden import rule '${rule.id}' has a checkPattern missing 'pattern'`);
+        }
+        errors.push(
+          ...checkRegexes(
+            [checkPattern.pattern],
+            (pattern) => `Forbidden import rule '${rule.id}' has invalid checkPattern regex: ${pattern}`
+          )
+        );
+      }
+      return errors;
+    },
+  }),
+  defineRule<ImportBoundaryRule>({
+    type: "import-boundary",
+    run: runImportBoundaryRule,
+    describe: (rule) => `checking import boundaries across layers [${Object.keys(rule.layers ?? {}).join(", ")}]`,
+    validate: (rule) => {
+      const errors: string[] = [];
       if (!rule.layers || Object.keys(rule.layers).length === 0) {
-        errors.push(`Import boundary rule '${ruleId}' is missing 'layers'`);
+        errors.push(`Import boundary rule '${rule.id}' is missing 'layers'`);
       }
-      if (rule.layers) {
-        const layerNames = Object.keys(rule.layers);
-        for (const [name, config] of Object.entries(rule.layers)) {
-          if (!config.files) {
-            errors.push(`Import boundary rule '${ruleId}' layer "${name}" is missing 'files'`);
-          }
-          if (!Array.isArray(config.allowImportsFrom)) {
-            errors.push(`Import boundary rule '${ruleId}' layer "${name}" is missing 'allowImportsFrom'`);
-          }
-          if (config.allowImportsFrom) {
-            for (const ref of config.allowImportsFrom) {
-              if (!layerNames.includes(ref)) {
-                errors.push(`Import boundary rule '${ruleId}' layer "${name}" references unknown layer: ${ref}`);
-              }
-            }
+      const layerNames = Object.keys(rule.layers ?? {});
+      for (const [name, config] of Object.entries(rule.layers ?? {})) {
+        if (!config.files) {
+          errors.push(`Import boundary rule '${rule.id}' layer "${name}" is missing 'files'`);
+        }
+        if (!Array.isArray(config.allowImportsFrom)) {
+          errors.push(`Import boundary rule '${rule.id}' layer "${name}" is missing 'allowImportsFrom'`);
+        }
+        for (const ref of config.allowImportsFrom ?? []) {
+          if (!layerNames.includes(ref)) {
+            errors.push(`Import boundary rule '${rule.id}' layer "${name}" references unknown layer: ${ref}`);
           }
         }
       }
-    } else if (isPublicApiRule(rule)) {
+      return errors;
+    },
+  }),
+  defineRule<PublicApiRule>({
+    type: "public-api",
+    run: runPublicApiRule,
+    describe: (rule) => `checking public API imports for modules "${rule.modules}"`,
+    validate: (rule) => {
+      const errors: string[] = [];
       if (!rule.modules) {
-        errors.push(`Public API rule '${ruleId}' is missing 'modules'`);
+        errors.push(`Public API rule '${rule.id}' is missing 'modules'`);
       }
       if (!rule.files) {
-        errors.push(`Public API rule '${ruleId}' is missing 'files'`);
-      }
-    } else if (isRelationshipRule(rule)) {
+        errors.push(`Public API rule '${rule.id}' is missing 'files'`);
+      }
+      return errors;
+    },
+  }),
+  defineRule<RelationshipRule>({
+    type: "relationship",
+    run: runRelationshipRule,
+    describe: (rule) => `checking relationships for "${rule.when?.files}"`,
+    validate: (rule) => {
+      const errors: string[] = [];
       if (!rule.when?.files) {
-        errors.push(`Relationship rule '${ruleId}' is missing 'when.files'`);
+        errors.push(`Relationship rule '${rule.id}' is missing 'when.files'`);
       }
       if (!rule.then || rule.then.length === 0) {
-        errors.push(`Relationship rule '${ruleId}' is missing 'then' actions`);
+        errors.push(`Relationship rule '${rule.id}' is missing 'then' actions`);
+      }
+      return errors;
+    },
+  }),
+  defineRule<PackageBoundaryRule>({
+    type: "package-boundary",
+    run: runPackageBoundaryRule,
+    describe: (rule) =>
+      rule.groups
+        ? `checking workspace dependencies across groups [${Object.keys(rule.groups).join(", ")}]`
+        : "checking workspace dependencies",
+    validate: (rule) => {
+      const errors: string[] = [];
+      const groupNames = Object.keys(rule.groups ?? {});
+      for (const [name, config] of Object.entries(rule.groups ?? {})) {
+        if (!config.packages || config.packages.length === 0) {
+          errors.push(`Package boundary rule '${rule.id}' group "${name}" is missing 'packages'`);
+        }
+        if (!Array.isArray(config.allowDependenciesOn)) {
+          errors.push(`Package boundary rule '${rule.id}' group "${name}" is missing 'allowDependenciesOn'`);
+        }
+        for (const ref of config.allowDependenciesOn ?? []) {
+          if (!groupNames.includes(ref)) {
+            errors.push(`Package boundary rule '${rule.id}' group "${name}" references unknown group: ${ref}`);
+          }
+        }
       }
+      return errors;
+    },
+  }),
+  defineRule<NoCyclesRule>({
+    type: "no-cycles",
+    run: runNoCyclesRule,
+    describe: (rule) => `checking import cycles in "${rule.files}"`,
+    validate: (rule) => {
+      const errors: string[] = [];
+      if (!rule.files) {
+        errors.push(`No cycles rule '${rule.id}' is missing 'files'`);
+      }
+      if (rule.maxCycleLength !== undefined && !(Number.isInteger(rule.maxCycleLength) && rule.maxCycleLength >= 2)) {
+        errors.push(`No cycles rule '${rule.id}' has invalid 'maxCycleLength' (must be an integer of at least 2)`);
+      }
+      return errors;
+    },
+  }),
+  defineRule<DeadCodeRule>({
+    type: "dead-code",
+    run: runDeadCodeRule,
+    describe: (rule) => `checking dead code in "${rule.files}"`,
+    validate: (rule) => {
+      const errors: string[] = [];
+      if (!rule.files) {
+        errors.push(`Dead code rule '${rule.id}' is missing 'files'`);
+      }
+      if (!Array.isArray(rule.entryPoints) || rule.entryPoints.length === 0) {
+        errors.push(`Dead code rule '${rule.id}' is missing 'entryPoints'`);
+      }
+      if (rule.unusedFiles === false && rule.unusedExports === false) {
+        errors.push(`Dead code rule '${rule.id}' disables both 'unusedFiles' and 'unusedExports'`);
+      }
+      return errors;
+    },
+  }),
+];
+
+/**
+ * Build the rule registry: built-in rules plus plugin rules.
+ * A rule type can only be registered once, so plugins cannot replace built-ins.
+ */
+export function createRuleRegistry(plugins: RuleRunner[] = []): RuleRegistry {
+  const registry = new Map<string, RuleRunner>();
+  for (const runner of [...BUILT_IN_RULES, ...plugins]) {
+    if (registry.has(runner.type)) {
+      throw new Error(`Rule type "${runner.type}" is already registered`);
+    }
+    registry.set(runner.type, runner);
+  }
+  return registry;
+}
+
+const BUILT_IN_REGISTRY = createRuleRegistry();
+
+/**
+ * The line printed for a rule in --debug output
+ */
+function describeRule(rule: CustomRule, runner: RuleRunner): string {
+  const typeLabel = rule.source ? `${rule.type}*` : rule.type;
+  const excludeInfo = rule.exclude?.length ? ` (excluding: ${rule.exclude.join(", ")})` : "";
+  const description = runner.describe?.(rule) ?? `running ${rule.type} rule`;
+  return `  [${typeLabel}] ${rule.id}: ${description}${excludeInfo}`;
+}
+
+/**
+ * Run a single custom rule. Returns null for unknown rule types.
+ */
+export async function runRule(rule: CustomRule, options: RuleRunnerOptions): Promise<RuleResult | null> {
+  const runner = (options.registry ?? BUILT_IN_REGISTRY).get(rule.type);
+  return runner ? runner.run(rule, options) : null;
+}
+
+/**
+ * Run all custom rules
+ */
+export async function runAllRules(
+  config: ChaperoneConfig,
+  options: RuleRunnerOptions
+): Promise<AllRulesResult> {
+  const { onDebug } = options;
+  const allResults: CheckResult[] = [];
+  const byRule: Record<string, RuleResult> = {};
+  const allFixes: RuleFix[] = [];
+
+  // Share one resolver across import-aware rules so tsconfig is read once
+  const useTypescriptPaths = config.integrations?.useTypescriptPaths ?? false;
+  // Share one file index so the tree is walked, and each file read and parsed, once per run
+  const index = options.index ?? createProjectIndex(options.cwd, { exclude: options.exclude, isIgnored: options.isIgnored });
+  const ruleOptions: RuleRunnerOptions = {
+    ...options,
+    moduleResolver: options.moduleResolver ?? createModuleResolver(options.cwd, { useTypescriptPaths }),
+    index,
+  };
+  if (useTypescriptPaths) {
+    onDebug?.("Resolving imports with tsconfig paths");
+  }
+
+  // Run custom rules from config
+  const customRules = config.rules?.custom ?? [];
+
+  onDebug?.(`Found ${customRules.length} custom rule(s) in config`);
+
+  // Rules run in parallel up to `concurrency`; content rules go to worker threads on large projects
+  const concurrency = options.concurrency ?? 1;
+  const workerMinFiles = options.workerMinFiles ?? WORKER_MIN_FILES;
+  const pool =
+    concurrency > 1 && index.files.length >= workerMinFiles && customRules.some((rule) => WORKER_RULE_TYPES.has(rule.type))
+      ? createRuleWorkerPool(concurrency, runRule, {
+          ignore: getIgnoreMatcherOptions(config.integrations) ?? undefined,
+          resolver: { useTypescriptPaths },
+        })
+      : null;
+  if (pool) {
+    onDebug?.(`Running content rules in up to ${concurrency} worker thread(s)`);
+  }
+
+  const registry = options.registry ?? BUILT_IN_REGISTRY;
+  let outcomes: Array<{ runner: RuleRunner | undefined; result: RuleResult | null }>;
+  try {
+    outcomes = await runConcurrently(customRules, concurrency, async (rule) => {
+      const runner = registry.get(rule.type);
+      if (!runner) return { runner, result: null };
+      const execute = (runOptions: RuleRunnerOptions) =>
+        pool && WORKER_RULE_TYPES.has(rule.type) ? pool.run(rule, runOptions) : runner.run(rule, runOptions);
+      const result = options.cache ? await options.cache.run(rule, ruleOptions, execute) : await execute(ruleOptions);
+      return { runner, result };
+    });
+  } finally {
+    pool?.close();
+  }
+  if (pool) {
+    onDebug?.(describeWorkerPoolStats(pool.stats));
+  }
+
+  // Collect in config order so output does not depend on which rule finished first
+  customRules.forEach((rule, i) => {
+    const { runner, result } = outcomes[i]!;
+    if (!runner || !result) return;
+
+    onDebug?.(describeRule(rule, runner));
+    byRule[rule.id] = result;
+    allResults.push(...result.results);
+    allFixes.push(...(result.fixes ?? []));
+    const issues = result.results.length;
+    if (issues > 0) {
+      onDebug?.(`    → ${issues} issue(s) found`);
     } else {
+      onDebug?.(`    → passed`);
+    }
+  });
+
+  // Honor chaperone-disable comments; only files with results need reading unless stale ones are reported
+  const suppressionFiles = options.reportUnusedDisables
+    ? ruleOptions.include.flatMap((pattern) => collectFiles(pattern, ruleOptions))
+    : [];
+  const { results, fixes, suppressed } = applySuppressions(allResults, allFixes, {
+    cwd: options.cwd,
+    readFile: index.read,
+    ruleIds: customRules.filter((rule) => !rule.disabled).map((rule) => `${rule.type}/${rule.id}`),
+    files: suppressionFiles,
+    reportUnused: options.reportUnusedDisables,
+  });
+  if (suppressed > 0) {
+    onDebug?.(`Suppressed ${suppressed} issue(s) with chaperone-disable comments`);
+  }
+  onDebug?.(describeIndexStats(index, customRules.length));
+  if (options.cache) {
+    onDebug?.(describeCacheStats(options.cache.stats));
+  }
+
+  const kept = new Set(results);
+  for (const result of Object.values(byRule)) {
+    result.results = result.results.filter((entry) => kept.has(entry));
+  }
+
+  return {
+    results,
+    byRule,
+    fixes,
+  };
+}
+
+/**
+ * Validate custom rules against the registry: common fields, then each rule type's own checks
+ */
+export function validateCustomRules(rules: CustomRule[], registry: RuleRegistry = BUILT_IN_REGISTRY): string[] {
+  const errors: string[] = [];
+
+  for (let i = 0; i < rules.length; i++) {
+    const rule = rules[i]!;
+    const ruleId = rule.id;
+    const ruleType = rule.type;
+
+    if (!ruleId) {
+      errors.push(`Rule at index ${i} is missing 'id'`);
+    }
+
+    if (!ruleType) {
+      errors.push(`Rule '${ruleId || i}' is missing 'type'`);
+      continue;
+    }
+
+    const runner = registry.get(ruleType);
+    if (!runner) {
       errors.push(`Rule '${ruleId}' has unknown type: ${ruleType}`);
+      continue;
     }
+    errors.push(...(runner.validate?.(rule) ?? []));
   }
 
   return errors;
@@ -0,0 +1,65 @@
+import type { CheckResult, NoCyclesRule } from "../types";
+import type { RuleResult, RuleRunnerOptions } from "./types";
+import { collectFiles, isInScope } from "./utils/collect-files";
+import { findCyclicComponents, findShortestCycle } from "./utils/cycles";
+import { buildImportEdges } from "./utils/module-graph";
+
+/**
+ * Run no-cycles rule to find circular imports. Each group of files that import each other
+ * in a circle (strongly connected component) is reported once, on the first import of its
+ * shortest cycle. The graph always covers the whole project; scoped runs report the groups
+ * containing a scoped file.
+ */
+export async function runNoCyclesRule(
+  rule: NoCyclesRule,
+  options: RuleRunnerOptions
+): Promise<RuleResult> {
+  const results: CheckResult[] = [];
+
+  const files = collectFiles(rule.files, options, rule.exclude, { scoped: false });
+  const edges = buildImportEdges(files, options, {
+    includeTypeImports: rule.includeTypeImports ?? true,
+    includeDynamicImports: rule.includeDynamicImports ?? true,
+    includeRequire: true,
+  });
+  const graph = new Map([...edges].map(([file, targets]) => [file, new Set(targets.keys())]));
+
+  for (const component of findCyclicComponents(graph)) {
+    if (!component.some((file) => isInScope(file, options))) continue;
+
+    const cycle = findShortestCycle(graph, component);
+    if (!cycle) continue;
+    const length = cycle.length - 1;
+    if (rule.maxCycleLength !== undefined && length > rule.maxCycleLength) continue;
+
+    const [file, next] = cycle as [string, string];
+    const imp = edges.get(file)!.get(next)!;
+    results.push({
+      file,
+      rule: `no-cycles/${rule.id}`,
+      message: rule.message || `Import cycle: ${cycle.join(" → ")}`,
+      severity: rule.severity,
+      source: "custom",
+      line: imp.line,
+      suggestion:
+        component.length > length
+          ? `${component.length} files import each other in a circle: ${component.join(", ")}`
+          : "Move the shared code into a module both sides can import, or invert one of the imports",
+      context: {
+        matchedText: imp.source,
+        actualValue: cycle.join(" → "),
+        detectedPatterns: component,
+      },
+    });
+  }
+
+  return { ruleId: rule.id, results };
+}
+
+export function isNoCyclesRule(rule: unknown): rule is NoCyclesRule {
+  return (
+    typeof rule === "object" &&
+    rule !== null &&
+    (rule as NoCyclesRule).type === "no-cycles"
+  );
+}
@@ -0,0 +1,85 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { dirname, join } from "node:path";
+import type { PackageBoundaryRule } from "../types";
+import { runPackageBoundaryRule } from "./package-boundary";
+
+let cwd: string;
+
+const write = (file: string, content: string) => {
+  mkdirSync(dirname(join(cwd, file)), { recursive: true });
+  writeFileSync(join(cwd, file), content);
+};
+
+const manifest = (name: string, dependencies: string[] = []) =>
+  JSON.stringify({ name, dependencies: Object.fromEntries(dependencies.map((dep) => [dep, "workspace:*"])) });
+
+const run = async (extra: Partial<PackageBoundaryRule> = {}) => {
+  const rule: PackageBoundaryRule = { id: "deps", type: "package-boundary", severity: "error", ...extra };
+  const { results } = await runPackageBoundaryRule(rule, { cwd, include: ["**/*"], exclude: ["node_modules"] });
+  return results.map((result) => [result.file, result.line, result.message]);
+};
+
+beforeEach(() => {
+  cwd = mkdtempSync(join(tmpdir(), "chaperone-packages-"));
+  write("package.json", JSON.stringify({ name: "root", workspaces: ["apps/*", "libs/*"] }));
+});
+
+afterEach(() => {
+  rmSync(cwd, { recursive: true, force: true });
+});
+
+describe("runPackageBoundaryRule", () => {
+  test("reports imports of workspace packages missing from package.json", async () => {
+    write("apps/web/package.json", manifest("@acme/web", ["@acme/ui"]));
+    write("apps/web/src/index.ts", 'import { Button } from "@acme/ui/button";\nimport { db } from "@acme/db";\n');
+    write("libs/ui/package.json", manifest("@acme/ui"));
+    write("libs/db/package.json", manifest("@acme/db"));
+
+    expect(await run()).toEqual([
+      ["apps/web/src/index.ts", 2, '"@acme/web" imports "@acme/db" without declaring it in package.json'],
+    ]);
+    expect(await run({ requireDeclared: false })).toEqual([]);
+  });
+
+  test("reports forbidden group dependencies on imports and in package.json", async () => {
+    write("apps/web/package.json", manifest("@acme/web"));
+    write("libs/ui/package.json", manifest("@acme/ui", ["@acme/web"]));
+    write("libs/ui/src/index.ts", 'export { routes } from "@acme/web";\n');
+    const groups = {
+      apps: { packages: "apps/*", allowDependenciesOn: ["libs"] },
+      libs: { packages: "libs/*", allowDependenciesOn: [] },
+    };
+
+    const message = 'Package group "libs" cannot depend on group "apps" ("@acme/web"). Allowed: none';
+    expect(await run({ groups })).toEqual([
+      ["libs/ui/src/index.ts", 1, message],
+      ["libs/ui/package.json", undefined, message],
+    ]);
+  });
+
+  test("reports circular package dependencies unless allowCycles is set", async () => {
+    write("libs/a/package.json", manifest("@acme/a", ["@acme/b"]));
+    write("libs/b/package.json", manifest("@acme/b"));
+    write("libs/b/src/index.ts", 'import { a } from "@acme/a";\n');
+
+    expect(await run({ requireDeclared: false })).toEqual([
+      ["libs/a/package.json", undefined, "Circular package dependency: @acme/a → @acme/b → @acme/a"],
+      ["libs/b/package.json", undefined, "Circular package dependency: @acme/b → @acme/a → @acme/b"],
+    ]);
+    expect(await run({ requireDeclared: false, allowCycles: true })).toEqual([]);
+  });
+
+  test("reports imports of a nested package once, against the nested package", async () => {
+    write("package.json", JSON.stringify({ name: "root", workspaces: ["apps/*", "apps/web/plugins/*", "libs/*"] }));
+    write("apps/web/package.json", manifest("@acme/web", ["@acme/ui"]));
+    write("apps/web/plugins/auth/package.json", manifest("@acme/auth"));
+    write("apps/web/plugins/auth/index.ts", 'import { Button } from "@acme/ui";\n');
+    write("libs/ui/package.json", manifest("@acme/ui"));
+
+    expect(await run()).toEqual([
+      ["apps/web/plugins/auth/index.ts", 1, '"@acme/auth" imports "@acme/ui" without declaring it in package.json'],
+    ]);
+  });
+});
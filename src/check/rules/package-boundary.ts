@@ -0,0 +1,202 @@
+import { join, relative } from "node:path";
+import type { CheckResult, PackageBoundaryRule } from "../types";
+import type { ImportEntry, RuleResult, RuleRunnerOptions } from "./types";
+import { collectFiles, isInScope } from "./utils/collect-files";
+import { findCyclePath, findCyclicComponents } from "./utils/cycles";
+import { MODULE_FILE_PATTERN } from "./utils/module-graph";
+import { readProjectImports } from "./utils/project-index";
+import { readJsonFile } from "../../utils/fs";
+import { matchGlob } from "../../utils/glob";
+import { discoverWorkspaces, findWorkspaceRoot } from "../../utils/workspaces";
+
+const DEPENDENCY_FIELDS = ["dependencies", "devDependencies", "peerDependencies", "optionalDependencies"] as const;
+
+type PackageManifest = Partial<Record<(typeof DEPENDENCY_FIELDS)[number], Record<string, string>>>;
+
+interface WorkspaceNode {
+  name: string;
+  dir: string; // Relative to cwd ("" when cwd is the package itself)
+  declared: Set<string>; // Every dependency name in package.json
+  group?: string;
+}
+
+/**
+ * Package name of a bare import specifier ("@scope/name/sub" → "@scope/name"), or null for paths and builtins
+ */
+function getPackageName(specifier: string): string | null {
+  if (specifier.startsWith(".") || specifier.startsWith("/") || specifier.includes(":")) return null;
+  const parts = specifier.split("/");
+  return specifier.startsWith("@") ? parts.slice(0, 2).join("/") : parts[0]!;
+}
+
+function getManifestPath(node: WorkspaceNode): string {
+  return node.dir ? `${node.dir}/package.json` : "package.json";
+}
+
+/**
+ * Run package-boundary rule to check dependencies between workspace packages.
+ * Checks the workspace packages inside cwd: all of them at the workspace root,
+ * or only the current package when run inside one (workspace mode).
+ */
+export async function runPackageBoundaryRule(
+  rule: PackageBoundaryRule,
+  options: RuleRunnerOptions
+): Promise<RuleResult> {
+  const { cwd } = options;
+  const results: CheckResult[] = [];
+  const ruleName = `package-boundary/${rule.id}`;
+
+  const root = rule.packages ? (findWorkspaceRoot(cwd) ?? cwd) : findWorkspaceRoot(cwd);
+  const packages = root ? discoverWorkspaces(root, rule.packages) : [];
+  if (packages.length === 0) {
+    results.push({
+      file: "package.json",
+      rule: ruleName,
+      message: "No workspace packages found",
+      severity: rule.severity,
+      source: "custom",
+      suggestion: 'Declare "workspaces" in package.json or add a pnpm-workspace.yaml, or set "packages" on the rule',
+    });
+    return { ruleId: rule.id, results };
+  }
+
+  // Every workspace package, keyed by name; only those inside cwd are checked
+  const nodes = new Map<string, WorkspaceNode>();
+  for (const pkg of packages) {
+    const manifest = readJsonFile<PackageManifest>(join(root!, pkg.dir, "package.json")) ?? {};
+    const group = Object.entries(rule.groups ?? {}).find(([, config]) =>
+      [config.packages].flat().some((glob) => matchGlob(pkg.dir, glob) || matchGlob(pkg.name, glob))
+    )?.[0];
+    nodes.set(pkg.name, {
+      name: pkg.name,
+      dir: relative(cwd, join(root!, pkg.dir)).split("\\").join("/"),
+      declared: new Set(DEPENDENCY_FIELDS.flatMap((field) => Object.keys(manifest[field] ?? {}))),
+      group,
+    });
+  }
+  // Packages outside this run (e.g. checked on their own in workspace mode) are only dependency targets
+  const manifests = new Set(collectFiles("**/package.json", options, [], { scoped: false }));
+  const checked = [...nodes.values()].filter((node) => manifests.has(getManifestPath(node)));
+
+  const isAllowed = (from: WorkspaceNode, to: WorkspaceNode): boolean =>
+    !from.group || !to.group || from.group === to.group || rule.groups![from.group]!.allowDependenciesOn.includes(to.group);
+  const describeAllowed = (from: WorkspaceNode): string =>
+    rule.groups![from.group!]!.allowDependenciesOn.join(", ") || "none";
+
+  // Package graph: declared workspace dependencies plus imports found in the checked packages
+  const graph = new Map<string, Set<string>>();
+  for (const node of nodes.values()) {
+    graph.set(node.name, new Set([...node.declared].filter((dep) => nodes.has(dep) && dep !== node.name)));
+  }
+
+  for (const node of checked) {
+    const prefix = node.dir ? `${node.dir}/` : "";
+    const files = collectFiles(`${prefix}**/*`, options, rule.exclude, { scoped: false }).filter(
+      (file) => MODULE_FILE_PATTERN.test(file) && !file.slice(prefix.length).split("/").includes("node_modules")
+    );
+
+    for (const file of files) {
+      // Nested packages report their own imports
+      if (checked.some((other) => other !== node && other.dir.startsWith(prefix) && file.startsWith(`${other.dir}/`))) {
+        continue;
+      }
+
+      let imports: ImportEntry[];
+      try {
+        imports = readProjectImports(file, options, {
+          includeTypeImports: rule.includeTypeImports ?? true,
+          includeDynamicImports: rule.includeDynamicImports ?? true,
+          includeRequire: true,
+        });
+      } catch {
+        continue;
+      }
+
+      for (const imp of imports) {
+        const name = getPackageName(imp.source);
+        const target = name ? nodes.get(name) : undefined;
+        if (!target || target === node) continue;
+
+        graph.get(node.name)!.add(target.name);
+        if (!isInScope(file, options)) continue;
+
+        if ((rule.requireDeclared ?? true) && !node.declared.has(target.name)) {
+          results.push({
+            file,
+            rule: ruleName,
+            message: rule.message || `"${node.name}" imports "${target.name}" without declaring it in package.json`,
+            severity: rule.severity,
+            source: "custom",
+            line: imp.line,
+            suggestion: `Add "${target.name}" to the dependencies of ${prefix}package.json`,
+            context: { matchedText: imp.source, expectedValue: "Declared workspace dependency" },
+          });
+        }
+
+        if (!isAllowed(node, target)) {
+          results.push({
+            file,
+            rule: ruleName,
+            message:
+              rule.message ||
+              `Package group "${node.group}" cannot depend on group "${target.group}" ("${target.name}"). Allowed: ${describeAllowed(node)}`,
+            severity: rule.severity,
+            source: "custom",
+            line: imp.line,
+            context: {
+              matchedText: imp.source,
+              expectedValue: `Depend on: ${describeAllowed(node)}`,
+              actualValue: `Depends on: ${target.group}`,
+            },
+          });
+        }
+      }
+    }
+  }
+
+  // Manifest-level checks run when the package.json is part of the run
+  const cycles = rule.allowCycles ? [] : findCyclicComponents(graph);
+  for (const node of checked) {
+    const manifest = getManifestPath(node);
+    if (!isInScope(manifest, options)) continue;
+
+    for (const dep of node.declared) {
+      const target = nodes.get(dep);
+      if (!target || target === node || isAllowed(node, target)) continue;
+      results.push({
+        file: manifest,
+        rule: ruleName,
+        message:
+          rule.message ||
+          `Package group "${node.group}" cannot depend on group "${target.group}" ("${target.name}"). Allowed: ${describeAllowed(node)}`,
+        severity: rule.severity,
+        source: "custom",
+        suggestion: `Remove "${target.name}" from ${manifest}`,
+        context: { field: dep, expectedValue: `Depend on: ${describeAllowed(node)}`, actualValue: `Depends on: ${target.group}` },
+      });
+    }
+
+    const component = cycles.find((members) => members.includes(node.name));
+    const path = component ? findCyclePath(graph, node.name, component) : null;
+    if (path) {
+      results.push({
+        file: manifest,
+        rule: ruleName,
+        message: rule.message || `Circular package dependency: ${path.join(" → ")}`,
+        severity: rule.severity,
+        source: "custom",
+        context: { actualValue: path.join(" → ") },
+      });
+    }
+  }
+
+  return { ruleId: rule.id, results };
+}
+
+export function isPackageBoundaryRule(rule: unknown): rule is PackageBoundaryRule {
+  return (
+    typeof rule === "object" &&
+    rule !== null &&
+    (rule as PackageBoundaryRule).type === "package-boundary"
+  );
+}
@@ -10,9 +10,14 @@ export async function runPackageFieldsRule(
   rule: PackageFieldsRule,
   options: RuleRunnerOptions
 ): Promise<RuleResult> {
-  const { cwd } = options;
+  const { cwd, scope } = options;
   const results: CheckResult[] = [];
 
+  // In changed-files mode, only validate package.json when it is part of the change
+  if (scope && !scope.has("package.json")) {
+    return { ruleId: rule.id, results };
+  }
+
   const packagePath = join(cwd, "package.json");
 
   if (!existsSync(packagePath)) {
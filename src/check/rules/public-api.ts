@@ -1,11 +1,10 @@
-import { readFileSync, existsSync } from "node:fs";
-import { join, dirname, relative, resolve, basename } from "node:path";
-import { globSync } from "../../utils/glob";
+import { existsSync } from "node:fs";
+import { join, dirname, basename } from "node:path";
 import type { CheckResult, PublicApiRule } from "../types";
-import type { RuleResult, RuleRunnerOptions } from "./types";
-import { extractImports } from "./utils/import-extractor";
-
-const EXTENSIONS_TO_TRY = [".ts", ".tsx", ".js", ".jsx"];
+import type { ImportEntry, RuleResult, RuleRunnerOptions } from "./types";
+import { createModuleResolver } from "./utils/module-resolver";
+import { collectFiles } from "./utils/collect-files";
+import { readProjectImports } from "./utils/project-index";
 
 /**
  * Discover module root directories matching the modules glob pattern.
@@ -13,9 +12,11 @@ const EXTENSIONS_TO_TRY = [".ts", ".tsx", ".js", ".jsx"];
  */
 function discoverModuleRoots(
   modulesPattern: string,
-  cwd: string,
-  ignore: string[]
+  options: RuleRunnerOptions,
+  ruleExclude?: string[]
 ): string[] {
+  const { cwd, isIgnored } = options;
+
   const parts = modulesPattern.split("/");
   const lastPart = parts[parts.length - 1];
 
@@ -31,7 +32,7 @@ function discoverModuleRoots(
       const { readdirSync } = require("node:fs");
       const entries = readdirSync(fullParentPath, { withFileTypes: true });
       return entries
-        .filter((e: any) => e.isDirectory())
+        .filter((e: any) => e.isDirectory() && !isIgnored?.(join(parentPath, e.name), true))
         .map((e: any) => join(parentPath, e.name));
     } catch {
       return [];
@@ -39,7 +40,7 @@ function discoverModuleRoots(
   }
 
   // Fallback: glob for files and extract unique module root paths
-  const files = globSync(modulesPattern + "/**/*", { cwd, ignore });
+  const files = collectFiles(modulesPattern + "/**/*", options, ruleExclude, { scoped: false });
   const roots = new Set<string>();
   for (const file of files) {
     const fileParts = file.split("/");
@@ -87,84 +88,45 @@ export async function runPublicApiRule(
   rule: PublicApiRule,
   options: RuleRunnerOptions
 ): Promise<RuleResult> {
-  const { cwd, exclude } = options;
+  const { cwd } = options;
   const results: CheckResult[] = [];
+  const resolver = options.moduleResolver ?? createModuleResolver(cwd);
 
-  const allExcludes = [...exclude, ...(rule.exclude ?? [])];
   const barrelFile = rule.barrelFile ?? "index.ts";
   const allowSameModule = rule.allowSameModule ?? true;
 
   // Discover module roots
-  const moduleRoots = discoverModuleRoots(rule.modules, cwd, allExcludes);
+  const moduleRoots = discoverModuleRoots(rule.modules, options, rule.exclude);
 
   // Get all files to check
-  const files = globSync(rule.files, {
-    cwd,
-    ignore: allExcludes,
-  });
+  const files = collectFiles(rule.files, options, rule.exclude);
 
   for (const file of files) {
-    const fullPath = join(cwd, file);
-
-    let content = "";
+    let imports: ImportEntry[];
     try {
-      content = readFileSync(fullPath, "utf-8");
+      imports = readProjectImports(file, options, {
+        includeTypeImports: true,
+        includeDynamicImports: true,
+        includeRequire: true,
+      });
     } catch {
       continue;
     }
 
-    const imports = extractImports(content, {
-      includeTypeImports: true,
-      includeDynamicImports: true,
-      includeRequire: true,
-    });
-
     // Determine which module this file belongs to (if any)
     const fileModule = moduleRoots.find(
       (root) => file.startsWith(root + "/") || file === root
     );
 
     for (const imp of imports) {
-      // Only check relative imports
-      if (!imp.source.startsWith("./") && !imp.source.startsWith("../")) {
-        continue;
-      }
-
-      // Resolve the import path
-      const importingDir = dirname(join(cwd, file));
-      const resolved = resolve(importingDir, imp.source);
-      const relativeResolved = relative(cwd, resolved);
-
-      // Find the actual file (try extensions)
-      let resolvedPath: string | null = null;
-      if (existsSync(resolved)) {
-        resolvedPath = relativeResolved;
-      } else {
-        for (const ext of EXTENSIONS_TO_TRY) {
-          const withExt = resolved + ext;
-          if (existsSync(withExt)) {
-            resolvedPath = relative(cwd, withExt);
-            break;
-          }
-        }
-        // Try index files
-        if (!resolvedPath) {
-          for (const ext of EXTENSIONS_TO_TRY) {
-            const indexPath = join(resolved, "index" + ext);
-            if (existsSync(indexPath)) {
-              resolvedPath = relative(cwd, indexPath);
-              break;
-            }
-          }
-        }
-      }
-
+      // Packages and unresolvable imports resolve to null
+      const resolvedPath = resolver.resolve(imp.source, file);
       if (!resolvedPath) continue;
 
       // Check if this import targets a module
       const targetModule = moduleRoots.find(
         (root) =>
-          resolvedPath!.startsWith(root + "/") || resolvedPath === root
+          resolvedPath.startsWith(root + "/") || resolvedPath === root
       );
 
       if (!targetModule) continue;
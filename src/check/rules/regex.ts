@@ -1,8 +1,21 @@
-import { readFileSync } from "node:fs";
-import { join } from "node:path";
-import { globSync } from "../../utils/glob";
 import type { CheckResult, RegexRule } from "../types";
-import type { RuleResult, RuleRunnerOptions } from "./types";
+import type { RuleFix, RuleResult, RuleRunnerOptions, TextEdit } from "./types";
+import { collectFiles } from "./utils/collect-files";
+import { readProjectFile } from "./utils/project-index";
+
+/**
+ * Expand a replacement template against a match.
+ * Supports the same tokens as String.prototype.replace: $$, $&, $1-$99 and $<name>.
+ */
+function expandReplacement(template: string, match: RegExpExecArray): string {
+  return template.replace(/\$(\$|&|\d{1,2}|<([^>]+)>)/g, (token, ref: string, name?: string) => {
+    if (ref === "$") return "$";
+    if (ref === "&") return match[0];
+    if (name !== undefined) return match.groups?.[name] ?? "";
+    const group = match[Number(ref)];
+    return Number(ref) < match.length ? group ?? "" : token;
+  });
+}
 
 /**
  * Run regex rule to find forbidden/required patterns
@@ -11,17 +24,12 @@ export async function runRegexRule(
   rule: RegexRule,
   options: RuleRunnerOptions
 ): Promise<RuleResult> {
-  const { cwd, exclude } = options;
   const results: CheckResult[] = [];
-
-  // Merge global excludes with rule-specific excludes
-  const allExcludes = [...exclude, ...(rule.exclude ?? [])];
+  const fixes: RuleFix[] = [];
+  const canFix = rule.replacement !== undefined && !rule.mustMatch;
 
   // Find files matching the glob pattern
-  const files = globSync(rule.files, {
-    cwd,
-    ignore: allExcludes,
-  });
+  const files = collectFiles(rule.files, options, rule.exclude);
 
   // Compile the regex
   let regex: RegExp;
@@ -43,11 +51,9 @@ export async function runRegexRule(
   }
 
   for (const file of files) {
-    const fullPath = join(cwd, file);
-
     let content: string;
     try {
-      content = readFileSync(fullPath, "utf-8");
+      content = readProjectFile(file, options);
     } catch {
       continue;
     }
@@ -72,6 +78,7 @@ export async function runRegexRule(
       // Find all matches with line numbers
       let match: RegExpExecArray | null;
       const lines = content.split("\n");
+      const edits: TextEdit[] = [];
 
       while ((match = regex.exec(content)) !== null) {
         // Find line number
@@ -99,23 +106,41 @@ export async function runRegexRule(
           message: rule.message,
           severity: rule.severity,
           source: "custom",
+          fixable: canFix || undefined,
           context: {
             matchedText: match[0],
             surroundingLines,
           },
         });
 
+        if (canFix) {
+          edits.push({
+            range: [match.index, match.index + match[0].length],
+            text: expandReplacement(rule.replacement!, match),
+          });
+        }
+
+        // Guard against infinite loops on zero-length matches
+        if (match[0].length === 0) {
+          regex.lastIndex++;
+        }
+
         // If reportOnce is enabled, only report the first match per file
         if (rule.reportOnce) {
           break;
         }
       }
+
+      if (edits.length > 0) {
+        fixes.push({ kind: "edit", rule: `regex/${rule.id}`, file, edits });
+      }
     }
   }
 
   return {
     ruleId: rule.id,
     results,
+    fixes,
   };
 }
 
@@ -1,13 +1,14 @@
-import { readFileSync, existsSync } from "node:fs";
+import { existsSync } from "node:fs";
 import { join, dirname, basename } from "node:path";
-import { globSync } from "../../utils/glob";
 import type {
   CheckResult,
   RelationshipRule,
   RelationshipAction,
 } from "../types";
-import type { RuleResult, RuleRunnerOptions } from "./types";
-import { extractImports } from "./utils/import-extractor";
+import type { ImportEntry, RuleResult, RuleRunnerOptions } from "./types";
+import { createModuleResolver } from "./utils/module-resolver";
+import { collectFiles } from "./utils/collect-files";
+import { readProjectFile, readProjectImports } from "./utils/project-index";
 
 function compileRegex(pattern: string): RegExp | null {
   try {
@@ -52,14 +53,11 @@ export async function runRelationshipRule(
   rule: RelationshipRule,
   options: RuleRunnerOptions
 ): Promise<RuleResult> {
-  const { cwd, exclude } = options;
+  const { cwd } = options;
   const results: CheckResult[] = [];
+  const resolver = options.moduleResolver ?? createModuleResolver(cwd);
 
-  const allExcludes = [...exclude, ...(rule.exclude ?? [])];
-  const files = globSync(rule.when.files, {
-    cwd,
-    ignore: allExcludes,
-  });
+  const files = collectFiles(rule.when.files, options, rule.exclude);
 
   for (const file of files) {
     let companionPath: string | null = null;
@@ -107,7 +105,7 @@ export async function runRelationshipRule(
           continue;
         }
         try {
-          companionContent = readFileSync(fullCompanionPath, "utf-8");
+          companionContent = readProjectFile(companionPath, options);
         } catch {
           skipRemainingActions = true;
           continue;
@@ -138,22 +136,20 @@ export async function runRelationshipRule(
 
       // mustImport
       else if ("mustImport" in action) {
-        const fullPath = join(cwd, file);
-        let content = "";
+        let imports: ImportEntry[];
         try {
-          content = readFileSync(fullPath, "utf-8");
+          imports = readProjectImports(file, options);
         } catch {
           continue;
         }
 
-        const imports = extractImports(content);
-
         if (action.mustImport.companion && companionPath) {
           // Check that the file imports its companion
           const companionBasename = basename(companionPath);
           const companionStem = companionBasename.replace(/\.[^.]+$/, "");
           const hasCompanionImport = imports.some(
             (imp) =>
+              resolver.resolve(imp.source, file) === companionPath ||
               imp.source.includes(companionStem) ||
               imp.source.endsWith(
                 companionPath!.replace(/\.[^.]+$/, "")
@@ -193,16 +189,13 @@ export async function runRelationshipRule(
 
       // mustNotImport
       else if ("mustNotImport" in action) {
-        const fullPath = join(cwd, file);
-        let content = "";
+        let imports: ImportEntry[];
         try {
-          content = readFileSync(fullPath, "utf-8");
+          imports = readProjectImports(file, options);
         } catch {
           continue;
         }
 
-        const imports = extractImports(content);
-
         for (const mod of action.mustNotImport.modules) {
           const badImport = imports.find((imp) =>
             imp.source.includes(mod)
@@ -272,10 +265,9 @@ export async function runRelationshipRule(
 
       // fileMustContain
       else if ("fileMustContain" in action) {
-        const fullPath = join(cwd, file);
         let content = "";
         try {
-          content = readFileSync(fullPath, "utf-8");
+          content = readProjectFile(file, options);
         } catch {
           continue;
         }
@@ -302,10 +294,9 @@ export async function runRelationshipRule(
 
       // fileMustNot
       else if ("fileMustNot" in action) {
-        const fullPath = join(cwd, file);
         let content = "";
         try {
-          content = readFileSync(fullPath, "utf-8");
+          content = readProjectFile(file, options);
         } catch {
           continue;
         }
@@ -353,10 +344,9 @@ export async function runRelationshipRule(
 
       // maxLines
       else if ("maxLines" in action) {
-        const fullPath = join(cwd, file);
         let content = "";
         try {
-          content = readFileSync(fullPath, "utf-8");
+          content = readProjectFile(file, options);
         } catch {
           continue;
         }
@@ -0,0 +1,85 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { dirname, join } from "node:path";
+import type { RetiredPathRule } from "../types";
+import { applyFixes } from "../fixer";
+import { runRetiredPathRule } from "./retired-path";
+import type { RuleRunnerOptions } from "./types";
+import { createModuleResolver } from "./utils/module-resolver";
+
+let cwd: string;
+
+const write = (file: string, content: string) => {
+  mkdirSync(dirname(join(cwd, file)), { recursive: true });
+  writeFileSync(join(cwd, file), content);
+};
+
+const read = (file: string) => readFileSync(join(cwd, file), "utf-8");
+
+const run = (extra: Partial<RuleRunnerOptions> = {}) => {
+  const rule: RetiredPathRule = {
+    id: "legacy",
+    type: "retired-path",
+    severity: "error",
+    paths: [{ pattern: "src/lib/**/*", migratedTo: "src/shared/lib" }],
+  };
+  return runRetiredPathRule(rule, { cwd, include: ["**/*"], exclude: ["node_modules"], ...extra });
+};
+
+beforeEach(() => {
+  cwd = mkdtempSync(join(tmpdir(), "chaperone-retired-"));
+});
+
+afterEach(() => {
+  rmSync(cwd, { recursive: true, force: true });
+});
+
+describe("runRetiredPathRule", () => {
+  test("moves a retired file and rewrites the imports into and out of it", async () => {
+    write("src/lib/format.ts", 'import { pad } from "../utils/pad";\nexport const format = pad;\n');
+    write("src/utils/pad.ts", "export const pad = 1;\n");
+    write("src/app.ts", 'import { format } from "./lib/format.js";\nconst lazy = () => import(\'./lib/format\');\n');
+    write("src/pages/home.ts", 'export { format } from "../lib/format";\n');
+
+    const { results, fixes } = await run();
+    expect(results.map((r) => [r.file, r.fixable, r.suggestion])).toEqual([
+      ["src/lib/format.ts", true, "Move this file to src/shared/lib/format.ts"],
+    ]);
+
+    const report = applyFixes(fixes!, cwd);
+    expect(report.skipped).toEqual([]);
+    expect(existsSync(join(cwd, "src/lib/format.ts"))).toBe(false);
+    expect(read("src/shared/lib/format.ts")).toBe('import { pad } from "../../utils/pad";\nexport const format = pad;\n');
+    expect(read("src/app.ts")).toBe(
+      'import { format } from "./shared/lib/format.js";\nconst lazy = () => import(\'./shared/lib/format\');\n'
+    );
+    expect(read("src/pages/home.ts")).toBe('export { format } from "../shared/lib/format";\n');
+  });
+
+  test("leaves the move to the user when an import of the file cannot be rewritten", async () => {
+    write("tsconfig.json", JSON.stringify({ compilerOptions: { baseUrl: "." } }));
+    write("src/lib/format.ts", "export const format = 1;\n");
+    write("src/app.ts", 'import { format } from "src/lib/format";\n');
+
+    const { results, fixes } = await run({ moduleResolver: createModuleResolver(cwd, { useTypescriptPaths: true }) });
+
+    expect(results.map((r) => [r.fixable, r.suggestion])).toEqual([[undefined, "Move this file to src/shared/lib/format.ts"]]);
+    expect(fixes).toEqual([]);
+  });
+
+  test("skips a move when another fix already changed one of its importers", async () => {
+    write("src/lib/format.ts", "export const format = 1;\n");
+    write("src/app.ts", 'import { format } from "./lib/format";\n');
+
+    const { fixes } = await run();
+    const report = applyFixes(
+      [{ kind: "edit", rule: "regex/x", file: "src/app.ts", edits: [{ range: [0, 0], text: "// edited\n" }] }, ...fixes!],
+      cwd
+    );
+
+    expect(report.skipped.map(({ reason }) => reason)).toEqual(["src/app.ts was changed by another fix; run --fix again"]);
+    expect(existsSync(join(cwd, "src/lib/format.ts"))).toBe(true);
+    expect(read("src/app.ts")).toBe('// edited\nimport { format } from "./lib/format";\n');
+  });
+});
@@ -1,21 +1,152 @@
-import { globSync } from "../../utils/glob";
+import { basename, join, posix, relative } from "node:path";
 import type { CheckResult, RetiredPathRule } from "../types";
-import type { RuleResult, RuleRunnerOptions } from "./types";
+import type { FileEdits, ImportEntry, ModuleResolver, RuleFix, RuleResult, RuleRunnerOptions } from "./types";
+import { collectFiles } from "./utils/collect-files";
+import { MODULE_FILE_PATTERN } from "./utils/module-graph";
+import { createModuleResolver } from "./utils/module-resolver";
+import { readProjectFile, readProjectImports } from "./utils/project-index";
+
+/**
+ * Get the static directory prefix of a glob (e.g., "src/hooks" for "src/hooks/**\/*")
+ */
+function getStaticBase(pattern: string): string {
+  const parts = pattern.split("/");
+  const staticParts: string[] = [];
+  for (const part of parts) {
+    if (/[*?{[]/.test(part)) break;
+    staticParts.push(part);
+  }
+  return staticParts.join("/");
+}
+
+/**
+ * Resolve where a retired file should be moved to.
+ * Returns null when migratedTo is a placeholder (e.g., "src/features/<feature>/ui/").
+ */
+function resolveMigrationTarget(file: string, pattern: string, migratedTo: string): string | null {
+  if (/[<>*?{}[\]]/.test(migratedTo)) {
+    return null;
+  }
+
+  const base = getStaticBase(pattern);
+  const relativeToBase = base && file.startsWith(base + "/") ? relative(base, file) : basename(file);
+  return join(migratedTo, relativeToBase);
+}
+
+const isRelativeSpecifier = (source: string): boolean =>
+  source === "." || source === ".." || source.startsWith("./") || source.startsWith("../");
+
+/**
+ * The specifier that reaches `target` from a file in `fromDir`, in the "./x" form imports use
+ */
+function toSpecifier(fromDir: string, target: string): string {
+  const rel = posix.relative(fromDir, target);
+  if (rel === "") return ".";
+  return rel === ".." || rel.startsWith("../") ? rel : `./${rel}`;
+}
+
+/**
+ * Range of an import's specifier inside its string literal, searching from the import's line
+ */
+function findSpecifier(content: string, entry: ImportEntry): [number, number] | null {
+  let offset = 0;
+  for (let line = 1; line < entry.line; line++) {
+    offset = content.indexOf("\n", offset) + 1;
+    if (offset === 0) return null;
+  }
+  const starts = ['"', "'", "`"]
+    .map((quote) => content.indexOf(`${quote}${entry.source}${quote}`, offset))
+    .filter((index) => index !== -1);
+  if (starts.length === 0) return null;
+  const start = Math.min(...starts) + 1;
+  return [start, start + entry.source.length];
+}
+
+/**
+ * Specifier edits that keep imports working when `file` moves to `to`: the moved file's own
+ * relative imports, and every relative import of it elsewhere in the project.
+ * Returns null when an import cannot be rewritten (an alias, a package path or a specifier
+ * the rule cannot locate), so the move is left to the user.
+ */
+function planImportEdits(
+  file: string,
+  to: string,
+  modules: Map<string, ImportEntry[]>,
+  resolver: ModuleResolver,
+  readContent: (file: string) => string | null
+): FileEdits[] | null {
+  const groups = new Map<string, FileEdits>();
+  const rewrite = (owner: string, entry: ImportEntry, specifier: string): boolean => {
+    if (specifier === entry.source) return true;
+    const content = readContent(owner);
+    const range = content === null ? null : findSpecifier(content, entry);
+    if (!range) return false;
+    const group = groups.get(owner) ?? { file: owner, edits: [] };
+    groups.set(owner, group);
+    if (!group.edits.some((edit) => edit.range[0] === range[0])) {
+      group.edits.push({ range, text: specifier });
+    }
+    return true;
+  };
+
+  for (const entry of modules.get(file) ?? []) {
+    if (!isRelativeSpecifier(entry.source)) continue;
+    const written = posix.join(posix.dirname(file), entry.source);
+    if (!rewrite(file, entry, toSpecifier(posix.dirname(to), written))) return null;
+  }
+
+  for (const [importer, entries] of modules) {
+    if (importer === file) continue;
+    for (const entry of entries) {
+      if (entry.kind === "glob" || resolver.resolve(entry.source, importer) !== file) continue;
+      if (!isRelativeSpecifier(entry.source)) return null;
+
+      // Keep the specifier's form: extensionless, `.js` for `.ts`, or a directory for its index
+      const written = posix.join(posix.dirname(importer), entry.source);
+      let moved: string;
+      if (posix.dirname(written) === posix.dirname(file)) moved = posix.join(posix.dirname(to), posix.basename(written));
+      else if (written === posix.dirname(file)) moved = posix.dirname(to);
+      else return null;
+
+      if (!rewrite(importer, entry, toSpecifier(posix.dirname(importer), moved))) return null;
+    }
+  }
+
+  return [...groups.values()];
+}
 
 export async function runRetiredPathRule(
   rule: RetiredPathRule,
   options: RuleRunnerOptions
 ): Promise<RuleResult> {
-  const { cwd, exclude } = options;
+  const { cwd } = options;
   const results: CheckResult[] = [];
+  const fixes: RuleFix[] = [];
+  const resolver = options.moduleResolver ?? createModuleResolver(cwd);
 
-  const allExcludes = [...exclude, ...(rule.exclude ?? [])];
+  // Imports of every module in the project, read once the first file can be moved
+  let modules: Map<string, ImportEntry[]> | null = null;
+  const loadModules = (): Map<string, ImportEntry[]> => {
+    if (modules) return modules;
+    modules = new Map();
+    for (const file of collectFiles("**/*", options, [], { scoped: false })) {
+      if (!MODULE_FILE_PATTERN.test(file)) continue;
+      try {
+        modules.set(file, readProjectImports(file, options));
+      } catch {}
+    }
+    return modules;
+  };
+  const readContent = (file: string): string | null => {
+    try {
+      return readProjectFile(file, options);
+    } catch {
+      return null;
+    }
+  };
 
   for (const entry of rule.paths) {
-    const files = globSync(entry.pattern, {
-      cwd,
-      ignore: allExcludes,
-    });
+    const files = collectFiles(entry.pattern, options, rule.exclude);
 
     for (const file of files) {
       let message = rule.message || `File exists in retired path matching "${entry.pattern}"`;
@@ -26,14 +157,30 @@ export async function runRetiredPathRule(
         message += `. Migrate to: ${entry.migratedTo}`;
       }
 
+      const target = entry.migratedTo
+        ? resolveMigrationTarget(file, entry.pattern, entry.migratedTo)
+        : null;
+      // Files are only moved when every import of them can follow
+      const imports = target ? planImportEdits(file, target, loadModules(), resolver, readContent) : null;
+      if (target && imports) {
+        fixes.push({
+          kind: "move",
+          rule: `retired-path/${rule.id}`,
+          file,
+          to: target,
+          ...(imports.length > 0 && { imports }),
+        });
+      }
+
       results.push({
         file,
         rule: `retired-path/${rule.id}`,
         message,
         severity: rule.severity,
         source: "custom",
+        fixable: imports !== null || undefined,
         suggestion: entry.migratedTo
-          ? `Move this file to ${entry.migratedTo}`
+          ? `Move this file to ${target ?? entry.migratedTo}`
           : undefined,
       });
     }
@@ -42,6 +189,7 @@ export async function runRetiredPathRule(
   return {
     ruleId: rule.id,
     results,
+    fixes,
   };
 }
 
@@ -1,8 +1,7 @@
-import { readFileSync } from "node:fs";
-import { join } from "node:path";
-import { globSync } from "../../utils/glob";
 import type { CheckResult, SymbolReferenceRule } from "../types";
 import type { RuleResult, RuleRunnerOptions } from "./types";
+import { collectFiles, isInScope } from "./utils/collect-files";
+import { readProjectFile } from "./utils/project-index";
 
 interface ExportedSymbol {
   name: string;
@@ -83,17 +82,20 @@ export async function runSymbolReferenceRule(
   rule: SymbolReferenceRule,
   options: RuleRunnerOptions
 ): Promise<RuleResult> {
-  const { cwd, exclude } = options;
-  const allExcludes = [...exclude, ...(rule.exclude ?? [])];
   const results: CheckResult[] = [];
 
-  const sourceFiles = globSync(rule.sourceFiles, { cwd, ignore: allExcludes });
-  const targetFiles = globSync(rule.targetFiles, { cwd, ignore: allExcludes });
+  // References span files, so the rule runs project-wide whenever any source or target file is in scope
+  const sourceFiles = collectFiles(rule.sourceFiles, options, rule.exclude, { scoped: false });
+  const targetFiles = collectFiles(rule.targetFiles, options, rule.exclude, { scoped: false });
+
+  if (![...sourceFiles, ...targetFiles].some((file) => isInScope(file, options))) {
+    return { ruleId: rule.id, results };
+  }
 
   const targetContents = targetFiles
     .map((filePath) => {
       try {
-        return readFileSync(join(cwd, filePath), "utf-8");
+        return readProjectFile(filePath, options);
       } catch {
         return "";
       }
@@ -117,10 +119,9 @@ export async function runSymbolReferenceRule(
   const symbolFilter = rule.symbolPattern ? new RegExp(rule.symbolPattern) : null;
 
   for (const sourceFile of sourceFiles) {
-    const fullPath = join(cwd, sourceFile);
     let content = "";
     try {
-      content = readFileSync(fullPath, "utf-8");
+      content = readProjectFile(sourceFile, options);
     } catch {
       continue;
     }
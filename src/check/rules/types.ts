@@ -1,10 +1,115 @@
-import type { CheckResult, CustomRule } from "../types";
+import type { BaseRule, CheckResult, CustomRule } from "../types";
 
 /**
  * Debug callback for reporting rule execution
  */
 export type DebugCallback = (message: string) => void;
 
+/**
+ * Resolves import specifiers to project files
+ */
+export interface ModuleResolver {
+  /**
+   * Resolve a specifier imported from `importingFile` (relative to cwd).
+   * Returns the target file relative to cwd, or null for packages and unresolvable imports.
+   */
+  resolve(specifier: string, importingFile: string): string | null;
+  cacheKey: string; // Hash of the resolver options and every tsconfig file they read, for the rule cache
+}
+
+/**
+ * How an import was written
+ *   import     — `import ... from "x"` / `import "x"`
+ *   export     — re-export: `export * from "x"` / `export { a } from "x"`
+ *   equals     — `import x = require("x")`
+ *   dynamic    — `import("x")`
+ *   require    — `require("x")`
+ *   glob       — `import.meta.glob("./x/*.ts")` (source is the glob pattern)
+ */
+export type ImportKind = "import" | "export" | "equals" | "dynamic" | "require" | "glob";
+
+export interface ImportBinding {
+  imported: string; // Name in the source module ("default", "*" for namespaces)
+  local: string; // Local (or exported, for re-exports) name
+  isTypeOnly: boolean; // `type` modifier on the specifier or the whole statement
+}
+
+export interface ImportEntry {
+  source: string; // Import specifier (e.g., "@tauri-apps/api", "./utils")
+  line: number; // Line number
+  kind: ImportKind;
+  bindings: ImportBinding[]; // Named/default/namespace bindings (empty for side-effect and call forms)
+  isTypeImport: boolean; // `import type`/`export type`, or every binding is type-only
+  isDynamic: boolean; // import() expression or import.meta.glob()
+  isRequire: boolean; // require() call
+  isReExport: boolean; // export ... from
+}
+
+/**
+ * A name exported by a module's own declarations (re-exports are ImportEntry with kind "export")
+ */
+export interface ExportEntry {
+  name: string; // Exported name ("default" for default exports)
+  line: number;
+  isTypeOnly: boolean; // type alias, interface, or `export type { }`
+}
+
+export interface ExtractOptions {
+  includeTypeImports?: boolean; // default: true
+  includeDynamicImports?: boolean; // default: true
+  includeRequire?: boolean; // default: true
+}
+
+/**
+ * Per-run view of the project shared by all rules: one directory walk,
+ * plus file contents and parsed imports cached on first use.
+ * Paths are relative to cwd.
+ */
+export interface ProjectIndex {
+  files: string[]; // Every file under cwd, after global excludes and ignore files
+  glob(pattern: string, exclude?: string[]): string[]; // Indexed files matching a pattern, minus `exclude`
+  read(file: string): string | null; // File content, or null when it cannot be read
+  imports(file: string): ImportEntry[] | null; // All imports in a file, or null when it cannot be read
+  stats: ProjectIndexStats;
+}
+
+/**
+ * How much work the project index saved, reported with --debug
+ */
+export interface ProjectIndexStats {
+  globs: number; // Glob queries answered from the index instead of walking the tree
+  reads: number; // Files read from disk
+  readHits: number; // Reads answered from the cache
+  parses: number; // Files whose imports were parsed
+  parseHits: number; // Import lookups answered from the cache
+}
+
+/**
+ * Rule results persisted between runs, keyed by file content and rule config
+ */
+export interface RuleCache {
+  /**
+   * Run a rule through the cache: reuse stored results for unchanged inputs
+   * and call `run` (possibly with a narrower scope) for the rest
+   */
+  run(
+    rule: CustomRule,
+    options: RuleRunnerOptions,
+    run: (options: RuleRunnerOptions) => Promise<RuleResult | null>
+  ): Promise<RuleResult | null>;
+  save(): void; // Write the cache to disk; failures are ignored
+  stats: RuleCacheStats;
+}
+
+/**
+ * How much work the cache saved, reported with --debug
+ */
+export interface RuleCacheStats {
+  rules: number; // Rules answered entirely from the cache
+  files: number; // Per-file results reused
+  checked: number; // Files re-checked because their content, the rule or its context changed
+}
+
 /**
  * Options for running custom rules
  */
@@ -13,20 +118,78 @@ export interface RuleRunnerOptions {
   include: string[];
   exclude: string[];
   onDebug?: DebugCallback;
+  isIgnored?: (path: string, isDirectory: boolean) => boolean; // Ignore files from `integrations`
+  scope?: Set<string>; // Files to check (relative to cwd); undefined checks the whole project
+  moduleResolver?: ModuleResolver; // Shared resolver honoring tsconfig paths; rules fall back to relative-only
+  reportUnusedDisables?: boolean; // Report suppression comments that silenced nothing
+  index?: ProjectIndex; // Shared file list and content cache; rules fall back to the filesystem
+  concurrency?: number; // Max rules run at once by runAllRules (default: 1)
+  workerMinFiles?: number; // Indexed files needed before content rules run on worker threads (default: 2000)
+  cache?: RuleCache; // Results from previous runs; rules always run without one
+  registry?: RuleRegistry; // Rule types, including plugins (default: built-in rules only)
 }
 
+/**
+ * A single text replacement within a file.
+ * `range` is a [start, end) pair of character offsets into the file content.
+ */
+export interface TextEdit {
+  range: [number, number];
+  text: string;
+}
+
+/**
+ * Edits to one file, with ranges into its content when the fix was proposed
+ */
+export interface FileEdits {
+  file: string;
+  edits: TextEdit[];
+}
+
+/**
+ * A fix proposed by a rule, applied by `chaperone check --fix`.
+ * A fix is checked against the files and the other fixes it touches before anything is written,
+ * and skipped whole when it conflicts. Writes are not transactional: an I/O error midway can
+ * leave part of a fix applied.
+ * A `create` fix may name the `source` file its violation was reported on.
+ * A `move` fix carries the import specifier edits that keep the moved file and its importers
+ * resolving (`imports`, by path before the move).
+ */
+export type RuleFix =
+  | { kind: "edit"; rule: string; file: string; edits: TextEdit[] }
+  | { kind: "create"; rule: string; file: string; content: string; source?: string }
+  | { kind: "move"; rule: string; file: string; to: string; imports?: FileEdits[] };
+
 /**
  * Result from running a custom rule
  */
 export interface RuleResult {
   ruleId: string;
   results: CheckResult[];
+  fixes?: RuleFix[];
+}
+
+/**
+ * A custom rule type. Built-in rules and plugin rules register the same way;
+ * `R` is the shape of the rule's config entry.
+ */
+export interface RuleRunner<R extends BaseRule = BaseRule> {
+  type: string; // Matches the rule's `type` field, e.g. "regex" or "acme/no-legacy-api"
+  run(rule: R, options: RuleRunnerOptions): Promise<RuleResult>;
+  validate?(rule: R): string[]; // Config errors reported by validateConfig
+  describe?(rule: R): string; // What the rule checks, for --debug output
+  files?(rule: R): string[]; // Globs for the files the rule reads, so watch mode knows when to re-run it
 }
 
 /**
- * Interface for rule runners
+ * Rule runners by rule type
+ */
+export type RuleRegistry = ReadonlyMap<string, RuleRunner>;
+
+/**
+ * What a plugin module exports (as its default export or as named exports)
  */
-export interface RuleRunner {
-  type: string;
-  run(rule: CustomRule, options: RuleRunnerOptions): Promise<RuleResult>;
+export interface ChaperonePlugin {
+  name?: string;
+  rules: RuleRunner[];
 }
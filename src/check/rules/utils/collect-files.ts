@@ -0,0 +1,38 @@
+import { globSync } from "../../../utils/glob";
+import type { RuleRunnerOptions } from "../types";
+
+export interface CollectFilesOptions {
+  scoped?: boolean; // Limit results to options.scope (default: true)
+}
+
+/**
+ * Glob files for a rule, applying the global excludes, the rule's own excludes,
+ * any ignore files enabled in `integrations`, and the changed-files scope.
+ * Every rule should discover files through this helper so they agree on scope.
+ * Pass `scoped: false` when a rule needs the full project as context
+ * (e.g. mapping every file to a layer) but only reports on scoped files.
+ */
+export function collectFiles(
+  pattern: string,
+  options: RuleRunnerOptions,
+  ruleExclude: string[] = [],
+  { scoped = true }: CollectFilesOptions = {}
+): string[] {
+  const files = options.index
+    ? options.index.glob(pattern, ruleExclude)
+    : globSync(pattern, {
+        cwd: options.cwd,
+        ignore: [...options.exclude, ...ruleExclude],
+        isIgnored: options.isIgnored,
+      });
+
+  if (!scoped || !options.scope) return files;
+  return files.filter((file) => options.scope!.has(file));
+}
+
+/**
+ * Check whether a file is part of the current run (always true without a scope)
+ */
+export function isInScope(file: string, options: RuleRunnerOptions): boolean {
+  return !options.scope || options.scope.has(file);
+}
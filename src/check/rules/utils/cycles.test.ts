@@ -0,0 +1,41 @@
+import { describe, expect, test } from "bun:test";
+import { findCyclicComponents, findShortestCycle } from "./cycles";
+
+const graphOf = (edges: Record<string, string[]>) =>
+  new Map(Object.entries(edges).map(([node, targets]) => [node, new Set(targets)]));
+
+describe("findCyclicComponents", () => {
+  test("returns each group of mutually reachable nodes once", () => {
+    const graph = graphOf({
+      a: ["b"],
+      b: ["c", "d"],
+      c: ["a"],
+      d: ["e"],
+      e: ["d"],
+      f: ["a"],
+    });
+
+    expect(findCyclicComponents(graph)).toEqual([
+      ["d", "e"],
+      ["a", "b", "c"],
+    ]);
+  });
+
+  test("handles import chains deeper than the call stack", () => {
+    const size = 20000;
+    const graph = graphOf(
+      Object.fromEntries(Array.from({ length: size }, (_, i) => [`n${i}`, [`n${(i + 1) % size}`]]))
+    );
+
+    expect(findCyclicComponents(graph)[0]).toHaveLength(size);
+  });
+});
+
+describe("findShortestCycle", () => {
+  test("finds the shortest cycle inside a component", () => {
+    const graph = graphOf({ a: ["b"], b: ["c"], c: ["a", "d"], d: ["c"] });
+    const [component] = findCyclicComponents(graph);
+
+    expect(findShortestCycle(graph, component!)).toEqual(["c", "d", "c"]);
+  });
+});
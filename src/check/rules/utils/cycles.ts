@@ -0,0 +1,118 @@
+/**
+ * Directed graph as adjacency sets: node → nodes it depends on
+ */
+export type DependencyGraph = ReadonlyMap<string, ReadonlySet<string>>;
+
+/**
+ * Strongly connected components with more than one node (Tarjan's algorithm).
+ * Every such component contains at least one cycle. Components and their nodes
+ * are returned in the order nodes are first visited, so output is deterministic.
+ */
+export function findCyclicComponents(graph: DependencyGraph): string[][] {
+  const indices = new Map<string, number>();
+  const lowLinks = new Map<string, number>();
+  const onStack = new Set<string>();
+  const stack: string[] = [];
+  const components: string[][] = [];
+  let nextIndex = 0;
+
+  // Iterative depth-first search, so deep import chains cannot overflow the call stack
+  for (const root of graph.keys()) {
+    if (indices.has(root)) continue;
+
+    const work: Array<{ node: string; targets: Iterator<string> }> = [];
+    const visit = (node: string) => {
+      indices.set(node, nextIndex);
+      lowLinks.set(node, nextIndex);
+      nextIndex++;
+      stack.push(node);
+      onStack.add(node);
+      work.push({ node, targets: (graph.get(node) ?? new Set<string>()).values() });
+    };
+    visit(root);
+
+    while (work.length > 0) {
+      const frame = work[work.length - 1]!;
+      const next = frame.targets.next();
+
+      if (!next.done) {
+        const target = next.value;
+        if (!indices.has(target)) {
+          visit(target);
+        } else if (onStack.has(target)) {
+          lowLinks.set(frame.node, Math.min(lowLinks.get(frame.node)!, indices.get(target)!));
+        }
+        continue;
+      }
+
+      work.pop();
+      const parent = work[work.length - 1];
+      if (parent) {
+        lowLinks.set(parent.node, Math.min(lowLinks.get(parent.node)!, lowLinks.get(frame.node)!));
+      }
+
+      if (lowLinks.get(frame.node) === indices.get(frame.node)) {
+        const component: string[] = [];
+        let member: string;
+        do {
+          member = stack.pop()!;
+          onStack.delete(member);
+          component.push(member);
+        } while (member !== frame.node);
+
+        if (component.length > 1) {
+          components.push(component.reverse());
+        }
+      }
+    }
+  }
+
+  return components;
+}
+
+/**
+ * Shortest cycle through `start` that stays inside `component`, as a path
+ * ending where it began (e.g. ["a", "b", "a"]). Null if there is none.
+ */
+export function findCyclePath(graph: DependencyGraph, start: string, component: Iterable<string>): string[] | null {
+  const members = new Set(component);
+  const previous = new Map<string, string>();
+  const queue = [start];
+
+  for (let i = 0; i < queue.length; i++) {
+    const node = queue[i]!;
+    for (const target of graph.get(node) ?? []) {
+      if (!members.has(target)) continue;
+
+      if (target === start) {
+        const chain: string[] = [];
+        for (let step = node; step !== start; step = previous.get(step)!) {
+          chain.unshift(step);
+        }
+        return [start, ...chain, start];
+      }
+
+      if (!previous.has(target)) {
+        previous.set(target, node);
+        queue.push(target);
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Shortest cycle within a strongly connected component, starting from the
+ * first member it passes through (in component order)
+ */
+export function findShortestCycle(graph: DependencyGraph, component: string[]): string[] | null {
+  let shortest: string[] | null = null;
+  for (const start of component) {
+    const path = findCyclePath(graph, start, component);
+    if (path && (!shortest || path.length < shortest.length)) shortest = path;
+    // A two-file cycle cannot be beaten
+    if (shortest?.length === 3) break;
+  }
+  return shortest;
+}
@@ -0,0 +1,131 @@
+import { describe, expect, test } from "bun:test";
+import { extractExports, extractImports } from "./import-extractor";
+
+const sources = (content: string, options?: Parameters<typeof extractImports>[1]) =>
+  extractImports(content, options).map((entry) => entry.source);
+
+describe("extractImports", () => {
+  test("finds static, dynamic and require imports with line numbers", () => {
+    const entries = extractImports(
+      ['import a from "./a";', "", "const b = await import('./b');", 'const c = require("./c");'].join("\n")
+    );
+
+    expect(entries.map((e) => [e.source, e.line, e.kind])).toEqual([
+      ["./a", 1, "import"],
+      ["./b", 3, "dynamic"],
+      ["./c", 4, "require"],
+    ]);
+  });
+
+  test("ignores imports inside comments, strings and template literals", () => {
+    const content = [
+      "/* import x from './commented'; */",
+      "// import y from './line-comment';",
+      "const s = \"import z from './string'\";",
+      "const t = `import w from './template' ${require('./inside-expr')}`;",
+    ].join("\n");
+
+    expect(sources(content)).toEqual(["./inside-expr"]);
+  });
+
+  test("handles multiple imports per line and multiline specifiers", () => {
+    const content = 'import a from "./a"; import b from "./b";\nimport {\n  c,\n  d,\n} from "./cd";';
+
+    expect(sources(content)).toEqual(["./a", "./b", "./cd"]);
+  });
+
+  test("reports re-exports", () => {
+    const entries = extractImports(
+      'export * from "./all";\nexport * as ns from "./ns";\nexport { a, b as c } from "./named";\nexport { local };'
+    );
+
+    expect(entries.map((e) => [e.source, e.isReExport])).toEqual([
+      ["./all", true],
+      ["./ns", true],
+      ["./named", true],
+    ]);
+    expect(entries[2]!.bindings).toEqual([
+      { imported: "a", local: "a", isTypeOnly: false },
+      { imported: "b", local: "c", isTypeOnly: false },
+    ]);
+  });
+
+  test("tracks type-only specifiers per binding", () => {
+    const [mixed, allTypes, statement] = extractImports(
+      'import { type A, B } from "./mixed";\nimport { type C } from "./types";\nimport type { D } from "./statement";'
+    );
+
+    expect(mixed!.bindings.map((b) => b.isTypeOnly)).toEqual([true, false]);
+    expect(mixed!.isTypeImport).toBe(false);
+    expect(allTypes!.isTypeImport).toBe(true);
+    expect(statement!.isTypeImport).toBe(true);
+
+    expect(
+      sources(
+        'import { type A, B } from "./mixed";\nimport { type C } from "./types";\nimport type { D } from "./statement";',
+        { includeTypeImports: false }
+      )
+    ).toEqual(["./mixed"]);
+  });
+
+  test("supports import-equals and import.meta.glob", () => {
+    const entries = extractImports(
+      'import fs = require("node:fs");\nconst pages = import.meta.glob<Page>(["./pages/*.tsx", "./extra/*.tsx"]);'
+    );
+
+    expect(entries.map((e) => [e.source, e.kind])).toEqual([
+      ["node:fs", "equals"],
+      ["./pages/*.tsx", "glob"],
+      ["./extra/*.tsx", "glob"],
+    ]);
+    expect(sources('const pages = import.meta.glob("./pages/*.tsx");', { includeDynamicImports: false })).toEqual([]);
+  });
+
+  test("does not treat regex literals or member access as imports", () => {
+    const content = [
+      "const re = /import x from '\\.\\/nope'/;",
+      "obj.require('./not-a-require');",
+      "const ratio = a / b; import c from './c';",
+    ].join("\n");
+
+    expect(sources(content)).toEqual(["./c"]);
+  });
+});
+
+describe("extractExports", () => {
+  test("finds declarations, default and local export lists but not re-exports", () => {
+    const content = [
+      "export const a = 1;",
+      "export async function b() {}",
+      "export default class {}",
+      "export interface I {}",
+      "const c = 1, d = 2;",
+      "export { c, d as e, type T };",
+      'export { f } from "./f";',
+      'declare module "m" { export const hidden = 1; }',
+      "export const { g, h: i } = obj;",
+    ].join("\n");
+
+    expect(extractExports(content).map((e) => [e.name, e.line, e.isTypeOnly])).toEqual([
+      ["a", 1, false],
+      ["b", 2, false],
+      ["default", 3, false],
+      ["I", 4, true],
+      ["c", 6, false],
+      ["e", 6, false],
+      ["T", 6, true],
+      ["g", 9, false],
+      ["i", 9, false],
+    ]);
+  });
+  test("finds every declarator and skips default values in patterns", () => {
+    const content = [
+      "export const a = 1, b = new Map<string, number>(), c = 2;",
+      "export const { d, e: f = g, ...h } = obj, [i, , j = k] = list;",
+      "export let l = 1",
+      "const notExported = 1, m = 2",
+    ].join("\n");
+
+    expect(extractExports(content).map((e) => e.name)).toEqual(["a", "b", "c", "d", "f", "h", "i", "j", "l"]);
+  });
+});
@@ -1,109 +1,681 @@
-export interface ImportEntry {
-  source: string; // Import specifier (e.g., "@tauri-apps/api", "./utils")
-  line: number; // Line number
-  isTypeImport: boolean; // `import type` statement
-  isDynamic: boolean; // import() expression
-  isRequire: boolean; // require() call
+import type { ExportEntry, ExtractOptions, ImportBinding, ImportEntry, ImportKind } from "../types";
+
+export type { ExportEntry, ExtractOptions, ImportBinding, ImportEntry, ImportKind } from "../types";
+
+interface Token {
+  type: "ident" | "string" | "punct" | "number" | "template" | "regex";
+  value: string;
+  line: number;
 }
 
-export interface ExtractOptions {
-  includeTypeImports?: boolean; // default: true
-  includeDynamicImports?: boolean; // default: true
-  includeRequire?: boolean; // default: true
+export interface SourceComment {
+  text: string; // Including the `//` or `/* */` delimiters
+  line: number; // Line the comment starts on
 }
 
+// Keywords after which a "/" starts a regex literal rather than a division
+const KEYWORDS_BEFORE_EXPRESSION = new Set([
+  "return", "typeof", "instanceof", "in", "of", "new", "delete", "void",
+  "throw", "case", "do", "else", "yield", "await",
+]);
+
+const IDENT_START = /[A-Za-z_$\u00a0-\uffff]/;
+const IDENT_PART = /[\w$\u00a0-\uffff]/;
+
 /**
- * Strip single-line comments from content before scanning for imports.
- * Block comments and string literals are intentionally not handled — accepted tradeoff.
+ * Split source into tokens, skipping comments and the literal parts of
+ * template strings (their `${}` expressions are tokenized normally).
+ * Unterminated strings and regexes end at the line break so a stray quote
+ * (e.g. JSX text like "Don't") cannot swallow the rest of the file.
+ * Skipped comments are appended to `comments` when given.
  */
-function stripSingleLineComments(content: string): string {
-  return content
-    .split("\n")
-    .map((line) => {
-      const idx = line.indexOf("//");
-      if (idx === -1) return line;
-      // Naive: strip from // to end of line
-      return line.slice(0, idx);
-    })
-    .join("\n");
-}
+function tokenize(content: string, comments?: SourceComment[]): Token[] {
+  const tokens: Token[] = [];
+  const braceStack: Array<"brace" | "template"> = [];
+  let line = 1;
+  let i = 0;
 
-export function extractImports(
-  content: string,
-  options?: ExtractOptions
-): ImportEntry[] {
-  const includeTypeImports = options?.includeTypeImports ?? true;
-  const includeDynamicImports = options?.includeDynamicImports ?? true;
-  const includeRequire = options?.includeRequire ?? true;
+  const regexAllowed = (): boolean => {
+    const prev = tokens[tokens.length - 1];
+    if (!prev) return true;
+    if (prev.type === "ident") return KEYWORDS_BEFORE_EXPRESSION.has(prev.value);
+    if (prev.type === "punct") return ![")", "]", "}"].includes(prev.value);
+    return false;
+  };
+
+  // Read template literal text up to the closing backtick or a `${`
+  const readTemplate = (): void => {
+    const startLine = line;
+    while (i < content.length) {
+      const char = content[i]!;
+      if (char === "\\") {
+        if (content[i + 1] === "\n") line++;
+        i += 2;
+        continue;
+      }
+      if (char === "`") {
+        i++;
+        tokens.push({ type: "template", value: "", line: startLine });
+        return;
+      }
+      if (char === "$" && content[i + 1] === "{") {
+        i += 2;
+        braceStack.push("template");
+        tokens.push({ type: "punct", value: "${", line });
+        return;
+      }
+      if (char === "\n") line++;
+      i++;
+    }
+  };
+
+  while (i < content.length) {
+    const char = content[i]!;
+    const next = content[i + 1];
+
+    if (char === "\n") {
+      line++;
+      i++;
+      continue;
+    }
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    // Comments
+    if (char === "/" && next === "/") {
+      const start = i;
+      while (i < content.length && content[i] !== "\n") i++;
+      comments?.push({ text: content.slice(start, i), line });
+      continue;
+    }
+    if (char === "/" && next === "*") {
+      const start = i;
+      const startLine = line;
+      i += 2;
+      while (i < content.length && !(content[i] === "*" && content[i + 1] === "/")) {
+        if (content[i] === "\n") line++;
+        i++;
+      }
+      i += 2;
+      comments?.push({ text: content.slice(start, i), line: startLine });
+      continue;
+    }
+
+    // String literals
+    if (char === '"' || char === "'") {
+      let j = i + 1;
+      let value = "";
+      while (j < content.length && content[j] !== char && content[j] !== "\n") {
+        if (content[j] === "\\" && j + 1 < content.length) {
+          value += content[j + 1];
+          j += 2;
+          continue;
+        }
+        value += content[j];
+        j++;
+      }
+      tokens.push({ type: "string", value, line });
+      i = content[j] === char ? j + 1 : j;
+      continue;
+    }
+
+    // Template literals
+    if (char === "`") {
+      i++;
+      readTemplate();
+      continue;
+    }
+
+    if (char === "{") {
+      braceStack.push("brace");
+      tokens.push({ type: "punct", value: char, line });
+      i++;
+      continue;
+    }
+    if (char === "}") {
+      if (braceStack.pop() === "template") {
+        readTemplate();
+      } else {
+        tokens.push({ type: "punct", value: char, line });
+        i++;
+      }
+      continue;
+    }
+
+    // Regex literals
+    if (char === "/" && regexAllowed()) {
+      let j = i + 1;
+      let inClass = false;
+      while (j < content.length && content[j] !== "\n") {
+        const c = content[j];
+        if (c === "\\") {
+          j += 2;
+          continue;
+        }
+        if (c === "[") inClass = true;
+        else if (c === "]") inClass = false;
+        else if (c === "/" && !inClass) break;
+        j++;
+      }
+      if (content[j] === "/") {
+        j++;
+        while (j < content.length && IDENT_PART.test(content[j]!)) j++;
+        tokens.push({ type: "regex", value: content.slice(i, j), line });
+        i = j;
+        continue;
+      }
+      // Not a regex after all: fall through and treat "/" as punctuation
+    }
+
+    if (IDENT_START.test(char)) {
+      let j = i + 1;
+      while (j < content.length && IDENT_PART.test(content[j]!)) j++;
+      tokens.push({ type: "ident", value: content.slice(i, j), line });
+      i = j;
+      continue;
+    }
+
+    if (/[0-9]/.test(char) || (char === "." && next !== undefined && /[0-9]/.test(next))) {
+      let j = i + 1;
+      while (j < content.length && /[\w.]/.test(content[j]!)) j++;
+      tokens.push({ type: "number", value: content.slice(i, j), line });
+      i = j;
+      continue;
+    }
+
+    // Spread "..." is kept as one token so it isn't mistaken for member access
+    if (char === "." && next === "." && content[i + 2] === ".") {
+      tokens.push({ type: "punct", value: "...", line });
+      i += 3;
+      continue;
+    }
 
+    tokens.push({ type: "punct", value: char, line });
+    i++;
+  }
+
+  return tokens;
+}
+
+/**
+ * Recursive-descent reader over the token stream for import-related syntax
+ */
+function parseImports(tokens: Token[]): ImportEntry[] {
   const entries: ImportEntry[] = [];
-  const cleaned = stripSingleLineComments(content);
-  const lines = content.split("\n");
+  let pos = 0;
 
-  // Helper to find line number for a character offset in cleaned content
-  function lineNumberAt(offset: number): number {
-    const before = cleaned.slice(0, offset);
-    return before.split("\n").length;
+  function peek(offset = 0): Token | undefined {
+    return tokens[pos + offset];
   }
 
-  // ES6 static imports (including multiline destructuring)
-  // Matches: import ... from 'source' and import 'source'
-  const es6Regex =
-    /^\s*import\s+(type\s+)?(?:[\s\S]*?\s+from\s+)?['"]([^'"]+)['"]/gm;
-  let match: RegExpExecArray | null;
+  function isPunct(token: Token | undefined, value: string): boolean {
+    return token?.type === "punct" && token.value === value;
+  }
 
-  while ((match = es6Regex.exec(cleaned)) !== null) {
-    const isType = !!match[1];
-    if (isType && !includeTypeImports) continue;
-    entries.push({
-      source: match[2],
-      line: lineNumberAt(match.index),
-      isTypeImport: isType,
-      isDynamic: false,
-      isRequire: false,
-    });
+  function isIdent(token: Token | undefined, value?: string): boolean {
+    return token?.type === "ident" && (value === undefined || token.value === value);
   }
 
-  // Re-exports: export * from 'source' and export { ... } from 'source'
-  const reExportRegex =
-    /^\s*export\s+(?:\*|\{[\s\S]*?\})\s+from\s+['"]([^'"]+)['"]/gm;
-  while ((match = reExportRegex.exec(cleaned)) !== null) {
+  function push(
+    source: string,
+    line: number,
+    kind: ImportKind,
+    bindings: ImportBinding[] = [],
+    statementTypeOnly = false
+  ): void {
+    const allBindingsTypeOnly = bindings.length > 0 && bindings.every((b) => b.isTypeOnly);
     entries.push({
-      source: match[1],
-      line: lineNumberAt(match.index),
-      isTypeImport: false,
-      isDynamic: false,
-      isRequire: false,
+      source,
+      line,
+      kind,
+      bindings,
+      isTypeImport: statementTypeOnly || allBindingsTypeOnly,
+      isDynamic: kind === "dynamic" || kind === "glob",
+      isRequire: kind === "require",
+      isReExport: kind === "export",
     });
   }
 
-  // Dynamic imports: import('source')
-  if (includeDynamicImports) {
-    const dynamicRegex = /\bimport\s*\(\s*['"]([^'"]+)['"]\s*\)/g;
-    while ((match = dynamicRegex.exec(cleaned)) !== null) {
-      entries.push({
-        source: match[1],
-        line: lineNumberAt(match.index),
-        isTypeImport: false,
-        isDynamic: true,
-        isRequire: false,
-      });
+  /**
+   * Identifiers and string literals can both name a specifier (`{ "a-b" as ab }`)
+   */
+  function isName(token: Token | undefined): boolean {
+    return token?.type === "ident" || token?.type === "string";
+  }
+
+  /**
+   * Parse `{ a, b as c, type d }` starting at "{". Returns null on malformed input.
+   */
+  function parseNamedBindings(statementTypeOnly: boolean): ImportBinding[] | null {
+    const bindings: ImportBinding[] = [];
+    pos++; // {
+
+    while (pos < tokens.length && !isPunct(peek(), "}")) {
+      let isTypeOnly = statementTypeOnly;
+
+      // `type` is a modifier unless it names the binding itself: `{ type }`, `{ type as t }`
+      if (isIdent(peek(), "type") && isName(peek(1))) {
+        const renamesType =
+          isIdent(peek(1), "as") && isName(peek(2)) && !isIdent(peek(2), "as");
+        if (!renamesType) {
+          isTypeOnly = true;
+          pos++;
+        }
+      }
+
+      const nameToken = peek();
+      if (!nameToken || !isName(nameToken)) return null;
+      pos++;
+
+      let alias = nameToken.value;
+      if (isIdent(peek(), "as")) {
+        const aliasToken = peek(1);
+        if (!aliasToken || !isName(aliasToken)) return null;
+        alias = aliasToken.value;
+        pos += 2;
+      }
+
+      bindings.push({ imported: nameToken.value, local: alias, isTypeOnly });
+
+      if (isPunct(peek(), ",")) pos++;
+      else if (!isPunct(peek(), "}")) return null;
+    }
+
+    pos++; // }
+    return bindings;
+  }
+
+  /**
+   * Expect `from "source"` at the current position
+   */
+  function parseFromClause(): Token | null {
+    if (!isIdent(peek(), "from") || peek(1)?.type !== "string") return null;
+    const source = peek(1)!;
+    pos += 2;
+    return source;
+  }
+
+  function parseImport(): void {
+    const importToken = peek()!;
+    const next = peek(1);
+
+    // import("x")
+    if (isPunct(next, "(")) {
+      const source = peek(2);
+      if (source?.type === "string" && (isPunct(peek(3), ")") || isPunct(peek(3), ","))) {
+        push(source.value, importToken.line, "dynamic");
+        pos += 4;
+      }
+      return;
+    }
+
+    // import.meta.glob("pattern") / import.meta.glob(["a", "b"])
+    if (isPunct(next, ".")) {
+      if (isIdent(peek(2), "meta") && isPunct(peek(3), ".") && isIdent(peek(4), "glob")) {
+        pos += 5;
+        skipTypeArguments();
+        if (isPunct(peek(), "(")) {
+          pos++;
+          parseGlobPatterns(importToken.line);
+        }
+      }
+      return;
+    }
+
+    pos++; // import
+
+    // `import type X from`, `import type { }`, `import type * as` — but in
+    // `import type from "x"` and `import type, { a } from "x"` it is the default binding
+    let statementTypeOnly = false;
+    if (isIdent(peek(), "type")) {
+      const after = peek(1);
+      const typeIsBinding =
+        isPunct(after, ",") ||
+        isPunct(after, "=") ||
+        (isIdent(after, "from") && peek(2)?.type === "string");
+      if (!typeIsBinding) {
+        statementTypeOnly = true;
+        pos++;
+      }
+    }
+
+    // import "x"
+    if (peek()?.type === "string") {
+      push(peek()!.value, importToken.line, "import");
+      pos++;
+      return;
+    }
+
+    const bindings: ImportBinding[] = [];
+
+    // Default binding or `import x = require("x")`
+    const isFromClause = isIdent(peek(), "from") && peek(1)?.type === "string";
+    if (peek()?.type === "ident" && !isFromClause) {
+      const local = peek()!.value;
+      pos++;
+
+      if (isPunct(peek(), "=")) {
+        pos++;
+        if (
+          isIdent(peek(), "require") &&
+          isPunct(peek(1), "(") &&
+          peek(2)?.type === "string" &&
+          isPunct(peek(3), ")")
+        ) {
+          const binding = { imported: "default", local, isTypeOnly: statementTypeOnly };
+          push(peek(2)!.value, importToken.line, "equals", [binding], statementTypeOnly);
+          pos += 4;
+        }
+        return;
+      }
+
+      bindings.push({ imported: "default", local, isTypeOnly: statementTypeOnly });
+      if (isPunct(peek(), ",")) pos++;
+    }
+
+    // Namespace binding
+    if (isPunct(peek(), "*")) {
+      if (!isIdent(peek(1), "as") || peek(2)?.type !== "ident") return;
+      bindings.push({ imported: "*", local: peek(2)!.value, isTypeOnly: statementTypeOnly });
+      pos += 3;
+    } else if (isPunct(peek(), "{")) {
+      const named = parseNamedBindings(statementTypeOnly);
+      if (!named) return;
+      bindings.push(...named);
+    }
+
+    const source = parseFromClause();
+    if (!source) return;
+    push(source.value, importToken.line, "import", bindings, statementTypeOnly);
+  }
+
+  function parseExport(): void {
+    const exportToken = peek()!;
+    const start = pos;
+    pos++; // export
+
+    let statementTypeOnly = false;
+    if (isIdent(peek(), "type") && (isPunct(peek(1), "{") || isPunct(peek(1), "*"))) {
+      statementTypeOnly = true;
+      pos++;
+    }
+
+    let bindings: ImportBinding[] = [];
+
+    if (isPunct(peek(), "*")) {
+      pos++;
+      if (isIdent(peek(), "as")) {
+        const name = peek(1);
+        if (name?.type !== "ident" && name?.type !== "string") return;
+        bindings = [{ imported: "*", local: name.value, isTypeOnly: statementTypeOnly }];
+        pos += 2;
+      }
+    } else if (isPunct(peek(), "{")) {
+      const named = parseNamedBindings(statementTypeOnly);
+      if (!named) return;
+      bindings = named;
+    } else {
+      // `export const ...`, `export default ...` etc. are not imports;
+      // step past the keyword only so the statement body is still scanned
+      pos = start + 1;
+      return;
+    }
+
+    const source = parseFromClause();
+    if (!source) return; // Local `export { a }`
+    push(source.value, exportToken.line, "export", bindings, statementTypeOnly);
+  }
+
+  function parseRequire(): void {
+    const requireToken = peek()!;
+    const prev = tokens[pos - 1];
+
+    // Skip declarations such as `function require(...)`
+    if (isIdent(prev, "function")) return;
+
+    if (isPunct(peek(1), "(") && peek(2)?.type === "string" && isPunct(peek(3), ")")) {
+      push(peek(2)!.value, requireToken.line, "require");
+      pos += 4;
+    }
+  }
+
+  function parseGlobPatterns(line: number): void {
+    if (peek()?.type === "string") {
+      push(peek()!.value, line, "glob");
+      pos++;
+      return;
+    }
+
+    if (isPunct(peek(), "[")) {
+      pos++;
+      while (peek()?.type === "string") {
+        push(peek()!.value, line, "glob");
+        pos++;
+        if (isPunct(peek(), ",")) pos++;
+      }
     }
   }
 
-  // Require calls: require('source')
-  if (includeRequire) {
-    const requireRegex = /\brequire\s*\(\s*['"]([^'"]+)['"]\s*\)/g;
-    while ((match = requireRegex.exec(cleaned)) !== null) {
-      entries.push({
-        source: match[1],
-        line: lineNumberAt(match.index),
-        isTypeImport: false,
-        isDynamic: false,
-        isRequire: true,
-      });
+  /**
+   * Skip `<...>` generic arguments, e.g. `import.meta.glob<Module>(...)`
+   */
+  function skipTypeArguments(): void {
+    if (!isPunct(peek(), "<")) return;
+    let depth = 0;
+    while (pos < tokens.length) {
+      const token = peek()!;
+      if (isPunct(token, "<")) depth++;
+      else if (isPunct(token, ">")) depth--;
+      pos++;
+      if (depth === 0) return;
     }
   }
 
+  while (pos < tokens.length) {
+    const token = tokens[pos]!;
+    const prev = tokens[pos - 1];
+    const isMemberAccess = prev?.type === "punct" && prev.value === ".";
+
+    if (token.type === "ident" && !isMemberAccess) {
+      const start = pos;
+      if (token.value === "import") parseImport();
+      else if (token.value === "export") parseExport();
+      else if (token.value === "require") parseRequire();
+      if (pos !== start) continue;
+    }
+
+    pos++;
+  }
+
   return entries;
 }
+
+/**
+ * Apply the include* options to already-extracted imports
+ */
+export function filterImports(entries: ImportEntry[], options?: ExtractOptions): ImportEntry[] {
+  const includeTypeImports = options?.includeTypeImports ?? true;
+  const includeDynamicImports = options?.includeDynamicImports ?? true;
+  const includeRequire = options?.includeRequire ?? true;
+
+  return entries.filter((entry) => {
+    if (entry.isTypeImport && !includeTypeImports) return false;
+    if (entry.isDynamic && !includeDynamicImports) return false;
+    if (entry.isRequire && !includeRequire) return false;
+    return true;
+  });
+}
+
+/**
+ * Extract import-like references from JS/TS source.
+ * Comments, string contents and template literal text are never mistaken for imports.
+ */
+export function extractImports(
+  content: string,
+  options?: ExtractOptions
+): ImportEntry[] {
+  return filterImports(parseImports(tokenize(content)), options);
+}
+
+/**
+ * Extract the comments of JS/TS source, so text inside string and template literals is never
+ * mistaken for one
+ */
+export function extractComments(content: string): SourceComment[] {
+  const comments: SourceComment[] = [];
+  tokenize(content, comments);
+  return comments;
+}
+
+// Declaration keywords that name the exported binding directly: `export class Foo`
+const DECLARATION_KEYWORDS = new Set(["function", "class", "interface", "type", "enum", "namespace", "module"]);
+const DECLARATION_MODIFIERS = new Set(["declare", "async", "abstract"]);
+const TYPE_DECLARATIONS = new Set(["interface", "type"]);
+// Keywords that start a new statement, ending an initializer written without a semicolon
+const STATEMENT_KEYWORDS = new Set(["export", "import", "const", "let", "var", "function", "class", "interface", "enum"]);
+
+/**
+ * Extract the names a module exports through its own declarations:
+ * `export const a`, `export function b`, `export default`, `export { c as d }` and so on.
+ * Re-exports (`export ... from "x"`) are imports and come from extractImports.
+ * Only top-level exports are returned, so `declare module "x" { export ... }` blocks are skipped.
+ */
+export function extractExports(content: string): ExportEntry[] {
+  const tokens = tokenize(content);
+  const exports: ExportEntry[] = [];
+  let depth = 0;
+
+  const isPunct = (token: Token | undefined, value: string) => token?.type === "punct" && token.value === value;
+  const isIdent = (token: Token | undefined, value?: string) =>
+    token?.type === "ident" && (value === undefined || token.value === value);
+
+  // Position of the first `stops` token outside brackets, of an unmatched closing bracket,
+  // or of a declaration keyword starting a new line (statements without semicolons)
+  const skipExpression = (from: number, stops: string[]): number => {
+    let nesting = 0;
+    let end = from;
+    for (; end < tokens.length; end++) {
+      const part = tokens[end]!;
+      if (part.type === "ident" && nesting === 0 && end > from && STATEMENT_KEYWORDS.has(part.value)) {
+        if (tokens[end - 1]!.line < part.line) break;
+      }
+      if (part.type !== "punct") continue;
+      if (nesting === 0 && stops.includes(part.value)) break;
+      if (part.value === "(" || part.value === "[" || part.value === "{") {
+        nesting++;
+      } else if (part.value === ")" || part.value === "]" || part.value === "}") {
+        if (nesting === 0) break;
+        nesting--;
+      }
+    }
+    return end;
+  };
+
+  // Collect the names bound by an identifier or destructuring pattern; returns the position after it
+  const readBinding = (from: number, names: string[]): number => {
+    const first = tokens[from];
+    if (isIdent(first)) {
+      names.push(first!.value);
+      return from + 1;
+    }
+    const close = isPunct(first, "{") ? "}" : isPunct(first, "[") ? "]" : null;
+    if (!close) return from;
+
+    let at = from + 1;
+    while (at < tokens.length && !isPunct(tokens[at], close)) {
+      if (isPunct(tokens[at], ",")) {
+        at++; // Array hole
+        continue;
+      }
+      if (isPunct(tokens[at], "...")) at++;
+      // In object patterns `key: target` binds the target; a computed key is skipped whole
+      const keyEnd = isPunct(tokens[at], "[") ? skipExpression(at + 1, []) + 1 : at + 1;
+      at = close === "}" && isPunct(tokens[keyEnd], ":") ? readBinding(keyEnd + 1, names) : readBinding(at, names);
+      // Default values are expressions, not bindings
+      at = skipExpression(at, [","]);
+      if (isPunct(tokens[at], ",")) at++;
+    }
+    return at + 1;
+  };
+
+  // Whether another declarator (a name or pattern, not a type argument) starts here
+  const isDeclaratorStart = (at: number): boolean => {
+    if (isPunct(tokens[at], "{") || isPunct(tokens[at], "[")) return true;
+    if (!isIdent(tokens[at])) return false;
+    const after = tokens[at + 1];
+    return !after || after.line > tokens[at]!.line || ["=", ":", ",", ";", "!"].some((value) => isPunct(after, value));
+  };
+
+  for (let pos = 0; pos < tokens.length; pos++) {
+    const token = tokens[pos]!;
+    if (isPunct(token, "{")) depth++;
+    if (isPunct(token, "}")) depth = Math.max(0, depth - 1);
+    if (depth > 0 || !isIdent(token, "export") || isPunct(tokens[pos - 1], ".")) continue;
+
+    const line = token.line;
+    let next = pos + 1;
+
+    if (isIdent(tokens[next], "default")) {
+      exports.push({ name: "default", line, isTypeOnly: false });
+      continue;
+    }
+
+    // `export { a, b as c }` / `export type { a }`, unless followed by `from`
+    const typeList = isIdent(tokens[next], "type") && isPunct(tokens[next + 1], "{");
+    if (typeList || isPunct(tokens[next], "{")) {
+      let end = next + (typeList ? 2 : 1);
+      const names: ExportEntry[] = [];
+      while (end < tokens.length && !isPunct(tokens[end], "}")) {
+        let isTypeOnly = typeList;
+        if (isIdent(tokens[end], "type") && !isPunct(tokens[end + 1], ",") && !isPunct(tokens[end + 1], "}") && !isIdent(tokens[end + 1], "as")) {
+          isTypeOnly = true;
+          end++;
+        }
+        let name = tokens[end]?.value ?? "";
+        end++;
+        if (isIdent(tokens[end], "as")) {
+          name = tokens[end + 1]?.value ?? name;
+          end += 2;
+        }
+        if (name) names.push({ name, line, isTypeOnly });
+        if (isPunct(tokens[end], ",")) end++;
+      }
+      if (!isIdent(tokens[end + 1], "from")) exports.push(...names);
+      continue;
+    }
+
+    while (isIdent(tokens[next]) && DECLARATION_MODIFIERS.has(tokens[next]!.value)) next++;
+    const keyword = tokens[next];
+    if (!isIdent(keyword)) continue;
+
+    if (keyword!.value === "const" && isIdent(tokens[next + 1], "enum")) next++;
+    const declaration = tokens[next]!.value;
+
+    if (DECLARATION_KEYWORDS.has(declaration)) {
+      const nameToken = isPunct(tokens[next + 1], "*") ? tokens[next + 2] : tokens[next + 1];
+      if (isIdent(nameToken)) {
+        exports.push({ name: nameToken!.value, line, isTypeOnly: TYPE_DECLARATIONS.has(declaration) });
+      }
+    } else if (declaration === "const" || declaration === "let" || declaration === "var") {
+      // `export const a = 1, { b, c: d = e } = obj;` exports a, b and d
+      let at = next + 1;
+      while (at < tokens.length) {
+        const names: string[] = [];
+        at = readBinding(at, names);
+        exports.push(...names.map((name) => ({ name, line, isTypeOnly: false })));
+
+        // Skip the type annotation and initializer; commas inside generics are not declarators
+        let end = skipExpression(at, [",", ";"]);
+        while (isPunct(tokens[end], ",") && !isDeclaratorStart(end + 1)) {
+          end = skipExpression(end + 1, [",", ";"]);
+        }
+        if (!isPunct(tokens[end], ",")) break;
+        at = end + 1;
+      }
+    }
+  }
+
+  return exports;
+}
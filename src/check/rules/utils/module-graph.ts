@@ -0,0 +1,117 @@
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
+import type { ExtractOptions, ImportEntry, ModuleResolver, RuleRunnerOptions } from "../types";
+import { extractImports } from "./import-extractor";
+import { createModuleResolver } from "./module-resolver";
+import { readProjectImports } from "./project-index";
+
+// Files whose imports are tracked in the graph
+export const MODULE_FILE_PATTERN = /\.(?:[cm]?[jt]sx?)$/;
+
+/**
+ * Import graph between project files (paths relative to cwd).
+ * Only imports that resolve to project files become edges; packages are left out.
+ */
+export interface ModuleGraph {
+  imports: Map<string, Set<string>>; // file → files it imports
+  importers: Map<string, Set<string>>; // file → files that import it
+  update(file: string, resolver: ModuleResolver): void; // Re-read a file and replace its outgoing edges
+  remove(file: string): void; // Drop a file and its outgoing edges
+  dependentsOf(files: Iterable<string>): Set<string>; // Direct importers of any of the files
+}
+
+/**
+ * Build a module graph from a list of files
+ */
+export function createModuleGraph(files: string[], cwd: string, resolver: ModuleResolver): ModuleGraph {
+  const imports = new Map<string, Set<string>>();
+  const importers = new Map<string, Set<string>>();
+
+  const remove = (file: string): void => {
+    for (const target of imports.get(file) ?? []) {
+      importers.get(target)?.delete(file);
+    }
+    imports.delete(file);
+  };
+
+  const update = (file: string, currentResolver: ModuleResolver): void => {
+    remove(file);
+
+    let content: string;
+    try {
+      content = readFileSync(join(cwd, file), "utf-8");
+    } catch {
+      return;
+    }
+
+    const targets = new Set<string>();
+    for (const imp of extractImports(content)) {
+      const resolved = currentResolver.resolve(imp.source, file);
+      if (resolved && resolved !== file) targets.add(resolved);
+    }
+
+    imports.set(file, targets);
+    for (const target of targets) {
+      const set = importers.get(target) ?? new Set<string>();
+      set.add(file);
+      importers.set(target, set);
+    }
+  };
+
+  for (const file of files) {
+    if (MODULE_FILE_PATTERN.test(file)) update(file, resolver);
+  }
+
+  return {
+    imports,
+    importers,
+    update,
+    remove,
+    dependentsOf(changed: Iterable<string>): Set<string> {
+      const dependents = new Set<string>();
+      for (const file of changed) {
+        for (const importer of importers.get(file) ?? []) {
+          dependents.add(importer);
+        }
+      }
+      return dependents;
+    },
+  };
+}
+
+/**
+ * Resolved imports between a set of files (paths relative to cwd), for rules that analyze
+ * the import graph: file → imported file → the first import statement of that file.
+ * Imports of files outside the set, packages and self-imports are left out.
+ */
+export function buildImportEdges(
+  files: string[],
+  options: RuleRunnerOptions,
+  extractOptions?: ExtractOptions
+): Map<string, Map<string, ImportEntry>> {
+  const resolver = options.moduleResolver ?? createModuleResolver(options.cwd);
+  const fileSet = new Set(files);
+  const edges = new Map<string, Map<string, ImportEntry>>();
+
+  for (const file of files) {
+    const targets = new Map<string, ImportEntry>();
+    edges.set(file, targets);
+    if (!MODULE_FILE_PATTERN.test(file)) continue;
+
+    let imports: ImportEntry[];
+    try {
+      imports = readProjectImports(file, options, extractOptions);
+    } catch {
+      continue;
+    }
+
+    for (const imp of imports) {
+      const resolved = resolver.resolve(imp.source, file);
+      if (resolved && resolved !== file && fileSet.has(resolved) && !targets.has(resolved)) {
+        targets.set(resolved, imp);
+      }
+    }
+  }
+
+  return edges;
+}
@@ -0,0 +1,101 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { dirname, join } from "node:path";
+import { createModuleResolver } from "./module-resolver";
+
+let cwd: string;
+
+const write = (file: string, content = "") => {
+  mkdirSync(dirname(join(cwd, file)), { recursive: true });
+  writeFileSync(join(cwd, file), content);
+};
+
+beforeEach(() => {
+  cwd = mkdtempSync(join(tmpdir(), "chaperone-resolver-"));
+});
+
+afterEach(() => {
+  rmSync(cwd, { recursive: true, force: true });
+});
+
+describe("createModuleResolver", () => {
+  test("resolves relative imports with extensions, source extensions and directory indexes", () => {
+    write("src/a.ts");
+    write("src/b.tsx");
+    write("src/c.js");
+    write("src/lib/index.ts");
+    write("src/view.tsx");
+    const resolver = createModuleResolver(cwd);
+
+    expect(resolver.resolve("./a", "src/main.ts")).toBe("src/a.ts");
+    expect(resolver.resolve("./b", "src/main.ts")).toBe("src/b.tsx");
+    expect(resolver.resolve("./a.js", "src/main.ts")).toBe("src/a.ts");
+    expect(resolver.resolve("./view.jsx", "src/main.ts")).toBe("src/view.tsx");
+    expect(resolver.resolve("./c.js", "src/main.ts")).toBe("src/c.js");
+    expect(resolver.resolve("./lib", "src/main.ts")).toBe("src/lib/index.ts");
+    expect(resolver.resolve("../a", "src/lib/index.ts")).toBe("src/a.ts");
+    expect(resolver.resolve("./missing", "src/main.ts")).toBeNull();
+    expect(resolver.resolve("react", "src/main.ts")).toBeNull();
+  });
+
+  test("resolves paths and baseUrl only with useTypescriptPaths", () => {
+    write(
+      "tsconfig.json",
+      `{
+        // Comments are allowed
+        "compilerOptions": {
+          "baseUrl": "src",
+          "paths": { "@/*": ["app/*"], "@ui/*": ["app/ui/*", "fallback/*"], "config": ["app/config.ts"] }
+        }
+      }`
+    );
+    write("src/app/a.ts");
+    write("src/app/ui/button.ts");
+    write("src/fallback/icon.ts");
+    write("src/app/config.ts");
+    write("src/shared/util.ts");
+
+    const resolver = createModuleResolver(cwd, { useTypescriptPaths: true });
+    expect(resolver.resolve("@/a", "src/main.ts")).toBe("src/app/a.ts");
+    // The longest wildcard prefix wins, then each target is tried in order
+    expect(resolver.resolve("@ui/button", "src/main.ts")).toBe("src/app/ui/button.ts");
+    expect(resolver.resolve("@ui/icon", "src/main.ts")).toBe("src/fallback/icon.ts");
+    expect(resolver.resolve("config", "src/main.ts")).toBe("src/app/config.ts");
+    expect(resolver.resolve("shared/util", "src/main.ts")).toBe("src/shared/util.ts");
+    expect(resolver.resolve("react", "src/main.ts")).toBeNull();
+
+    expect(createModuleResolver(cwd).resolve("@/a", "src/main.ts")).toBeNull();
+  });
+
+  test("follows tsconfig extends, with paths relative to the config declaring them", () => {
+    write("node_modules/@acme/tsconfig/base.json", JSON.stringify({ compilerOptions: { baseUrl: "../../../src" } }));
+    write("config/tsconfig.paths.json", JSON.stringify({ compilerOptions: { paths: { "#lib/*": ["../lib/*"] } } }));
+    write("tsconfig.json", JSON.stringify({ extends: "@acme/tsconfig/base.json" }));
+    write("tsconfig.paths.json", JSON.stringify({ extends: "./config/tsconfig.paths" }));
+    write("src/shared/util.ts");
+    write("lib/format.ts");
+
+    // baseUrl from a package config is relative to that config
+    const fromPackage = createModuleResolver(cwd, { useTypescriptPaths: true });
+    expect(fromPackage.resolve("shared/util", "src/main.ts")).toBe("src/shared/util.ts");
+
+    // Without a baseUrl, inherited paths resolve from config/
+    const fromPaths = createModuleResolver(cwd, { useTypescriptPaths: true, tsconfigPath: "tsconfig.paths.json" });
+    expect(fromPaths.resolve("#lib/format", "src/main.ts")).toBe("lib/format.ts");
+    expect(fromPaths.resolve("shared/util", "src/main.ts")).toBeNull();
+  });
+
+  test("uses a custom tsconfigPath and changes the cache key with the settings", () => {
+    write("tsconfig.build.json", JSON.stringify({ compilerOptions: { paths: { "~/*": ["src/*"] } } }));
+    write("src/a.ts");
+
+    const custom = createModuleResolver(cwd, { useTypescriptPaths: true, tsconfigPath: "tsconfig.build.json" });
+    expect(custom.resolve("~/a", "src/main.ts")).toBe("src/a.ts");
+    expect(createModuleResolver(cwd, { useTypescriptPaths: true }).resolve("~/a", "src/main.ts")).toBeNull();
+
+    const relativeOnly = createModuleResolver(cwd).cacheKey;
+    expect(custom.cacheKey).not.toBe(relativeOnly);
+    expect(createModuleResolver(cwd).cacheKey).toBe(relativeOnly);
+  });
+});
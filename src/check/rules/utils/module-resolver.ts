@@ -0,0 +1,225 @@
+import { createHash } from "node:crypto";
+import { existsSync, readFileSync, statSync } from "node:fs";
+import { dirname, isAbsolute, join, relative, resolve } from "node:path";
+import { parseJsonc } from "../../../utils/jsonc";
+import type { ModuleResolver } from "../types";
+
+const EXTENSIONS_TO_TRY = [".ts", ".tsx", ".js", ".jsx"];
+
+// TypeScript projects commonly import "./foo.js" while the source is "./foo.ts"
+const SOURCE_EXTENSION_MAP: Record<string, string[]> = {
+  ".js": [".ts", ".tsx"],
+  ".jsx": [".tsx"],
+  ".mjs": [".mts"],
+  ".cjs": [".cts"],
+};
+
+export interface ModuleResolverOptions {
+  useTypescriptPaths?: boolean;
+  tsconfigPath?: string; // Relative to cwd, defaults to "tsconfig.json"
+}
+
+interface TsconfigPaths {
+  baseUrl: string | null; // Absolute
+  paths: Record<string, string[]>;
+  pathsBase: string; // Absolute directory that `paths` targets are relative to
+}
+
+interface RawTsconfig {
+  extends?: string | string[];
+  compilerOptions?: {
+    baseUrl?: string;
+    paths?: Record<string, string[]>;
+  };
+}
+
+function isFile(path: string): boolean {
+  try {
+    return statSync(path).isFile();
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Locate the file referenced by a tsconfig `extends` entry
+ */
+function resolveExtendsPath(specifier: string, fromDir: string): string | null {
+  const candidates: string[] = [];
+
+  if (specifier.startsWith(".") || isAbsolute(specifier)) {
+    const base = resolve(fromDir, specifier);
+    candidates.push(base, `${base}.json`);
+  } else {
+    // Package specifier: walk up node_modules directories
+    let dir = fromDir;
+    while (true) {
+      const base = join(dir, "node_modules", specifier);
+      candidates.push(base, `${base}.json`, join(base, "tsconfig.json"));
+      const parent = dirname(dir);
+      if (parent === dir) break;
+      dir = parent;
+    }
+  }
+
+  return candidates.find(isFile) ?? null;
+}
+
+/**
+ * Read baseUrl/paths from a tsconfig, following its `extends` chain.
+ * Settings from the extending config override those it inherits.
+ */
+function loadTsconfigPaths(configPath: string, seen = new Set<string>()): TsconfigPaths | null {
+  if (seen.has(configPath)) return null;
+  seen.add(configPath);
+
+  let raw: RawTsconfig;
+  try {
+    raw = parseJsonc<RawTsconfig>(readFileSync(configPath, "utf-8"));
+  } catch {
+    return null;
+  }
+
+  const configDir = dirname(configPath);
+  let inherited: TsconfigPaths | null = null;
+
+  const parents = raw.extends === undefined ? [] : Array.isArray(raw.extends) ? raw.extends : [raw.extends];
+  for (const parent of parents) {
+    const parentPath = resolveExtendsPath(parent, configDir);
+    if (!parentPath) continue;
+    const loaded = loadTsconfigPaths(parentPath, seen);
+    if (!loaded) continue;
+    inherited = inherited
+      ? {
+          baseUrl: loaded.baseUrl ?? inherited.baseUrl,
+          paths: Object.keys(loaded.paths).length > 0 ? loaded.paths : inherited.paths,
+          pathsBase: Object.keys(loaded.paths).length > 0 ? loaded.pathsBase : inherited.pathsBase,
+        }
+      : loaded;
+  }
+
+  const options = raw.compilerOptions ?? {};
+  const baseUrl = options.baseUrl !== undefined ? resolve(configDir, options.baseUrl) : inherited?.baseUrl ?? null;
+  const paths = options.paths ?? inherited?.paths ?? {};
+  const pathsBase = options.paths ? configDir : inherited?.pathsBase ?? configDir;
+
+  // Without baseUrl, paths are relative to the config that declared them
+  return { baseUrl, paths, pathsBase: baseUrl ?? pathsBase };
+}
+
+/**
+ * Find the `paths` targets for a specifier, preferring exact keys and then
+ * the wildcard pattern with the longest prefix (TypeScript's own precedence)
+ */
+function matchPaths(specifier: string, paths: Record<string, string[]>): string[] {
+  if (paths[specifier]) return paths[specifier];
+
+  let best: { prefix: string; targets: string[]; captured: string } | null = null;
+
+  for (const [pattern, targets] of Object.entries(paths)) {
+    const star = pattern.indexOf("*");
+    if (star === -1) continue;
+
+    const prefix = pattern.slice(0, star);
+    const suffix = pattern.slice(star + 1);
+    if (
+      specifier.length >= prefix.length + suffix.length &&
+      specifier.startsWith(prefix) &&
+      specifier.endsWith(suffix) &&
+      (!best || prefix.length > best.prefix.length)
+    ) {
+      best = { prefix, targets, captured: specifier.slice(prefix.length, specifier.length - suffix.length) };
+    }
+  }
+
+  if (!best) return [];
+  return best.targets.map((target) => target.replace("*", best!.captured));
+}
+
+/**
+ * Try an absolute path as a file, with source extensions, and as a directory index
+ */
+function resolveAsFile(absolutePath: string): string | null {
+  if (isFile(absolutePath)) return absolutePath;
+
+  const ext = Object.keys(SOURCE_EXTENSION_MAP).find((e) => absolutePath.endsWith(e));
+  if (ext) {
+    const stem = absolutePath.slice(0, -ext.length);
+    for (const sourceExt of SOURCE_EXTENSION_MAP[ext]!) {
+      if (isFile(stem + sourceExt)) return stem + sourceExt;
+    }
+  }
+
+  for (const candidateExt of EXTENSIONS_TO_TRY) {
+    if (isFile(absolutePath + candidateExt)) return absolutePath + candidateExt;
+  }
+
+  for (const candidateExt of EXTENSIONS_TO_TRY) {
+    const indexPath = join(absolutePath, `index${candidateExt}`);
+    if (isFile(indexPath)) return indexPath;
+  }
+
+  return null;
+}
+
+/**
+ * Create a resolver that maps import specifiers to project files (relative to cwd).
+ * Relative specifiers are always resolved; with `useTypescriptPaths` the tsconfig
+ * `baseUrl` and `paths` settings are honored as well. Bare package imports that
+ * don't match an alias resolve to null.
+ */
+export function createModuleResolver(cwd: string, options: ModuleResolverOptions = {}): ModuleResolver {
+  const tsconfigPath = join(cwd, options.tsconfigPath ?? "tsconfig.json");
+  // Every config in the extends chain, including ones outside cwd (e.g. a shared package)
+  const chain = new Set<string>();
+  const tsconfig = options.useTypescriptPaths && existsSync(tsconfigPath) ? loadTsconfigPaths(tsconfigPath, chain) : null;
+  const cache = new Map<string, string | null>();
+
+  const key = createHash("sha256").update(JSON.stringify([options.useTypescriptPaths ?? false, tsconfigPath]));
+  for (const path of chain) {
+    let content = "";
+    try {
+      content = readFileSync(path, "utf-8");
+    } catch {}
+    key.update(`\0${path}\0${content}`);
+  }
+  const cacheKey = key.digest("hex").slice(0, 16);
+
+  const toProjectPath = (absolutePath: string | null): string | null => {
+    if (!absolutePath) return null;
+    const rel = relative(cwd, absolutePath);
+    if (rel.startsWith("..") || isAbsolute(rel)) return null;
+    return rel.split("\\").join("/");
+  };
+
+  const resolveUncached = (specifier: string, importingDir: string): string | null => {
+    if (specifier.startsWith("./") || specifier.startsWith("../") || specifier === "." || specifier === "..") {
+      return toProjectPath(resolveAsFile(resolve(importingDir, specifier)));
+    }
+
+    if (!tsconfig) return null;
+
+    for (const target of matchPaths(specifier, tsconfig.paths)) {
+      const found = resolveAsFile(resolve(tsconfig.pathsBase, target));
+      if (found) return toProjectPath(found);
+    }
+
+    if (tsconfig.baseUrl) {
+      return toProjectPath(resolveAsFile(resolve(tsconfig.baseUrl, specifier)));
+    }
+
+    return null;
+  };
+
+  return {
+    cacheKey,
+    resolve(specifier: string, importingFile: string): string | null {
+      const importingDir = dirname(join(cwd, importingFile));
+      const key = `${importingDir}\0${specifier}`;
+      if (!cache.has(key)) {
+        cache.set(key, resolveUncached(specifier, importingDir));
+      }
+      return cache.get(key)!;
+    },
+  };
+}
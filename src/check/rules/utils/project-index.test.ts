@@ -0,0 +1,54 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { dirname, join } from "node:path";
+import { createProjectIndex, readProjectFile, readProjectImports } from "./project-index";
+
+let cwd: string;
+
+const write = (file: string, content: string) => {
+  mkdirSync(dirname(join(cwd, file)), { recursive: true });
+  writeFileSync(join(cwd, file), content);
+};
+
+beforeEach(() => {
+  cwd = mkdtempSync(join(tmpdir(), "chaperone-index-"));
+  write("src/a.ts", 'import type { B } from "./b";\nimport("./lazy");\n');
+  write("src/b.ts", "export type B = 1;\n");
+  write("src/generated/c.ts", "export const c = 1;\n");
+  write("dist/out.js", "");
+  write("node_modules/dep/index.js", "");
+});
+
+afterEach(() => {
+  rmSync(cwd, { recursive: true, force: true });
+});
+
+describe("createProjectIndex", () => {
+  test("walks the project once, skipping excluded and ignored paths", () => {
+    const index = createProjectIndex(cwd, {
+      exclude: ["node_modules"],
+      isIgnored: (path, isDirectory) => isDirectory && path === "dist",
+    });
+
+    expect(index.files).toEqual(["src/a.ts", "src/b.ts", "src/generated/c.ts"]);
+    expect(index.glob("src/**/*.ts", ["**/generated/**"])).toEqual(["src/a.ts", "src/b.ts"]);
+    expect(index.glob("src/*.ts")).toEqual(["src/a.ts", "src/b.ts"]);
+    expect(index.stats.globs).toBe(2);
+  });
+
+  test("reads and parses each file once, filtering imports per caller", () => {
+    const index = createProjectIndex(cwd, { exclude: ["node_modules"] });
+    const options = { cwd, include: ["**/*"], exclude: [], index };
+
+    expect(readProjectImports("src/a.ts", options).map((imp) => imp.source)).toEqual(["./b", "./lazy"]);
+    expect(readProjectImports("src/a.ts", options, { includeTypeImports: false }).map((imp) => imp.source)).toEqual([
+      "./lazy",
+    ]);
+    expect(readProjectFile("src/a.ts", options)).toContain("import type");
+    expect(index.stats).toMatchObject({ reads: 1, readHits: 1, parses: 1, parseHits: 1 });
+
+    expect(() => readProjectFile("src/missing.ts", options)).toThrow("Cannot read src/missing.ts");
+    expect(() => readProjectImports("src/missing.ts", options)).toThrow("Cannot read src/missing.ts");
+  });
+});
@@ -0,0 +1,148 @@
+import { readdirSync, readFileSync, type Dirent } from "node:fs";
+import { join } from "node:path";
+import { compileGlob, isExcludedPath } from "../../../utils/glob";
+import type { IgnoreMatcher } from "../../../utils/ignore";
+import type { ExtractOptions, ImportEntry, ProjectIndex, ProjectIndexStats, RuleRunnerOptions } from "../types";
+import { extractImports, filterImports } from "./import-extractor";
+
+export interface ProjectIndexOptions {
+  exclude?: string[]; // Global excludes, applied to files and directories like globSync's `ignore`
+  isIgnored?: IgnoreMatcher;
+}
+
+/**
+ * Walk the project once and build an index for a single run.
+ * Contents and imports are cached, so the index must not outlive the files it was built from.
+ */
+export function createProjectIndex(cwd: string, options: ProjectIndexOptions = {}): ProjectIndex {
+  const { exclude = [], isIgnored } = options;
+  const files: string[] = [];
+
+  const walk = (dir: string): void => {
+    let entries: Dirent[];
+    try {
+      entries = readdirSync(join(cwd, dir), { withFileTypes: true });
+    } catch {
+      return;
+    }
+
+    for (const entry of entries) {
+      const path = dir ? `${dir}/${entry.name}` : entry.name;
+      const isDirectory = entry.isDirectory();
+      if (!isDirectory && !entry.isFile()) continue;
+      if (isExcludedPath(path, exclude) || isIgnored?.(path, isDirectory)) continue;
+
+      if (isDirectory) walk(path);
+      else files.push(path);
+    }
+  };
+  walk("");
+
+  return createProjectIndexFromFiles(cwd, files);
+}
+
+/**
+ * Build an index from an already-known file list (e.g. one passed to a worker thread)
+ */
+export function createProjectIndexFromFiles(cwd: string, fileList: string[]): ProjectIndex {
+  const files = [...fileList].sort();
+  const contents = new Map<string, string | null>();
+  const imports = new Map<string, ImportEntry[] | null>();
+  const stats: ProjectIndexStats = { globs: 0, reads: 0, readHits: 0, parses: 0, parseHits: 0 };
+
+  const read = (file: string): string | null => {
+    if (contents.has(file)) {
+      stats.readHits++;
+      return contents.get(file)!;
+    }
+    stats.reads++;
+    let content: string | null;
+    try {
+      content = readFileSync(join(cwd, file), "utf-8");
+    } catch {
+      content = null;
+    }
+    contents.set(file, content);
+    return content;
+  };
+
+  return {
+    files,
+    stats,
+    read,
+
+    glob(pattern: string, ruleExclude: string[] = []): string[] {
+      stats.globs++;
+      const matches = compileGlob(pattern);
+      // Rule excludes apply to every directory on the way down, as with globSync
+      return files.filter((file) => {
+        if (!matches(file)) return false;
+        if (ruleExclude.length === 0) return true;
+        const parts = file.split("/");
+        for (let i = 1; i <= parts.length; i++) {
+          if (isExcludedPath(parts.slice(0, i).join("/"), ruleExclude)) return false;
+        }
+        return true;
+      });
+    },
+
+    imports(file: string): ImportEntry[] | null {
+      if (imports.has(file)) {
+        stats.parseHits++;
+        return imports.get(file)!;
+      }
+      const content = read(file);
+      stats.parses++;
+      const entries = content === null ? null : extractImports(content);
+      imports.set(file, entries);
+      return entries;
+    },
+  };
+}
+
+/**
+ * Read a project file through the shared index when there is one.
+ * Throws like readFileSync when the file cannot be read.
+ */
+export function readProjectFile(file: string, options: RuleRunnerOptions): string {
+  if (!options.index) {
+    return readFileSync(join(options.cwd, file), "utf-8");
+  }
+  const content = options.index.read(file);
+  if (content === null) {
+    throw new Error(`Cannot read ${file}`);
+  }
+  return content;
+}
+
+/**
+ * Extract imports from a project file, reusing the index's parse when there is one.
+ * Throws when the file cannot be read.
+ */
+export function readProjectImports(
+  file: string,
+  options: RuleRunnerOptions,
+  extractOptions?: ExtractOptions
+): ImportEntry[] {
+  if (!options.index) {
+    return extractImports(readProjectFile(file, options), extractOptions);
+  }
+  const entries = options.index.imports(file);
+  if (entries === null) {
+    throw new Error(`Cannot read ${file}`);
+  }
+  return filterImports(entries, extractOptions);
+}
+
+/**
+ * Describe what the index saved, for --debug output
+ */
+export function describeIndexStats(index: ProjectIndex, ruleCount: number): string {
+  const { globs, reads, readHits, parses, parseHits } = index.stats;
+  return (
+    `Project index: ${index.files.length} file(s) walked once for ${ruleCount} rule(s); ` +
+    `${globs} glob(s) answered without a directory walk, ` +
+    `${reads} file read(s) with ${readHits} served from cache, ` +
+    `${parses} import parse(s) with ${parseHits} served from cache`
+  );
+}
@@ -0,0 +1,103 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { dirname, join } from "node:path";
+import type { ChaperoneConfig } from "../../types";
+import { runAllRules } from "../index";
+import { clearRuleCache, createRuleCache } from "./rule-cache";
+
+let root: string;
+let cwd: string;
+
+const write = (file: string, content: string) => {
+  mkdirSync(dirname(join(root, file)), { recursive: true });
+  writeFileSync(join(root, file), content);
+};
+
+const config = (useTypescriptPaths: boolean): ChaperoneConfig => ({
+  version: "1.0.0",
+  integrations: { useTypescriptPaths },
+  rules: {
+    custom: [
+      {
+        id: "layers",
+        type: "import-boundary",
+        severity: "error",
+        layers: {
+          ui: { files: "src/ui/**", allowImportsFrom: [] },
+          data: { files: "src/data/**", allowImportsFrom: [] },
+        },
+      },
+    ],
+  },
+});
+
+// A fresh cache per run, like separate `chaperone check` invocations
+const run = async (runConfig: ChaperoneConfig) => {
+  const cache = createRuleCache(cwd);
+  const { results } = await runAllRules(runConfig, { cwd, include: ["**/*"], exclude: ["node_modules"], cache });
+  cache.save();
+  return { results, stats: cache.stats };
+};
+
+const check = (useTypescriptPaths: boolean) => run(config(useTypescriptPaths));
+
+const regexConfig = (message: string): ChaperoneConfig => ({
+  version: "1.0.0",
+  rules: {
+    custom: [{ id: "no-db", type: "regex", severity: "error", pattern: "db", files: "src/**/*.ts", message }],
+  },
+});
+
+beforeEach(() => {
+  root = mkdtempSync(join(tmpdir(), "chaperone-cache-"));
+  cwd = join(root, "app");
+  // The paths live in a shared config outside the project
+  write("tsconfig.base.json", JSON.stringify({ compilerOptions: { baseUrl: "app", paths: { "@/*": ["src/*"] } } }));
+  write("app/tsconfig.json", JSON.stringify({ extends: "../tsconfig.base.json" }));
+  write("app/src/ui/page.ts", 'import { db } from "@/data/db";\n');
+  write("app/src/data/db.ts", "export const db = 1;\n");
+});
+
+afterEach(() => {
+  rmSync(root, { recursive: true, force: true });
+});
+
+describe("createRuleCache", () => {
+  test("reuses results for unchanged files", async () => {
+    await check(true);
+    const { results, stats } = await check(true);
+
+    expect(results).toHaveLength(1);
+    expect(stats).toEqual({ rules: 1, files: 2, checked: 0 });
+  });
+
+  test("re-checks import rules when resolution settings change", async () => {
+    expect((await check(false)).results).toHaveLength(0);
+    expect((await check(true)).results).toHaveLength(1);
+
+    // Edits to an extended tsconfig outside the project count too
+    write("tsconfig.base.json", JSON.stringify({ compilerOptions: { baseUrl: "app" } }));
+    expect((await check(true)).results).toHaveLength(0);
+  });
+
+  test("re-checks only edited files for per-file rules, and every file when the rule changes", async () => {
+    expect((await run(regexConfig("No db"))).stats).toEqual({ rules: 0, files: 0, checked: 2 });
+
+    write("app/src/ui/page.ts", "export const page = 1;\n");
+    const edited = await run(regexConfig("No db"));
+    expect(edited.stats).toEqual({ rules: 0, files: 1, checked: 1 });
+    expect(edited.results.map((r) => r.file)).toEqual(["src/data/db.ts"]);
+
+    const changed = await run(regexConfig("Still no db"));
+    expect(changed.stats).toEqual({ rules: 0, files: 0, checked: 2 });
+    expect(changed.results.map((r) => r.message)).toEqual(["Still no db"]);
+  });
+
+  test("starts empty after the cache is cleared", async () => {
+    expect(clearRuleCache(cwd)).toBe(false);
+    await run(regexConfig("No db"));
+    expect(clearRuleCache(cwd)).toBe(true);
+    expect((await run(regexConfig("No db"))).stats.files).toBe(0);
+  });
+});
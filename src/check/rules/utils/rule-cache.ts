@@ -0,0 +1,269 @@
+import { createHash } from "node:crypto";
+import { existsSync, mkdirSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { VERSION } from "../../../version";
+import type { CheckResult, CustomRule } from "../../types";
+import type { ProjectIndex, RuleCache, RuleCacheStats, RuleFix, RuleResult } from "../types";
+import { getRuleGlobs } from "./rule-globs";
+
+export const RULE_CACHE_DIR = "node_modules/.cache/chaperone";
+const RULE_CACHE_FILE = "rules.json";
+
+/**
+ * What a rule's results depend on, which decides how they are cached
+ *   file     — each file's path and content; results are stored per file
+ *   imports  — as `file`, plus where imports resolve (the file list, tsconfig files and resolver settings)
+ *   files    — the file list and the content of the files the rule matches; stored per rule
+ *   project  — the content of every file in the project and the resolver settings; stored per rule
+ */
+type CacheKind = "file" | "imports" | "files" | "project";
+
+const CACHE_KINDS: Record<string, CacheKind> = {
+  regex: "file",
+  "file-contract": "file",
+  "file-suffix-content": "file",
+  "component-location": "file",
+  "forbidden-import": "file",
+  "import-boundary": "imports",
+  "public-api": "imports",
+  "file-naming": "files",
+  "file-pairing": "files",
+  "file-structure": "files",
+  "package-fields": "files",
+  "symbol-reference": "files",
+  // Companions and import targets can live anywhere in the project
+  relationship: "project",
+  // A cycle depends on the imports of every file in it
+  "no-cycles": "project",
+  // Whether a file or export is used depends on every importer
+  "dead-code": "project",
+  // Move fixes rewrite the imports of the file, which can live anywhere
+  "retired-path": "project",
+  // command rules run external programs and are never cached; package-boundary reads
+  // manifests of packages outside the project, so it is not cached either
+};
+
+interface CachedResults {
+  results: CheckResult[];
+  fixes: RuleFix[];
+}
+
+interface CachedFile extends CachedResults {
+  hash: string; // File content combined with the rule's context
+}
+
+interface CachedRule {
+  key?: string; // Input hash for rules cached as a whole
+  rule?: CachedResults; // Whole-rule results, or results not tied to a checked file (e.g. config errors)
+  files: Record<string, CachedFile>;
+}
+
+interface RuleCacheFile {
+  version: string;
+  rules: Record<string, CachedRule>;
+}
+
+function hash(...parts: string[]): string {
+  return createHash("sha256").update(parts.join("\0")).digest("hex").slice(0, 16);
+}
+
+/**
+ * The file a fix belongs to, for storing it next to that file's results
+ */
+function fixOrigin(fix: RuleFix): string {
+  return fix.kind === "create" ? (fix.source ?? fix.file) : fix.file;
+}
+
+/**
+ * Indexed files matching any of the globs, in index order
+ */
+function globFiles(index: ProjectIndex, globs: string[]): string[] {
+  const matched = new Set(globs.flatMap((glob) => index.glob(glob)));
+  return index.files.filter((file) => matched.has(file));
+}
+
+/**
+ * Load the rule cache from node_modules/.cache/chaperone.
+ * A missing, unreadable or outdated cache starts empty; the chaperone version is part of every key.
+ */
+export function createRuleCache(cwd: string): RuleCache {
+  const path = join(cwd, RULE_CACHE_DIR, RULE_CACHE_FILE);
+
+  let stored: Record<string, CachedRule> = {};
+  try {
+    const parsed = JSON.parse(readFileSync(path, "utf-8")) as Partial<RuleCacheFile>;
+    if (parsed.version === VERSION && parsed.rules && typeof parsed.rules === "object") {
+      stored = parsed.rules;
+    }
+  } catch {}
+
+  // Only entries for rules seen in this run are written back, so removed or edited rules are pruned
+  const used: Record<string, CachedRule> = {};
+  const stats: RuleCacheStats = { rules: 0, files: 0, checked: 0 };
+  let dirty = false;
+
+  // Content hashes are per index, since an index is a snapshot of one point in the run
+  const contentHashes = new WeakMap<ProjectIndex, Map<string, string>>();
+  const listHashes = new WeakMap<ProjectIndex, string>();
+
+  const hashFile = (index: ProjectIndex, file: string): string => {
+    let hashes = contentHashes.get(index);
+    if (!hashes) {
+      hashes = new Map();
+      contentHashes.set(index, hashes);
+    }
+    let value = hashes.get(file);
+    if (value === undefined) {
+      const content = index.read(file);
+      value = content === null ? "" : hash(content);
+      hashes.set(file, value);
+    }
+    return value;
+  };
+
+  const hashFiles = (index: ProjectIndex, files: string[]): string =>
+    hash(...files.map((file) => `${file}:${hashFile(index, file)}`));
+
+  const hashFileList = (index: ProjectIndex): string => {
+    let value = listHashes.get(index);
+    if (value === undefined) {
+      value = hash(...index.files);
+      listHashes.set(index, value);
+    }
+    return value;
+  };
+
+  return {
+    stats,
+
+    async run(rule: CustomRule, options, run) {
+      const kind = CACHE_KINDS[rule.type];
+      const { index } = options;
+      if (!kind || !index) return run(options);
+
+      const ruleKey = hash(VERSION, JSON.stringify(rule), ...options.include, "\0", ...options.exclude);
+      const entry: CachedRule = used[ruleKey] ?? stored[ruleKey] ?? { files: {} };
+      used[ruleKey] = entry;
+
+      if (kind === "files" || kind === "project") {
+        // Scoped runs only report on part of the project, so they neither use nor replace whole-rule results
+        if (options.scope) return run(options);
+
+        const inputs = kind === "project" ? index.files : globFiles(index, getRuleGlobs(rule));
+        const resolution = kind === "project" ? (options.moduleResolver?.cacheKey ?? "") : "";
+        const key = hash(hashFileList(index), hashFiles(index, inputs), resolution);
+        if (entry.key === key && entry.rule) {
+          stats.rules++;
+          return { ruleId: rule.id, results: [...entry.rule.results], fixes: [...entry.rule.fixes] };
+        }
+
+        const result = await run(options);
+        if (result) {
+          entry.key = key;
+          entry.rule = { results: result.results, fixes: result.fixes ?? [] };
+          dirty = true;
+        }
+        return result;
+      }
+
+      const context =
+        kind === "imports"
+          ? hash(
+              hashFileList(index),
+              hashFiles(index, index.glob("**/tsconfig*.json")),
+              options.moduleResolver?.cacheKey ?? ""
+            )
+          : "";
+      const candidates = globFiles(index, getRuleGlobs(rule)).filter((file) => !options.scope || options.scope.has(file));
+
+      const keys = new Map<string, string>();
+      const stale = new Set<string>();
+      for (const file of candidates) {
+        const key = hash(hashFile(index, file), context);
+        keys.set(file, key);
+        if (entry.files[file]?.hash !== key) stale.add(file);
+      }
+
+      if (stale.size > 0 || !entry.rule) {
+        // Only files whose inputs changed are checked again
+        const result = await run({ ...options, scope: stale });
+        if (!result) return result;
+
+        const byFile = new Map<string, CachedResults>();
+        const rest: CachedResults = { results: [], fixes: [] };
+        const bucket = (file: string): CachedResults => {
+          if (!stale.has(file)) return rest;
+          let cached = byFile.get(file);
+          if (!cached) {
+            cached = { results: [], fixes: [] };
+            byFile.set(file, cached);
+          }
+          return cached;
+        };
+        for (const entryResult of result.results) bucket(entryResult.file).results.push(entryResult);
+        for (const fix of result.fixes ?? []) bucket(fixOrigin(fix)).fixes.push(fix);
+
+        for (const file of stale) {
+          entry.files[file] = { hash: keys.get(file)!, ...(byFile.get(file) ?? { results: [], fixes: [] }) };
+        }
+        entry.rule = rest;
+        stats.checked += stale.size;
+        dirty = true;
+      } else {
+        stats.rules++;
+      }
+      stats.files += candidates.length - stale.size;
+
+      // Drop files that no longer exist (only full runs know the whole file list)
+      if (!options.scope) {
+        const current = new Set(candidates);
+        for (const file of Object.keys(entry.files)) {
+          if (!current.has(file)) {
+            delete entry.files[file];
+            dirty = true;
+          }
+        }
+      }
+
+      const results = [...entry.rule.results];
+      const fixes = [...entry.rule.fixes];
+      for (const file of candidates) {
+        const cached = entry.files[file]!;
+        results.push(...cached.results);
+        fixes.push(...cached.fixes);
+      }
+      return { ruleId: rule.id, results, fixes };
+    },
+
+    save() {
+      if (!dirty && Object.keys(used).length === Object.keys(stored).length) return;
+      try {
+        mkdirSync(join(cwd, RULE_CACHE_DIR), { recursive: true });
+        const file: RuleCacheFile = { version: VERSION, rules: used };
+        writeFileSync(path, JSON.stringify(file));
+      } catch {
+        // A read-only checkout just runs without a cache next time
+      }
+    },
+  };
+}
+
+/**
+ * Delete the cache directory. Returns false when there was nothing to delete.
+ */
+export function clearRuleCache(cwd: string): boolean {
+  const dir = join(cwd, RULE_CACHE_DIR);
+  if (!existsSync(dir)) return false;
+  rmSync(dir, { recursive: true, force: true });
+  return true;
+}
+
+/**
+ * Describe what the cache saved, for --debug output
+ */
+export function describeCacheStats(stats: RuleCacheStats): string {
+  return (
+    `Rule cache: ${stats.rules} rule(s) answered entirely from cache, ` +
+    `${stats.files} file result(s) reused, ${stats.checked} file(s) re-checked`
+  );
+}
@@ -0,0 +1,45 @@
+import type { BaseRule, CustomRule } from "../../types";
+import type { RuleRegistry } from "../types";
+
+/**
+ * Globs for the files a rule reads, used to decide which rules a file change affects.
+ * Command rules return no globs: they are not tied to specific files.
+ * Plugin rules declare their globs through the runner's `files` hook, looked up in `registry`.
+ */
+export function getRuleGlobs(rule: CustomRule, registry?: RuleRegistry): string[] {
+  switch (rule.type) {
+    case "file-naming":
+      return [rule.pattern];
+    case "file-pairing":
+    case "file-contract":
+    case "regex":
+    case "component-location":
+    case "file-suffix-content":
+    case "forbidden-import":
+      return [rule.files];
+    case "public-api":
+      return [rule.files, `${rule.modules}/**`];
+    case "package-fields":
+      return ["package.json"];
+    case "command":
+      return [];
+    case "symbol-reference":
+      return [rule.sourceFiles, rule.targetFiles];
+    case "retired-path":
+      return rule.paths.map((entry) => entry.pattern);
+    case "file-structure":
+      return [`${rule.parentDirs}/**`];
+    case "import-boundary":
+      return Object.values(rule.layers).map((layer) => layer.files);
+    case "relationship":
+      return [rule.when.files];
+    case "no-cycles":
+      return [rule.files];
+    case "dead-code":
+      return [rule.files, ...rule.entryPoints];
+    case "package-boundary":
+      return ["**/package.json", "**/*.{ts,tsx,js,jsx,mjs,cjs,mts,cts}"];
+    default:
+      return registry?.get((rule as BaseRule).type)?.files?.(rule as BaseRule) ?? [];
+  }
+}
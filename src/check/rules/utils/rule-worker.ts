@@ -0,0 +1,35 @@
+/**
+ * Worker thread entry point: runs one content rule per message against a
+ * project index rebuilt from the main thread's file list.
+ */
+
+import { createIgnoreMatcher } from "../../../utils/ignore";
+import type { CustomRule } from "../../types";
+import { runRule } from "../index";
+import { createModuleResolver } from "./module-resolver";
+import { createProjectIndexFromFiles } from "./project-index";
+import type { RuleWorkerRequest, RuleWorkerResponse } from "./worker-pool";
+
+declare const self: Worker;
+
+self.onmessage = async (event: MessageEvent<RuleWorkerRequest>) => {
+  const { id, rule, cwd, include, exclude, files, scope, ignore, resolver } = event.data;
+  let response: RuleWorkerResponse;
+
+  try {
+    const result = await runRule(rule as CustomRule, {
+      cwd,
+      include,
+      exclude,
+      scope: scope ? new Set(scope) : undefined,
+      isIgnored: ignore ? createIgnoreMatcher(cwd, ignore) : undefined,
+      moduleResolver: createModuleResolver(cwd, resolver),
+      index: createProjectIndexFromFiles(cwd, files),
+    });
+    response = { id, result };
+  } catch (error) {
+    response = { id, error: error instanceof Error ? error.message : String(error) };
+  }
+
+  self.postMessage(response);
+};
@@ -0,0 +1,42 @@
+import { readFileSync } from "node:fs";
+import { basename, join } from "node:path";
+import type { ScaffoldConfig } from "../../types";
+
+export interface ScaffoldVariables {
+  file: string; // Source file that triggered the rule
+  companion: string; // Companion file being created
+}
+
+/**
+ * Render a scaffold template for a missing companion file.
+ * Returns null when the rule has no usable template.
+ */
+export function renderScaffold(
+  scaffold: ScaffoldConfig | undefined,
+  variables: ScaffoldVariables,
+  cwd: string
+): string | null {
+  if (!scaffold) return null;
+
+  let template: string | null = scaffold.template ?? null;
+  if (template === null && scaffold.templateFile) {
+    try {
+      template = readFileSync(join(cwd, scaffold.templateFile), "utf-8");
+    } catch {
+      return null;
+    }
+  }
+
+  if (template === null) return null;
+
+  // {{name}} is the file stem before the first dot (e.g., "Button" for "Button.pure.ts")
+  const base = basename(variables.file);
+  const firstDot = base.indexOf(".");
+  const values: Record<string, string> = {
+    file: variables.file,
+    companion: variables.companion,
+    name: firstDot > 0 ? base.slice(0, firstDot) : base,
+  };
+
+  return template.replace(/\{\{\s*(file|companion|name)\s*\}\}/g, (_, key: string) => values[key] ?? "");
+}
@@ -0,0 +1,87 @@
+import { describe, expect, test } from "bun:test";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { CheckResult } from "../../types";
+import { applySuppressions, parseSuppressions } from "./suppressions";
+
+const result = (file: string, line: number | undefined, rule = "regex/no-todo"): CheckResult => ({
+  file,
+  line,
+  rule,
+  message: "violation",
+  severity: "error",
+  source: "custom",
+});
+
+describe("parseSuppressions", () => {
+  test("parses next-line, file and block directives in any comment style", () => {
+    const content = [
+      "// chaperone-disable-next-line no-todo, regex/other -- legacy",
+      "x",
+      "# chaperone-disable-file",
+      "/* chaperone-disable no-todo */",
+      "y",
+      "<!-- chaperone-enable no-todo -->",
+    ].join("\n");
+
+    expect(parseSuppressions(content).map((s) => [s.kind, s.rules, s.from, s.to])).toEqual([
+      ["disable-next-line", ["no-todo", "regex/other"], 2, 2],
+      ["disable-file", [], 1, Infinity],
+      ["disable", ["no-todo"], 5, 5],
+    ]);
+  });
+
+  test("ignores directive text inside strings and templates of JS/TS files", () => {
+    const content = [
+      'const a = "// chaperone-disable-next-line no-todo";',
+      "TODO",
+      "const b = `",
+      "/* chaperone-disable-file */",
+      "`;",
+      "/*",
+      " chaperone-disable no-todo */",
+      "const c = 1; // chaperone-disable-next-line no-todo",
+      "TODO",
+    ].join("\n");
+
+    expect(parseSuppressions(content, "a.ts").map((s) => [s.kind, s.line, s.from, s.to])).toEqual([
+      ["disable-next-line", 8, 9, 9],
+    ]);
+    // Without a JS/TS file name every line is a candidate
+    expect(parseSuppressions(content).map((s) => s.kind)).toEqual([
+      "disable-next-line",
+      "disable-file",
+      "disable-next-line",
+    ]);
+  });
+});
+
+describe("applySuppressions", () => {
+  test("drops suppressed results and reports unused directives", () => {
+    const cwd = mkdtempSync(join(tmpdir(), "chaperone-suppressions-"));
+    try {
+      writeFileSync(
+        join(cwd, "a.ts"),
+        ["// chaperone-disable-next-line no-todo", "TODO", "TODO", "// chaperone-disable-next-line no-todo", "ok"].join("\n")
+      );
+      writeFileSync(join(cwd, "b.ts"), "// chaperone-disable-file regex/no-todo\n");
+      writeFileSync(join(cwd, "c.ts"), "// chaperone-disable-next-line not-run\nok\n");
+
+      const { results, suppressed } = applySuppressions(
+        [result("a.ts", 2), result("a.ts", 3), result("b.ts", undefined), result("a.ts", 2, "regex/other")],
+        [],
+        { cwd, ruleIds: ["regex/no-todo", "regex/other"], files: ["c.ts"], reportUnused: true }
+      );
+
+      expect(suppressed).toBe(2);
+      expect(results.map((r) => [r.file, r.line, r.rule])).toEqual([
+        ["a.ts", 3, "regex/no-todo"],
+        ["a.ts", 2, "regex/other"],
+        ["a.ts", 4, "chaperone/unused-disable"],
+      ]);
+    } finally {
+      rmSync(cwd, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,196 @@
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
+import type { CheckResult } from "../../types";
+import type { RuleFix } from "../types";
+import { extractComments } from "./import-extractor";
+import { MODULE_FILE_PATTERN } from "./module-graph";
+
+// `// chaperone-disable-next-line a, b -- reason` (also `/* */`, `#` and `<!-- -->` comments)
+const DIRECTIVE_PATTERN =
+  /(?:\/\/|\/\*|#|<!--)\s*chaperone-(disable-next-line|disable-file|disable|enable)\b(.*?)(?:\*\/|-->)?\s*$/;
+
+export type SuppressionKind = "disable-next-line" | "disable-file" | "disable";
+
+/**
+ * A suppression comment and the lines it covers (1-based, inclusive)
+ */
+export interface Suppression {
+  kind: SuppressionKind;
+  line: number; // Line of the comment itself
+  rules: string[]; // Rule ids (`id` or `type/id`); empty suppresses every rule
+  from: number;
+  to: number;
+  used: boolean;
+}
+
+/**
+ * Parse suppression comments from file content.
+ * In JS/TS files (by `file` extension) only real comments count, so directive text inside
+ * string and template literals is ignored; other files are matched line by line.
+ * `chaperone-enable` closes the open `chaperone-disable` blocks it names, or all of them without ids.
+ */
+export function parseSuppressions(content: string, file?: string): Suppression[] {
+  const suppressions: Suppression[] = [];
+  const openBlocks: Suppression[] = [];
+  if (!content.includes("chaperone-")) return suppressions;
+
+  const candidates =
+    file && MODULE_FILE_PATTERN.test(file)
+      ? extractComments(content).map((comment) => ({ text: comment.text.split("\n")[0]!, line: comment.line }))
+      : content.split("\n").map((text, i) => ({ text, line: i + 1 }));
+
+  for (const candidate of candidates) {
+    if (!candidate.text.includes("chaperone-")) continue;
+
+    const match = candidate.text.match(DIRECTIVE_PATTERN);
+    if (!match) continue;
+
+    const lineNumber = candidate.line;
+    const rules = (match[2]!.split("--")[0] ?? "")
+      .split(/[\s,]+/)
+      .filter(Boolean);
+
+    switch (match[1]) {
+      case "disable-next-line":
+        suppressions.push({ kind: "disable-next-line", line: lineNumber, rules, from: lineNumber + 1, to: lineNumber + 1, used: false });
+        break;
+      case "disable-file":
+        suppressions.push({ kind: "disable-file", line: lineNumber, rules, from: 1, to: Infinity, used: false });
+        break;
+      case "disable": {
+        const block: Suppression = { kind: "disable", line: lineNumber, rules, from: lineNumber + 1, to: Infinity, used: false };
+        suppressions.push(block);
+        openBlocks.push(block);
+        break;
+      }
+      case "enable":
+        for (let j = openBlocks.length - 1; j >= 0; j--) {
+          const block = openBlocks[j]!;
+          const closes = rules.length === 0 || (block.rules.length > 0 && block.rules.every((id) => rules.includes(id)));
+          if (closes) {
+            block.to = lineNumber - 1;
+            openBlocks.splice(j, 1);
+          }
+        }
+        break;
+    }
+  }
+
+  return suppressions;
+}
+
+/**
+ * Whether a suppression names a rule, given the result's `type/id` rule label
+ */
+function namesRule(suppression: Suppression, ruleLabel: string): boolean {
+  if (suppression.rules.length === 0) return true;
+  const id = ruleLabel.slice(ruleLabel.indexOf("/") + 1);
+  return suppression.rules.some((name) => name === id || name === ruleLabel);
+}
+
+/**
+ * Find the suppression covering a result. Results without a line can only be silenced file-wide.
+ */
+function findSuppression(suppressions: Suppression[], rule: string, line: number | undefined): Suppression | undefined {
+  return suppressions.find(
+    (s) =>
+      namesRule(s, rule) &&
+      (s.kind === "disable-file" || (line !== undefined && line >= s.from && line <= s.to))
+  );
+}
+
+export interface ApplySuppressionsOptions {
+  cwd: string;
+  readFile?: (file: string) => string | null; // Shared content cache; defaults to reading from disk
+  ruleIds: string[]; // Rules that ran, in `type/id` form; used to decide whether a suppression is stale
+  files?: string[]; // Additional files to scan for stale suppressions
+  reportUnused?: boolean;
+}
+
+export interface ApplySuppressionsResult {
+  results: CheckResult[];
+  fixes: RuleFix[];
+  suppressed: number;
+}
+
+/**
+ * Drop results and fixes silenced by suppression comments.
+ * With `reportUnused`, suppressions that silenced nothing are reported as warnings.
+ */
+export function applySuppressions(
+  results: CheckResult[],
+  fixes: RuleFix[],
+  options: ApplySuppressionsOptions
+): ApplySuppressionsResult {
+  const { cwd, ruleIds, reportUnused = false } = options;
+  const cache = new Map<string, { content: string; suppressions: Suppression[] }>();
+
+  const load = (file: string) => {
+    let entry = cache.get(file);
+    if (!entry) {
+      let content = "";
+      try {
+        // Missing files (e.g. deleted, or directory-level results) have no suppressions
+        content = (options.readFile ? options.readFile(file) : readFileSync(join(cwd, file), "utf-8")) ?? "";
+      } catch {}
+      entry = { content, suppressions: parseSuppressions(content, file) };
+      cache.set(file, entry);
+    }
+    return entry;
+  };
+
+  const kept: CheckResult[] = [];
+  let suppressed = 0;
+  for (const result of results) {
+    const suppression = findSuppression(load(result.file).suppressions, result.rule, result.line);
+    if (suppression) {
+      suppression.used = true;
+      suppressed++;
+    } else {
+      kept.push(result);
+    }
+  }
+
+  const keptFixes: RuleFix[] = [];
+  for (const fix of fixes) {
+    if (fix.kind === "edit") {
+      const { content, suppressions } = load(fix.file);
+      const edits = fix.edits.filter((edit) => {
+        const line = content.slice(0, edit.range[0]).split("\n").length;
+        return !findSuppression(suppressions, fix.rule, line);
+      });
+      if (edits.length > 0) keptFixes.push({ ...fix, edits });
+    } else {
+      const origin = fix.kind === "create" ? (fix.source ?? fix.file) : fix.file;
+      if (!findSuppression(load(origin).suppressions, fix.rule, undefined)) keptFixes.push(fix);
+    }
+  }
+
+  if (reportUnused) {
+    for (const file of options.files ?? []) load(file);
+
+    for (const [file, { suppressions }] of cache) {
+      for (const suppression of suppressions) {
+        if (suppression.used) continue;
+        // Only flag suppressions for rules that actually ran; others may apply in a different run
+        const ranAll = suppression.rules.every((name) =>
+          ruleIds.some((label) => label === name || label.slice(label.indexOf("/") + 1) === name)
+        );
+        if (!ranAll) continue;
+
+        const names = suppression.rules.length > 0 ? ` for ${suppression.rules.join(", ")}` : "";
+        kept.push({
+          file,
+          rule: "chaperone/unused-disable",
+          message: `Unused chaperone-${suppression.kind} comment${names}: no violations were suppressed`,
+          line: suppression.line,
+          severity: "warning",
+          source: "custom",
+          suggestion: "Remove the suppression comment",
+        });
+      }
+    }
+  }
+
+  return { results: kept, fixes: keptFixes, suppressed };
+}
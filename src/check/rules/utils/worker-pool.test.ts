@@ -0,0 +1,124 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { dirname, join } from "node:path";
+import { getEffectivePatterns } from "../../config-loader";
+import type { ChaperoneConfig } from "../../types";
+import { runAllRules, runRule } from "../index";
+import type { RuleRunnerOptions } from "../types";
+import { createProjectIndex } from "./project-index";
+import { createRuleWorkerPool } from "./worker-pool";
+
+let cwd: string;
+
+const write = (file: string, content: string) => {
+  mkdirSync(dirname(join(cwd, file)), { recursive: true });
+  writeFileSync(join(cwd, file), content);
+};
+
+const config: ChaperoneConfig = {
+  version: "1.0.0",
+  integrations: { respectGitignore: true },
+  rules: {
+    custom: [
+      { id: "no-todo", type: "regex", severity: "error", files: "**/*.ts", pattern: "TODO", message: "No TODOs" },
+      {
+        id: "server-files",
+        type: "file-contract",
+        severity: "warning",
+        files: "src/**/*.server.ts",
+        requiredPatterns: ["^['\"]use server['\"]"],
+      },
+    ],
+  },
+};
+
+const options = (): RuleRunnerOptions => ({
+  cwd,
+  include: ["**/*"],
+  exclude: ["node_modules"],
+  index: createProjectIndex(cwd, { exclude: ["node_modules"] }),
+});
+
+beforeEach(() => {
+  cwd = mkdtempSync(join(tmpdir(), "chaperone-workers-"));
+  write(".gitignore", "generated/\n");
+  write("src/a.ts", "// TODO: a\nexport const a = 1;\n");
+  write("src/b.server.ts", "export const b = 1; // TODO\n");
+  write("src/c.server.ts", '"use server";\nexport const c = 1;\n');
+  write("generated/d.ts", "// TODO: ignored\n");
+});
+
+afterEach(() => {
+  rmSync(cwd, { recursive: true, force: true });
+});
+
+describe("rule worker pool", () => {
+  test("workers report the same results as the main thread", async () => {
+    const run = async (workers: boolean) => {
+      const { isIgnored } = getEffectivePatterns(config, undefined, undefined, cwd);
+      const messages: string[] = [];
+      const { results } = await runAllRules(config, {
+        cwd,
+        include: ["**/*"],
+        exclude: ["node_modules"],
+        isIgnored,
+        index: createProjectIndex(cwd, { exclude: ["node_modules"], isIgnored }),
+        concurrency: workers ? 2 : 1,
+        workerMinFiles: workers ? 0 : undefined,
+        onDebug: (message) => messages.push(message),
+      });
+      return { results, pool: messages.find((message) => message.startsWith("Worker pool:")) };
+    };
+
+    const inline = await run(false);
+    const pooled = await run(true);
+
+    expect(inline.pool).toBeUndefined();
+    expect(pooled.pool).toMatch(/^Worker pool: 2 rule\(s\) run in [12] worker thread\(s\), 0 on the main thread$/);
+    expect(inline.results.map((result) => result.file).sort()).toEqual(["src/a.ts", "src/b.server.ts", "src/b.server.ts"]);
+    expect(pooled.results).toEqual(inline.results);
+  });
+
+  test("answers tasks from a worker without touching the fallback", async () => {
+    const fallbacks: string[] = [];
+    const pool = createRuleWorkerPool(1, async (rule, runOptions) => {
+      fallbacks.push(rule.id);
+      return runRule(rule, runOptions);
+    });
+    try {
+      const rule = config.rules!.custom![0]!;
+      const result = await pool.run(rule, options());
+
+      expect(result).toEqual(await runRule(rule, options()));
+      expect(fallbacks).toEqual([]);
+      expect(pool.stats).toEqual({ workers: 1, workerTasks: 1, inlineTasks: 0 });
+    } finally {
+      pool.close();
+    }
+  });
+
+  test("runs tasks on the main thread when workers cannot start", async () => {
+    const fallbacks: string[] = [];
+    const pool = createRuleWorkerPool(
+      1,
+      async (rule, runOptions) => {
+        fallbacks.push(rule.id);
+        return runRule(rule, runOptions);
+      },
+      {},
+      new URL("./missing-worker.ts", import.meta.url).href
+    );
+    try {
+      const rule = config.rules!.custom![0]!;
+      const result = await pool.run(rule, options());
+
+      expect(result).toEqual(await runRule(rule, options()));
+      expect(fallbacks).toEqual(["no-todo"]);
+      expect(pool.stats.workerTasks).toBe(0);
+      expect(pool.stats.inlineTasks).toBe(1);
+    } finally {
+      pool.close();
+    }
+  });
+});
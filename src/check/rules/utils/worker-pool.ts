@@ -0,0 +1,168 @@
+import type { IgnoreMatcherOptions } from "../../../utils/ignore";
+import type { CustomRule } from "../../types";
+import type { RuleResult, RuleRunnerOptions } from "../types";
+import type { ModuleResolverOptions } from "./module-resolver";
+
+/**
+ * How workers rebuild the main thread's ignore matcher and module resolver, which cannot be sent as functions
+ */
+export interface RuleWorkerSettings {
+  ignore?: IgnoreMatcherOptions;
+  resolver?: ModuleResolverOptions;
+}
+
+export interface RuleWorkerRequest extends RuleWorkerSettings {
+  id: number;
+  rule: CustomRule;
+  cwd: string;
+  include: string[];
+  exclude: string[];
+  files: string[]; // The main thread's index, so workers skip the directory walk
+  scope?: string[];
+}
+
+export type RuleWorkerResponse = { id: number; result: RuleResult | null } | { id: number; error: string };
+
+/**
+ * Where each task of a pool ran, for --debug output
+ */
+export interface RuleWorkerPoolStats {
+  workers: number; // Worker threads started
+  workerTasks: number; // Tasks answered by a worker
+  inlineTasks: number; // Tasks run on the main thread because workers failed
+}
+
+/**
+ * Worker threads that run custom rules off the main thread
+ */
+export interface RuleWorkerPool {
+  run(rule: CustomRule, options: RuleRunnerOptions): Promise<RuleResult | null>;
+  close(): void;
+  readonly stats: RuleWorkerPoolStats;
+}
+
+const RULE_WORKER_URL = new URL("./rule-worker.ts", import.meta.url).href;
+
+interface PendingTask {
+  request: RuleWorkerRequest;
+  resolve: (result: RuleResult | null) => void;
+  reject: (error: Error) => void;
+  fallback: () => Promise<RuleResult | null>;
+}
+
+/**
+ * Create a pool of up to `size` workers, started on demand.
+ * If workers cannot be started (e.g. the runtime lacks them), tasks run on the main thread instead.
+ */
+export function createRuleWorkerPool(
+  size: number,
+  fallback: (rule: CustomRule, options: RuleRunnerOptions) => Promise<RuleResult | null>,
+  settings: RuleWorkerSettings = {},
+  workerUrl: string = RULE_WORKER_URL
+): RuleWorkerPool {
+  const idle: Worker[] = [];
+  const busy = new Map<Worker, PendingTask>();
+  const queue: PendingTask[] = [];
+  const stats: RuleWorkerPoolStats = { workers: 0, workerTasks: 0, inlineTasks: 0 };
+  let nextId = 0;
+  let broken = false;
+
+  const runInline = (task: PendingTask): void => {
+    stats.inlineTasks++;
+    task.fallback().then(task.resolve, task.reject);
+  };
+
+  const dispatch = (): void => {
+    while (queue.length > 0) {
+      if (broken) {
+        runInline(queue.shift()!);
+        continue;
+      }
+
+      let worker = idle.pop();
+      if (!worker && stats.workers < size) {
+        try {
+          worker = spawn();
+        } catch {
+          broken = true;
+          continue;
+        }
+      }
+      if (!worker) return;
+
+      const task = queue.shift()!;
+      busy.set(worker, task);
+      worker.postMessage(task.request);
+    }
+  };
+
+  const spawn = (): Worker => {
+    const worker = new Worker(workerUrl);
+    stats.workers++;
+
+    worker.onmessage = (event: MessageEvent<RuleWorkerResponse>) => {
+      const task = busy.get(worker);
+      busy.delete(worker);
+      idle.push(worker);
+      if (task) {
+        stats.workerTasks++;
+        if ("error" in event.data) task.reject(new Error(event.data.error));
+        else task.resolve(event.data.result);
+      }
+      dispatch();
+    };
+
+    // A worker that fails outside a rule (e.g. cannot load) takes the pool down; its task runs inline
+    worker.onerror = (event: ErrorEvent) => {
+      event.preventDefault();
+      broken = true;
+      const task = busy.get(worker);
+      busy.delete(worker);
+      worker.terminate();
+      if (task) runInline(task);
+      dispatch();
+    };
+
+    return worker;
+  };
+
+  return {
+    run(rule, options) {
+      return new Promise((resolve, reject) => {
+        queue.push({
+          request: {
+            id: nextId++,
+            rule,
+            cwd: options.cwd,
+            include: options.include,
+            exclude: options.exclude,
+            files: options.index?.files ?? [],
+            scope: options.scope ? Array.from(options.scope) : undefined,
+            ...settings,
+          },
+          resolve,
+          reject,
+          fallback: () => fallback(rule, options),
+        });
+        dispatch();
+      });
+    },
+
+    close() {
+      for (const worker of [...idle, ...busy.keys()]) {
+        worker.terminate();
+      }
+      idle.length = 0;
+      busy.clear();
+    },
+
+    stats,
+  };
+}
+
+export function describeWorkerPoolStats(stats: RuleWorkerPoolStats): string {
+  return (
+    `Worker pool: ${stats.workerTasks} rule(s) run in ${stats.workers} worker thread(s), ` +
+    `${stats.inlineTasks} on the main thread`
+  );
+}
@@ -4,6 +4,9 @@ import { execCommand, findNpmBinary } from "../../utils/process";
 import type { CheckResult } from "../types";
 import type { Runner, RunnerOptions, RunnerResult } from "./types";
 
+// File extensions passed to ESLint when running on an explicit file list
+const LINTABLE_EXTENSIONS = [".js", ".jsx", ".ts", ".tsx", ".mjs", ".cjs", ".mts", ".cts", ".vue", ".svelte"];
+
 /**
  * ESLint JSON output format
  */
@@ -45,6 +48,9 @@ function parseESLintOutput(output: string, cwd: string): CheckResult[] {
       const relativePath = relative(cwd, file.filePath);
 
       for (const msg of file.messages) {
+        // Explicitly listed files that ESLint ignores produce a rule-less warning; drop it
+        if (msg.ruleId === null && msg.message.startsWith("File ignored")) continue;
+
         results.push({
           file: relativePath,
           line: msg.line,
@@ -108,6 +114,7 @@ function hasESLintConfig(cwd: string): boolean {
  */
 export const eslintRunner: Runner = {
   name: "eslint",
+  writesFiles: true,
 
   async isAvailable(cwd: string): Promise<boolean> {
     if (!hasESLintConfig(cwd)) {
@@ -130,6 +137,16 @@ export const eslintRunner: Runner = {
       };
     }
 
+    // An explicit file list with nothing lintable in it means there is nothing to do
+    const lintFiles = files?.filter((file) => LINTABLE_EXTENSIONS.some((ext) => file.endsWith(ext)));
+    if (lintFiles && lintFiles.length === 0) {
+      return {
+        source: "eslint",
+        results: [],
+        success: true,
+      };
+    }
+
     const eslintPath = await findNpmBinary("eslint", cwd);
     if (!eslintPath) {
       return {
@@ -152,8 +169,8 @@ export const eslintRunner: Runner = {
     }
 
     // Add files or default to current directory
-    if (files && files.length > 0) {
-      args.push(...files);
+    if (lintFiles) {
+      args.push(...lintFiles);
     } else {
       args.push(".");
     }
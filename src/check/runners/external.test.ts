@@ -0,0 +1,93 @@
+import { describe, expect, test } from "bun:test";
+import { chmodSync, mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { BUILT_IN_TOOLS, parseToolOutput, validateToolConfigs } from "./external";
+import { runAllTools } from "./index";
+
+const summarize = (results: ReturnType<typeof parseToolOutput>) =>
+  results.map((r) => [r.file, r.line, r.column, r.rule, r.severity, r.message]);
+
+describe("parseToolOutput", () => {
+  test("maps named regex groups from stdout and stderr", () => {
+    const output = {
+      stdout: "src/a.ts:3:5: Unexpected debugger [Error/eslint(no-debugger)]\nFound 2 problems",
+      stderr: "./src/b.ts:1:1: Prefer const [Warning/eslint(prefer-const)]",
+    };
+
+    expect(summarize(parseToolOutput("oxlint", BUILT_IN_TOOLS["oxlint"]!.parser!, output, "/repo"))).toEqual([
+      ["src/a.ts", 3, 5, "oxlint/eslint(no-debugger)", "error", "Unexpected debugger"],
+      ["src/b.ts", 1, 1, "oxlint/eslint(prefer-const)", "warning", "Prefer const"],
+    ]);
+  });
+
+  test("selects nested JSON items and reads fields from enclosing items", () => {
+    const stdout = JSON.stringify([
+      { source: "/repo/src/a.css", warnings: [{ line: 2, column: 4, rule: "color-no-invalid-hex", severity: "error", text: "Bad hex" }] },
+      { source: "/repo/src/b.css", warnings: [] },
+    ]);
+
+    expect(summarize(parseToolOutput("stylelint", BUILT_IN_TOOLS["stylelint"]!.parser!, { stdout, stderr: "" }, "/repo"))).toEqual([
+      ["src/a.css", 2, 4, "stylelint/color-no-invalid-hex", "error", "Bad hex"],
+    ]);
+  });
+
+  test("applies the severity map and skips items without a file or message", () => {
+    const stdout = JSON.stringify([
+      { description: "Unused export", check_name: "exports", severity: "minor", location: { path: "src/a.ts", lines: { begin: 7 } } },
+      { description: "No location", check_name: "files", severity: "major", location: {} },
+    ]);
+
+    expect(summarize(parseToolOutput("knip", BUILT_IN_TOOLS["knip"]!.parser!, { stdout, stderr: "" }, "/repo"))).toEqual([
+      ["src/a.ts", 7, undefined, "knip/exports", "warning", "Unused export"],
+    ]);
+  });
+});
+
+describe("validateToolConfigs", () => {
+  test("requires a command and parser unless the tool is built in", () => {
+    expect(
+      validateToolConfigs([
+        { name: "biome" },
+        { name: "custom-lint" },
+        { name: "eslint" },
+        { name: "broken", command: "broken", parser: { format: "regex", pattern: "(" } },
+      ])
+    ).toEqual([
+      "Tool 'custom-lint' is missing 'command'",
+      "Tool 'custom-lint' is missing 'parser'",
+      "Tool 'eslint' conflicts with a built-in runner; configure it under rules.eslint instead",
+      "Tool 'broken' has invalid parser pattern: (",
+    ]);
+  });
+});
+
+describe("runAllTools", () => {
+  test("reports a tool failure without parsable output on the loaded config file", async () => {
+    const cwd = mkdtempSync(join(tmpdir(), "chaperone-external-"));
+    try {
+      const binary = join(cwd, "node_modules/.bin/broken-lint");
+      mkdirSync(join(cwd, "node_modules/.bin"), { recursive: true });
+      writeFileSync(binary, "#!/bin/sh\necho 'cannot read config' >&2\nexit 2\n");
+      chmodSync(binary, 0o755);
+
+      const tool = {
+        name: "broken-lint",
+        command: "broken-lint",
+        parser: { format: "regex" as const, pattern: "^(?<file>[^:]+):(?<message>.+)$" },
+      };
+      const disabled = { enabled: false };
+      const result = await runAllTools(
+        { version: "1.0.0", rules: { typescript: disabled, eslint: disabled, prettier: disabled, tools: [tool] } },
+        { cwd, configFile: "config/.chaperone.yaml" }
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.results.map((r) => [r.file, r.rule, r.message])).toEqual([
+        ["config/.chaperone.yaml", "broken-lint/failed", "broken-lint exited with code 2: cannot read config"],
+      ]);
+    } finally {
+      rmSync(cwd, { recursive: true, force: true });
+    }
+  });
+});
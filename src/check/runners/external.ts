@@ -0,0 +1,329 @@
+import { isAbsolute, relative } from "node:path";
+import { execCommand, findNpmBinary } from "../../utils/process";
+import type { CheckResult, ExternalToolConfig, ToolOutputParser } from "../types";
+import type { Runner, RunnerOptions, RunnerResult } from "./types";
+
+// Output of `tsc --pretty false` and compatible checkers
+const TSC_PATTERN = "^(?<file>.+?)\\((?<line>\\d+),(?<column>\\d+)\\):\\s*(?<severity>error|warning)\\s+(?<rule>TS\\d+):\\s*(?<message>.+)$";
+
+/**
+ * Defaults for tools that only need to be named in `rules.tools`
+ */
+export const BUILT_IN_TOOLS: Record<string, Omit<ExternalToolConfig, "name">> = {
+  biome: {
+    command: "biome",
+    args: ["lint", "--reporter=github"],
+    fixArgs: ["--write"],
+    projectArgs: ["."],
+    extensions: [".js", ".jsx", ".ts", ".tsx", ".mjs", ".cjs", ".mts", ".cts", ".json", ".jsonc", ".css"],
+    parser: {
+      format: "regex",
+      pattern:
+        "^::(?<severity>error|warning|notice) title=(?<rule>[^,]*),file=(?<file>[^,]+),line=(?<line>\\d+)(?:,endLine=\\d+)?,col=(?<column>\\d+)[^:]*::(?<message>.*)$",
+    },
+  },
+  oxlint: {
+    command: "oxlint",
+    args: ["--format", "unix"],
+    fixArgs: ["--fix"],
+    extensions: [".js", ".jsx", ".ts", ".tsx", ".mjs", ".cjs", ".mts", ".cts", ".vue", ".svelte", ".astro"],
+    parser: {
+      format: "regex",
+      pattern: "^(?<file>[^:]+):(?<line>\\d+):(?<column>\\d+): (?<message>.*) \\[(?<severity>Error|Warning)\\/(?<rule>[^\\]]*)\\]$",
+    },
+  },
+  stylelint: {
+    command: "stylelint",
+    args: ["--formatter", "json", "--allow-empty-input"],
+    fixArgs: ["--fix"],
+    projectArgs: ["**/*.{css,scss,sass,less}"],
+    extensions: [".css", ".scss", ".sass", ".less", ".vue", ".svelte"],
+    parser: {
+      format: "json",
+      path: "[].warnings[]",
+      fields: { file: "../source", line: "line", column: "column", rule: "rule", message: "text", severity: "severity" },
+    },
+  },
+  "vue-tsc": {
+    command: "vue-tsc",
+    args: ["--noEmit", "--pretty", "false"],
+    fileArgs: false,
+    parser: { format: "regex", pattern: TSC_PATTERN },
+  },
+  knip: {
+    command: "knip",
+    args: ["--reporter", "codeclimate", "--no-exit-code"],
+    fileArgs: false,
+    parser: {
+      format: "json",
+      path: "[]",
+      fields: { file: "location.path", line: "location.lines.begin", rule: "check_name", message: "description", severity: "severity" },
+      severityMap: { blocker: "error", critical: "error", major: "error", minor: "warning", info: "warning" },
+    },
+  },
+};
+
+// Names of the built-in runners, which cannot be reused by `rules.tools`
+const RESERVED_NAMES = ["typescript", "eslint", "prettier", "custom", "ai-instructions"];
+
+/**
+ * Fill in built-in defaults for a `rules.tools` entry
+ */
+export function resolveToolConfig(tool: ExternalToolConfig): ExternalToolConfig {
+  return { ...BUILT_IN_TOOLS[tool.name], ...tool };
+}
+
+/**
+ * Validate `rules.tools` entries (after built-in defaults are applied)
+ */
+export function validateToolConfigs(tools: ExternalToolConfig[]): string[] {
+  const errors: string[] = [];
+  const seen = new Set<string>();
+
+  tools.forEach((entry, i) => {
+    if (!entry?.name) {
+      errors.push(`Tool at index ${i} is missing 'name'`);
+      return;
+    }
+    if (RESERVED_NAMES.includes(entry.name)) {
+      errors.push(`Tool '${entry.name}' conflicts with a built-in runner; configure it under rules.${entry.name} instead`);
+      return;
+    }
+    if (seen.has(entry.name)) {
+      errors.push(`Tool '${entry.name}' is configured more than once`);
+    }
+    seen.add(entry.name);
+
+    const tool = resolveToolConfig(entry);
+    if (!tool.command) {
+      errors.push(`Tool '${tool.name}' is missing 'command'`);
+    }
+    if (!tool.parser) {
+      errors.push(`Tool '${tool.name}' is missing 'parser'`);
+    } else if (tool.parser.format === "regex") {
+      try {
+        new RegExp(tool.parser.pattern);
+      } catch {
+        errors.push(`Tool '${tool.name}' has invalid parser pattern: ${tool.parser.pattern}`);
+      }
+    } else if (tool.parser.format === "json") {
+      if (!tool.parser.fields?.file || !tool.parser.fields?.message) {
+        errors.push(`Tool '${tool.name}' parser must map 'file' and 'message' fields`);
+      }
+    } else {
+      errors.push(`Tool '${tool.name}' has unknown parser format: ${(tool.parser as { format: string }).format}`);
+    }
+  });
+
+  return errors;
+}
+
+interface JsonItem {
+  value: unknown;
+  parents: unknown[]; // Enclosing items, innermost last
+}
+
+/**
+ * Select result items from parsed JSON by a path like "[].warnings[]"
+ */
+function selectItems(root: unknown, path: string): JsonItem[] {
+  let items: JsonItem[] = [{ value: root, parents: [] }];
+
+  for (const segment of path.split(".").filter(Boolean)) {
+    const iterate = segment.endsWith("[]");
+    const key = iterate ? segment.slice(0, -2) : segment;
+
+    items = items.flatMap(({ value, parents }) => {
+      const child = key ? getKey(value, key) : value;
+      if (!iterate) return [{ value: child, parents }];
+      return Array.isArray(child) ? child.map((entry) => ({ value: entry, parents: [...parents, value] })) : [];
+    });
+  }
+
+  return items;
+}
+
+function getKey(value: unknown, key: string): unknown {
+  return value !== null && typeof value === "object" ? (value as Record<string, unknown>)[key] : undefined;
+}
+
+/**
+ * Read a field path ("location.path", "../source") relative to an item
+ */
+function getField(item: JsonItem, path: string | undefined): unknown {
+  if (!path) return undefined;
+
+  let value = item.value;
+  let rest = path;
+  let depth = 0;
+  while (rest.startsWith("../")) {
+    rest = rest.slice(3);
+    depth++;
+  }
+  if (depth > 0) {
+    value = item.parents[item.parents.length - depth];
+  }
+
+  for (const key of rest.split(".").filter(Boolean)) {
+    value = getKey(value, key);
+  }
+  return value;
+}
+
+function toSeverity(value: unknown, severityMap: Record<string, "error" | "warning"> = {}): "error" | "warning" {
+  const text = value === undefined || value === null ? "" : String(value);
+  const mapped = severityMap[text];
+  if (mapped) return mapped;
+  return /warn/i.test(text) ? "warning" : "error";
+}
+
+function toNumber(value: unknown): number | undefined {
+  const number = typeof value === "number" ? value : parseInt(String(value ?? ""), 10);
+  return Number.isFinite(number) ? number : undefined;
+}
+
+/**
+ * Result fields as extracted from tool output, before normalization
+ */
+interface RawResult {
+  file?: unknown;
+  message?: unknown;
+  line?: unknown;
+  column?: unknown;
+  rule?: unknown;
+  severity?: unknown;
+}
+
+/**
+ * Parse tool output into results. Files are made relative to cwd.
+ */
+export function parseToolOutput(
+  name: string,
+  parser: ToolOutputParser,
+  output: { stdout: string; stderr: string },
+  cwd: string
+): CheckResult[] {
+  const results: CheckResult[] = [];
+
+  const add = (fields: RawResult): void => {
+    const file = fields.file === undefined ? "" : String(fields.file).trim();
+    const message = fields.message === undefined ? "" : String(fields.message).trim();
+    if (!file || !message) return;
+
+    const rule = fields.rule === undefined || fields.rule === null || fields.rule === "" ? "unknown" : String(fields.rule);
+    results.push({
+      file: (isAbsolute(file) ? relative(cwd, file) : file).replace(/^\.\//, ""),
+      line: toNumber(fields.line),
+      column: toNumber(fields.column),
+      rule: `${name}/${rule}`,
+      message,
+      severity: toSeverity(fields.severity, parser.severityMap),
+      source: name,
+    });
+  };
+
+  if (parser.format === "regex") {
+    const regex = new RegExp(parser.pattern);
+    for (const line of `${output.stdout}\n${output.stderr}`.split("\n")) {
+      const groups = line.trimEnd().match(regex)?.groups;
+      if (groups) add(groups);
+    }
+    return results;
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(output.stdout);
+  } catch {
+    return results;
+  }
+
+  const { fields } = parser;
+  for (const item of selectItems(parsed, parser.path ?? "")) {
+    add({
+      file: getField(item, fields.file),
+      message: getField(item, fields.message),
+      line: getField(item, fields.line),
+      column: getField(item, fields.column),
+      rule: getField(item, fields.rule),
+      severity: getField(item, fields.severity),
+    });
+  }
+  return results;
+}
+
+/**
+ * Create a runner for a `rules.tools` entry
+ */
+export function createExternalRunner(entry: ExternalToolConfig): Runner {
+  const tool = resolveToolConfig(entry);
+  const { name } = tool;
+  const command = tool.command!;
+  const parser = tool.parser!;
+
+  return {
+    name,
+    writesFiles: !!tool.fixArgs?.length,
+
+    async isAvailable(cwd: string): Promise<boolean> {
+      return (await findNpmBinary(command, cwd)) !== null;
+    },
+
+    async run(options: RunnerOptions): Promise<RunnerResult> {
+      const { cwd, fix, files, configFile } = options;
+
+      if (tool.enabled === false) {
+        return { source: name, results: [], success: true, skipped: true };
+      }
+
+      // Scoped runs only pass files the tool understands; nothing left means nothing to do
+      const useFiles = files && tool.fileArgs !== false;
+      const toolFiles = useFiles
+        ? files.filter((file) => !tool.extensions || tool.extensions.some((ext) => file.endsWith(ext)))
+        : undefined;
+      if (toolFiles && toolFiles.length === 0) {
+        return { source: name, results: [], success: true };
+      }
+
+      const binary = await findNpmBinary(command, cwd);
+      if (!binary) {
+        return { source: name, results: [], success: false, error: `${command} not found` };
+      }
+
+      const args = [...(tool.args ?? [])];
+      if (fix && tool.fixArgs) {
+        args.push(...tool.fixArgs);
+      }
+      args.push(...(toolFiles ?? tool.projectArgs ?? []));
+
+      const output = await execCommand(binary, args, { cwd, timeout: tool.timeout });
+      const results = parseToolOutput(name, parser, output, cwd);
+
+      // A failing exit code without any parsable output means the tool itself failed
+      if (results.length === 0 && output.exitCode !== 0) {
+        const detail = (output.stderr || output.stdout).trim().split("\n")[0] ?? "";
+        const message = output.exitCode === 124 ? `${name} timed out` : `${name} exited with code ${output.exitCode}`;
+        return {
+          source: name,
+          results: [
+            {
+              file: configFile ?? ".chaperone.json",
+              rule: `${name}/failed`,
+              message: detail ? `${message}: ${detail}` : message,
+              severity: "error",
+              source: name,
+            },
+          ],
+          success: false,
+          error: message,
+        };
+      }
+
+      return {
+        source: name,
+        results,
+        success: results.every((result) => result.severity !== "error"),
+      };
+    },
+  };
+}
@@ -1,19 +1,35 @@
 import type { ChaperoneConfig, CheckResult, ToolConfig } from "../types";
-import type { Runner, RunnerOptions, RunnerResult } from "./types";
+import type { AllRunnersOptions, Runner, RunnerResult } from "./types";
+import { runConcurrently } from "../../utils/concurrency";
 import { typescriptRunner } from "./typescript";
 import { eslintRunner } from "./eslint";
 import { prettierRunner } from "./prettier";
+import { createExternalRunner, validateToolConfigs } from "./external";
 
 export * from "./types";
 export { typescriptRunner } from "./typescript";
 export { eslintRunner } from "./eslint";
 export { prettierRunner } from "./prettier";
+export { BUILT_IN_TOOLS, createExternalRunner, parseToolOutput, resolveToolConfig, validateToolConfigs } from "./external";
 
 /**
- * All available runners
+ * Built-in runners
  */
 const runners: Runner[] = [typescriptRunner, eslintRunner, prettierRunner];
 
+/**
+ * Built-in runners followed by the external tools configured in `rules.tools`.
+ * Throws when a tool entry is invalid.
+ */
+export function getRunners(config: ChaperoneConfig): Runner[] {
+  const tools = config.rules?.tools ?? [];
+  const errors = validateToolConfigs(tools);
+  if (errors.length > 0) {
+    throw new Error(`Invalid rules.tools: ${errors.join("; ")}`);
+  }
+  return [...runners, ...tools.map(createExternalRunner)];
+}
+
 /**
  * Result from running all tools
  */
@@ -37,57 +53,80 @@ function getToolConfig(config: ChaperoneConfig, runnerName: string): ToolConfig
       return rules.eslint;
     case "prettier":
       return rules.prettier;
-    default:
-      return undefined;
+    default: {
+      const tool = rules.tools?.find((entry) => entry.name === runnerName);
+      return tool ? { enabled: tool.enabled ?? true, extensions: tool.extensions, args: tool.args } : undefined;
+    }
   }
 }
 
 /**
- * Run all enabled tool runners
+ * Run a single tool runner, or mark it skipped when disabled or unavailable
+ */
+async function runTool(
+  runner: Runner,
+  config: ChaperoneConfig,
+  options: AllRunnersOptions
+): Promise<RunnerResult> {
+  const { cwd, fix, files, configFile } = options;
+  const toolConfig = getToolConfig(config, runner.name);
+  const skipped: RunnerResult = {
+    source: runner.name,
+    results: [],
+    success: true,
+    skipped: true,
+  };
+
+  // Skip if explicitly disabled
+  if (toolConfig?.enabled === false) {
+    return skipped;
+  }
+
+  // Check if tool is available
+  const available = await runner.isAvailable(cwd);
+  if (!available) {
+    return skipped;
+  }
+
+  return runner.run({
+    cwd,
+    fix,
+    files,
+    config: toolConfig,
+    configFile,
+  });
+}
+
+/**
+ * Run all enabled tool runners.
+ * Independent tools run in parallel up to `concurrency`; with --fix, tools that rewrite
+ * files share one lane and run in order. Results are always reported in runner order.
  */
 export async function runAllTools(
   config: ChaperoneConfig,
-  options: Omit<RunnerOptions, "config">
+  options: AllRunnersOptions
 ): Promise<AllRunnersResult> {
-  const { cwd, fix, files } = options;
+  const { fix, concurrency = 1 } = options;
   const allResults: CheckResult[] = [];
   const bySource: Record<string, RunnerResult> = {};
   let allSuccess = true;
 
-  for (const runner of runners) {
-    const toolConfig = getToolConfig(config, runner.name);
-
-    // Skip if explicitly disabled
-    if (toolConfig?.enabled === false) {
-      bySource[runner.name] = {
-        source: runner.name,
-        results: [],
-        success: true,
-        skipped: true,
-      };
-      continue;
-    }
+  const runners = getRunners(config);
+  const writers = fix ? runners.filter((runner) => runner.writesFiles) : [];
+  const lanes: Runner[][] = [
+    ...runners.filter((runner) => !writers.includes(runner)).map((runner) => [runner]),
+    ...(writers.length > 0 ? [writers] : []),
+  ];
 
-    // Check if tool is available
-    const available = await runner.isAvailable(cwd);
-    if (!available) {
-      bySource[runner.name] = {
-        source: runner.name,
-        results: [],
-        success: true,
-        skipped: true,
-      };
-      continue;
+  const completed = new Map<string, RunnerResult>();
+  await runConcurrently(lanes, concurrency, async (lane) => {
+    for (const runner of lane) {
+      completed.set(runner.name, await runTool(runner, config, options));
     }
+  });
 
-    // Run the tool
-    const result = await runner.run({
-      cwd,
-      fix,
-      files,
-      config: toolConfig,
-    });
-
+  for (const runner of runners) {
+    const result = completed.get(runner.name)!;
     bySource[runner.name] = result;
     allResults.push(...result.results);
 
@@ -104,8 +143,8 @@ export async function runAllTools(
 }
 
 /**
- * Get list of available runners
+ * Get list of available runners, including configured external tools
  */
-export function getAvailableRunners(): Runner[] {
-  return [...runners];
+export function getAvailableRunners(config?: ChaperoneConfig): Runner[] {
+  return config ? getRunners(config) : [...runners];
 }
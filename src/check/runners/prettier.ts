@@ -94,6 +94,7 @@ function hasPrettierConfig(cwd: string): boolean {
  */
 export const prettierRunner: Runner = {
   name: "prettier",
+  writesFiles: true,
 
   async isAvailable(cwd: string): Promise<boolean> {
     if (!hasPrettierConfig(cwd)) {
@@ -116,6 +117,15 @@ export const prettierRunner: Runner = {
       };
     }
 
+    // An explicit, empty file list means there is nothing to do
+    if (files && files.length === 0) {
+      return {
+        source: "prettier",
+        results: [],
+        success: true,
+      };
+    }
+
     const prettierPath = await findNpmBinary("prettier", cwd);
     if (!prettierPath) {
       return {
@@ -133,9 +143,9 @@ export const prettierRunner: Runner = {
       args.push(...config.args);
     }
 
-    // Add files or default pattern
-    if (files && files.length > 0) {
-      args.push(...files);
+    // Add files or default pattern; unknown file types in an explicit list are skipped
+    if (files) {
+      args.push("--ignore-unknown", ...files);
     } else {
       args.push(".");
     }
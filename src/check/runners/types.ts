@@ -19,6 +19,14 @@ export interface RunnerOptions {
   fix?: boolean;
   config?: ToolConfig;
   files?: string[];
+  configFile?: string; // Config file relative to cwd; tool failures are reported on it
+}
+
+/**
+ * Options for running all tools
+ */
+export interface AllRunnersOptions extends Omit<RunnerOptions, "config"> {
+  concurrency?: number; // Max tools run at once (default: 1)
 }
 
 /**
@@ -26,6 +34,7 @@ export interface RunnerOptions {
  */
 export interface Runner {
   name: string;
+  writesFiles?: boolean; // Rewrites files with --fix, so it must not run alongside other writers
   run(options: RunnerOptions): Promise<RunnerResult>;
   isAvailable(cwd: string): Promise<boolean>;
 }
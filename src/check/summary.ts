@@ -0,0 +1,72 @@
+import type { BaselineSummary, CheckResult, CheckSummary, CustomRule, FixSummary } from "./types";
+
+/**
+ * Group results by source
+ */
+function groupBySource(results: CheckResult[]): Record<string, CheckResult[]> {
+  const groups: Record<string, CheckResult[]> = {};
+
+  for (const result of results) {
+    const source = result.source ?? "unknown";
+    if (!groups[source]) {
+      groups[source] = [];
+    }
+    groups[source].push(result);
+  }
+
+  return groups;
+}
+
+/**
+ * Group results by workspace package, keeping every package (even without results) in the given order
+ */
+function groupByPackage(results: CheckResult[], packages: string[]): Record<string, CheckResult[]> {
+  const groups: Record<string, CheckResult[]> = Object.fromEntries(packages.map((name) => [name, []]));
+
+  for (const result of results) {
+    if (result.package !== undefined) {
+      (groups[result.package] ??= []).push(result);
+    }
+  }
+
+  return groups;
+}
+
+/**
+ * Build a check summary from a flat list of results
+ */
+export function createSummary(
+  results: CheckResult[],
+  {
+    totalFiles,
+    startTime,
+    fixes,
+    baseline,
+    rules,
+    packages,
+  }: {
+    totalFiles: number;
+    startTime: number;
+    fixes?: FixSummary;
+    baseline?: BaselineSummary;
+    rules?: CustomRule[];
+    packages?: string[];
+  }
+): CheckSummary {
+  const totalErrors = results.filter((r) => r.severity === "error").length;
+  const totalWarnings = results.filter((r) => r.severity === "warning").length;
+
+  return {
+    totalFiles,
+    totalErrors,
+    totalWarnings,
+    duration: Date.now() - startTime,
+    success: totalErrors === 0,
+    results,
+    bySource: groupBySource(results),
+    byPackage: packages ? groupByPackage(results, packages) : undefined,
+    fixes,
+    baseline,
+    rules,
+  };
+}
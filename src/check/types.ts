@@ -1,3 +1,35 @@
+import type { z } from "zod";
+import type {
+  aiGeneratedMetadataSchema,
+  baseRuleSchema,
+  chaperoneConfigSchema,
+  commandRuleSchema,
+  componentLocationRuleSchema,
+  customRuleSchema,
+  deadCodeRuleSchema,
+  externalToolConfigSchema,
+  fileContractAssertionsSchema,
+  fileContractRuleSchema,
+  fileNamingRuleSchema,
+  filePairingRuleSchema,
+  fileStructureRuleSchema,
+  fileSuffixContentRuleSchema,
+  forbiddenImportRuleSchema,
+  importBoundaryRuleSchema,
+  noCyclesRuleSchema,
+  packageBoundaryRuleSchema,
+  packageFieldsRuleSchema,
+  publicApiRuleSchema,
+  regexRuleSchema,
+  relationshipActionSchema,
+  relationshipRuleSchema,
+  retiredPathRuleSchema,
+  scaffoldSchema,
+  symbolReferenceRuleSchema,
+  toolConfigSchema,
+  toolOutputParserSchema,
+} from "./config-schema";
+
 /**
  * Unified check result format
  */
@@ -9,6 +41,7 @@ export interface CheckResult {
   column?: number;
   severity: "error" | "warning";
   source?: string; // The source of the rule (typescript, eslint, custom, ai-instructions)
+  package?: string; // Workspace package the result belongs to (workspace mode only)
   fixable?: boolean;
   suggestion?: string;
   // Additional context for debugging/fixing
@@ -37,6 +70,32 @@ export interface CheckSummary {
   success: boolean;
   results: CheckResult[];
   bySource: Record<string, CheckResult[]>;
+  byPackage?: Record<string, CheckResult[]>; // Workspace mode: results per package, root package first
+  fixes?: FixSummary; // Present when running with --fix
+  baseline?: BaselineSummary; // Present when a baseline file was applied or written
+  rules?: CustomRule[]; // Custom rules that ran, for formatters that describe them (SARIF)
+}
+
+/**
+ * Outcome of comparing results against the baseline file
+ */
+export interface BaselineSummary {
+  file: string; // Baseline file name, relative to cwd
+  matched: number; // Known violations hidden from the report
+  fixed: number; // Baseline entries with no matching violation anymore
+  updated: boolean; // The baseline file was rewritten with --update-baseline
+}
+
+/**
+ * Outcome of applying rule fixes with --fix
+ */
+export interface FixSummary {
+  applied: number;
+  skipped: Array<{
+    file: string;
+    rule: string;
+    reason: string;
+  }>;
 }
 
 /**
@@ -46,323 +105,108 @@ export interface CheckOptions {
   configPath?: string;
   cwd: string;
   fix?: boolean;
-  format: "text" | "json" | "ai";
+  format: "text" | "json" | "ai" | "sarif" | "junit" | "github";
   quiet?: boolean;
   noWarnings?: boolean;
   include?: string[];
   exclude?: string[];
   debug?: boolean;
+  files?: string[]; // Restrict file-based checks to these files (relative to cwd)
+  staged?: boolean; // Restrict to files staged in git
+  changed?: boolean | string; // Restrict to uncommitted changes, plus commits since a base ref when a string
+  reportUnusedDisables?: boolean; // Report chaperone-disable comments that suppressed nothing
+  baseline?: boolean; // Hide violations recorded in .chaperone-baseline.json (default: true)
+  updateBaseline?: boolean; // Rewrite .chaperone-baseline.json with the current violations
+  concurrency?: number; // Max tools and rules run at once (default: one per CPU)
+  cache?: boolean; // Reuse custom rule results from node_modules/.cache/chaperone (default: true)
+  workspaces?: boolean; // Check each workspace package with its own config (default: config.workspaces)
 }
 
 /**
- * Base interface for all custom rules
+ * Base interface for all custom rules; plugin rules add their own fields
  */
-export interface BaseRule {
+export interface BaseRule extends z.infer<typeof baseRuleSchema> {
   type: string;
-  id: string;
-  severity: "error" | "warning";
-  exclude?: string[]; // Glob patterns to exclude from this rule (e.g., ["**/*.test.ts", "src/generated/**"])
-  disabled?: boolean; // Override a preset rule to disable it
 }
 
 /**
  * Optional metadata for AI-generated rules
  */
-export interface AIGeneratedMetadata {
-  source?: string; // File it was extracted from (e.g., "CLAUDE.md")
-  originalText?: string; // The original instruction text
-}
+export type AIGeneratedMetadata = z.infer<typeof aiGeneratedMetadataSchema>;
 
 /**
- * File naming rule - check for companion files
+ * Scaffold template used by --fix to create a missing companion file.
+ * Templates support {{file}}, {{companion}} and {{name}} placeholders.
  */
-export interface FileNamingRule extends BaseRule, AIGeneratedMetadata {
-  type: "file-naming";
-  pattern: string; // Glob for files to check
-  requireCompanion?: {
-    transform: string; // e.g., "$1.styles.ts"
-  };
-  message?: string;
-}
+export type ScaffoldConfig = z.infer<typeof scaffoldSchema>;
 
 /**
- * File pairing rule - map each matched file path to a companion path and enforce existence/non-existence
+ * Built-in custom rules. The .chaperone.json schema in config-schema.ts defines their fields.
  */
-export interface FilePairingRule extends BaseRule, AIGeneratedMetadata {
-  type: "file-pairing";
-  files: string; // Glob for source files
-  pair: {
-    from: string; // Regex pattern applied to relative file path
-    to: string; // Replacement string
-  };
-  mustExist?: boolean; // true = companion must exist, false = companion must NOT exist
-  requireTransformMatch?: boolean; // true = rule errors when pair.from doesn't match a file path
-  message?: string;
-}
+export type FileNamingRule = z.infer<typeof fileNamingRuleSchema>;
+export type FilePairingRule = z.infer<typeof filePairingRuleSchema>;
+export type FileContractAssertions = z.infer<typeof fileContractAssertionsSchema>;
+export type FileContractRule = z.infer<typeof fileContractRuleSchema>;
+export type RegexRule = z.infer<typeof regexRuleSchema>;
+export type PackageFieldsRule = z.infer<typeof packageFieldsRuleSchema>;
+export type ComponentLocationRule = z.infer<typeof componentLocationRuleSchema>;
+export type CommandRule = z.infer<typeof commandRuleSchema>;
+export type SymbolReferenceRule = z.infer<typeof symbolReferenceRuleSchema>;
+export type RetiredPathRule = z.infer<typeof retiredPathRuleSchema>;
+export type FileSuffixContentRule = z.infer<typeof fileSuffixContentRuleSchema>;
+export type FileStructureRule = z.infer<typeof fileStructureRuleSchema>;
+export type ForbiddenImportRule = z.infer<typeof forbiddenImportRuleSchema>;
+export type ImportBoundaryRule = z.infer<typeof importBoundaryRuleSchema>;
+export type PublicApiRule = z.infer<typeof publicApiRuleSchema>;
+export type RelationshipAction = z.infer<typeof relationshipActionSchema>;
+export type RelationshipRule = z.infer<typeof relationshipRuleSchema>;
+export type PackageBoundaryRule = z.infer<typeof packageBoundaryRuleSchema>;
+export type NoCyclesRule = z.infer<typeof noCyclesRuleSchema>;
+export type DeadCodeRule = z.infer<typeof deadCodeRuleSchema>;
 
 /**
- * File contract assertions - semantic content checks beyond regex
- */
-export interface FileContractAssertions {
-  firstLine?: string; // First non-empty, non-comment line must match (string or regex)
-  mustExportDefault?: boolean;
-  mustExportNamed?: boolean;
-  mustNotImport?: string[]; // Module patterns that must not be imported (supports * glob)
-  mustImport?: string[]; // Module patterns that must be imported
-  maxLines?: number;
-  minLines?: number;
-  mustHaveJSDoc?: boolean; // Exported functions must have JSDoc
-  maxExports?: number;
-  mustBeModule?: boolean; // Must have at least one import or export
-}
-
-/**
- * File contract rule - enforce required/forbidden content patterns per file with optional filename capture templating
- */
-export interface FileContractRule extends BaseRule, AIGeneratedMetadata {
-  type: "file-contract";
-  files: string; // Glob for files to check
-  requiredPatterns?: string[]; // Patterns that must match each file
-  requiredAnyPatterns?: string[]; // At least one pattern must match each file
-  forbiddenPatterns?: string[]; // Patterns that must not match each file
-  captureFromPath?: {
-    pattern: string; // Regex pattern applied to file path or basename
-    group?: number | string; // Capture group index or named group
-    source?: "path" | "basename"; // Defaults to path
-  };
-  templatedRequiredPatterns?: string[]; // Supports {{capture}} placeholder
-  templatedRequiredAnyPatterns?: string[]; // Supports {{capture}} placeholder
-  templatedForbiddenPatterns?: string[]; // Supports {{capture}} placeholder
-  assertions?: FileContractAssertions; // Semantic content checks
-  message?: string;
-}
-
-/**
- * Regex rule - search for forbidden/required patterns
- */
-export interface RegexRule extends BaseRule, AIGeneratedMetadata {
-  type: "regex";
-  pattern: string; // Regex to find
-  files: string; // Glob for files
-  message: string;
-  mustMatch?: boolean; // true = must exist, false = must NOT exist (default)
-  reportOnce?: boolean; // true = report only first match per file (useful for file-level rules like "must use .tsx")
-}
-
-/**
- * Package fields rule - validate package.json has required fields
- */
-export interface PackageFieldsRule extends BaseRule, AIGeneratedMetadata {
-  type: "package-fields";
-  requiredFields: string[]; // Fields that must exist (supports dot notation: "scripts.build")
-  forbiddenFields?: string[]; // Fields that must NOT exist
-  fieldPatterns?: Record<string, string>; // Field value must match regex pattern
-  message?: string;
-}
-
-/**
- * Component location rule - ensure component types are in correct folders
- */
-export interface ComponentLocationRule extends BaseRule, AIGeneratedMetadata {
-  type: "component-location";
-  files: string; // Glob for component files to check
-  componentType: "presentational" | "stateful"; // Type of component to check
-  requiredLocation: string; // Folder/pattern where these components should be
-  mustBeIn: boolean; // true = must be in location, false = must NOT be in location
-  message?: string;
-}
-
-/**
- * Command rule - run command-based invariant checks
- */
-export interface CommandRule extends BaseRule, AIGeneratedMetadata {
-  type: "command";
-  command: string; // Executable to run (e.g., "node", "npm")
-  args?: string[]; // Command arguments
-  cwd?: string; // Optional working directory (relative to project root)
-  timeoutMs?: number; // Optional command timeout (default: 30000)
-  expectedExitCode?: number; // Optional expected exit code (default: 0)
-  stdoutPattern?: string; // Optional regex that stdout must match
-  stderrPattern?: string; // Optional regex that stderr must match
-  message?: string;
-}
-
-/**
- * Symbol reference rule - ensure exported symbols are referenced in target files
- */
-export interface SymbolReferenceRule extends BaseRule, AIGeneratedMetadata {
-  type: "symbol-reference";
-  sourceFiles: string; // Glob for source files that define exported symbols
-  targetFiles: string; // Glob for files where symbols must be referenced
-  symbolKinds?: Array<"function-declaration" | "function-variable">;
-  symbolPattern?: string; // Optional regex to filter symbol names
-  ignoreSymbols?: string[]; // Symbols to ignore
-  message?: string;
-}
-
-/**
- * Retired path rule - prevent files in deprecated directories
- */
-export interface RetiredPathRule extends BaseRule, AIGeneratedMetadata {
-  type: "retired-path";
-  paths: Array<{
-    pattern: string; // Glob for retired location
-    reason?: string; // Why retired
-    migratedTo?: string; // Where to put files instead
-  }>;
-  message?: string;
-}
-
-/**
- * File suffix content rule - content rules by file suffix
- */
-export interface FileSuffixContentRule extends BaseRule, AIGeneratedMetadata {
-  type: "file-suffix-content";
-  suffix: string; // e.g., ".presentational.tsx"
-  files: string; // Glob scope (e.g., "src/**")
-  forbiddenPatterns?: Array<{ pattern: string; name: string }>;
-  requiredPatterns?: Array<{ pattern: string; name: string }>;
-  message?: string;
-}
-
-/**
- * File structure rule - enforce feature folder conventions
- */
-export interface FileStructureRule extends BaseRule, AIGeneratedMetadata {
-  type: "file-structure";
-  parentDirs: string; // Glob for parent dirs (e.g., "src/features/*")
-  required: string[]; // Must exist (e.g., ["ui", "index.ts"])
-  optional?: string[]; // May exist (e.g., ["lib", "model", "api"])
-  strict?: boolean; // If true, unlisted entries = violation
-  message?: string;
-}
-
-/**
- * Forbidden import rule - restrict imports to specific files
- */
-export interface ForbiddenImportRule extends BaseRule, AIGeneratedMetadata {
-  type: "forbidden-import";
-  files: string; // Glob for files to scan
-  restrictions: Array<{
-    source: string; // Regex matching import source
-    allowedIn: string[]; // Globs for files where this import IS allowed
-    message?: string;
-  }>;
-  checkPatterns?: Array<{
-    pattern: string; // Regex matching code usage (e.g., "\\binvoke\\(")
-    allowedIn: string[];
-    message?: string;
-  }>;
-  includeTypeImports?: boolean; // default: false (type imports are safe)
-  message?: string;
-}
-
-/**
- * Import boundary rule - enforce architectural layer boundaries
- */
-export interface ImportBoundaryRule extends BaseRule, AIGeneratedMetadata {
-  type: "import-boundary";
-  layers: Record<
-    string,
-    {
-      files: string; // Glob for layer files
-      allowImportsFrom: string[]; // Layer names allowed to import from
-    }
-  >;
-  includeTypeImports?: boolean; // default: true
-  includeDynamicImports?: boolean; // default: true
-  message?: string;
-}
-
-/**
- * Public API rule - enforce barrel file imports
+ * Union of all custom rule types
  */
-export interface PublicApiRule extends BaseRule, AIGeneratedMetadata {
-  type: "public-api";
-  modules: string; // Glob for module roots (e.g., "src/features/*")
-  files: string; // Glob for files to check
-  barrelFile?: string; // Default: "index.ts"
-  allowSameModule?: boolean; // Default: true
-  message?: string;
-}
+export type CustomRule = z.infer<typeof customRuleSchema>;
 
 /**
- * Relationship rule actions
+ * @deprecated Use RegexRule with source metadata instead
  */
-export type RelationshipAction =
-  | { mustHaveCompanion: { suffix?: string; pair?: { from: string; to: string } } }
-  | { mustNotHaveCompanion: { suffix?: string; pair?: { from: string; to: string } } }
-  | { mustImport: { companion?: boolean; modules?: string[] } }
-  | { mustNotImport: { modules: string[] } }
-  | { companionMustContain: { patterns: string[] } }
-  | { companionMustNot: { patterns: string[] } }
-  | { fileMustContain: { patterns: string[] } }
-  | { fileMustNot: { patterns: string[] } }
-  | { companionMaxLines: number }
-  | { maxLines: number };
+export type AIInstructionsRule = RegexRule;
 
 /**
- * Relationship rule - composite "if A then B" rules
+ * Tool runner configuration
  */
-export interface RelationshipRule extends BaseRule, AIGeneratedMetadata {
-  type: "relationship";
-  when: { files: string };
-  then: RelationshipAction[];
-  message?: string;
-}
+export type ToolConfig = z.infer<typeof toolConfigSchema>;
 
 /**
- * Union of all custom rule types
+ * How an external tool's output is turned into results.
+ *   regex — each line of stdout and stderr is matched against `pattern`; named groups
+ *           `file` and `message` are required, `line`, `column`, `rule` and `severity` optional
+ *   json  — stdout is parsed as JSON; `path` selects the result items ("[]" iterates an array,
+ *           e.g. "[].warnings[]"), and `fields` map result fields to paths within each item
+ *           ("../" steps out to the enclosing item, e.g. "../source")
+ * `severityMap` maps the tool's severity values; unmapped values containing "warn" are warnings.
  */
-export type CustomRule =
-  | FileNamingRule
-  | FilePairingRule
-  | FileContractRule
-  | RegexRule
-  | PackageFieldsRule
-  | ComponentLocationRule
-  | CommandRule
-  | SymbolReferenceRule
-  | RetiredPathRule
-  | FileSuffixContentRule
-  | FileStructureRule
-  | ForbiddenImportRule
-  | ImportBoundaryRule
-  | PublicApiRule
-  | RelationshipRule;
+export type ToolOutputParser = z.infer<typeof toolOutputParserSchema>;
 
 /**
- * @deprecated Use RegexRule with source metadata instead
+ * An external tool run alongside TypeScript, ESLint and Prettier (`rules.tools`).
+ * Built-in names (biome, oxlint, stylelint, vue-tsc, knip) only need `name`; any field overrides the default.
  */
-export type AIInstructionsRule = RegexRule;
+export type ExternalToolConfig = z.infer<typeof externalToolConfigSchema>;
 
-/**
- * Tool runner configuration
- */
-export interface ToolConfig {
-  enabled: boolean;
-  extensions?: string[];
-  args?: string[];
-}
+type ConfigSchema = z.infer<typeof chaperoneConfigSchema>;
 
 /**
  * AI instructions configuration
  */
-export interface AIInstructionsConfig {
-  autoDetect: boolean;
-  files: string[];
-  extractRules: boolean;
-}
+export type AIInstructionsConfig = NonNullable<ConfigSchema["aiInstructions"]>;
 
 /**
  * Rules configuration in .chaperone.json
  */
-export interface RulesConfig {
-  typescript?: ToolConfig;
-  eslint?: ToolConfig;
-  prettier?: ToolConfig;
-  custom?: CustomRule[];
-}
+export type RulesConfig = NonNullable<ConfigSchema["rules"]>;
 
 /**
  * Project detection info (from init command)
@@ -389,22 +233,12 @@ export interface ProjectConfig {
 }
 
 /**
- * Full chaperone configuration
+ * Full chaperone configuration, as validated by chaperoneConfigSchema.
+ * The schema accepts any `project` object, since chaperone init owns its shape.
  */
-export interface ChaperoneConfig {
-  version: string;
-  extends?: string[]; // Preset specifiers (e.g., "chaperone/react-layered", "./local-preset.json")
+export type ChaperoneConfig = Omit<ConfigSchema, "project"> & {
   project?: ProjectConfig;
-  rules?: RulesConfig;
-  include?: string[];
-  exclude?: string[];
-  integrations?: {
-    respectEslintIgnore?: boolean;
-    respectPrettierIgnore?: boolean;
-    useTypescriptPaths?: boolean;
-  };
-  aiInstructions?: AIInstructionsConfig;
-}
+};
 
 /**
  * Default configuration values
@@ -0,0 +1,200 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { dirname, join } from "node:path";
+import { watch } from "./watch";
+
+let cwd: string;
+
+const write = (file: string, content: string) => {
+  mkdirSync(dirname(join(cwd, file)), { recursive: true });
+  writeFileSync(join(cwd, file), content);
+};
+
+const config = (rules: unknown[]) => JSON.stringify({ version: "1.0.0", rules: { custom: rules } });
+
+/**
+ * Start watch mode and collect every redraw until the test stops it
+ */
+function startWatch() {
+  const controller = new AbortController();
+  const renders: string[] = [];
+  const done = watch({
+    cwd,
+    format: "text",
+    quiet: false,
+    noWarnings: false,
+    signal: controller.signal,
+    onRender: (output) => renders.push(output),
+  });
+
+  const waitForRender = async (count: number): Promise<string> => {
+    for (let waited = 0; renders.length < count; waited += 20) {
+      if (waited > 5000) throw new Error(`Timed out waiting for render ${count}`);
+      await Bun.sleep(20);
+    }
+    return renders[count - 1]!;
+  };
+  const stop = async () => {
+    controller.abort();
+    await done;
+  };
+  return { waitForRender, stop };
+}
+
+beforeEach(() => {
+  cwd = mkdtempSync(join(tmpdir(), "chaperone-watch-"));
+});
+
+afterEach(() => {
+  rmSync(cwd, { recursive: true, force: true });
+});
+
+describe("watch", () => {
+  test("re-runs a file rule on the changed file only, keeping the results of other files", async () => {
+    const rule = { id: "no-todo", type: "regex", severity: "error", pattern: "TODO", files: "src/**/*.ts", message: "No TODOs" };
+    write(".chaperone.json", config([rule]));
+    write("src/a.ts", "// TODO a\n");
+    write("src/b.ts", "// TODO b\n");
+
+    const session = startWatch();
+    try {
+      const first = await session.waitForRender(1);
+      expect(first).toContain("src/a.ts");
+      expect(first).toContain("src/b.ts");
+
+      write("src/a.ts", "// done\n");
+      const second = await session.waitForRender(2);
+      expect(second).not.toContain("src/a.ts");
+      expect(second).toContain("src/b.ts");
+      expect(second).toContain("1 file(s) changed, re-ran 1 rule(s)");
+
+      // Editing the config reloads it and re-checks everything
+      write(".chaperone.json", config([{ ...rule, disabled: true }]));
+      const third = await session.waitForRender(3);
+      expect(third).not.toContain("src/b.ts");
+      expect(third).toContain("Configuration reloaded");
+    } finally {
+      await session.stop();
+    }
+  });
+
+  test("re-checks importers of a file that import-boundary rules depend on", async () => {
+    write(
+      ".chaperone.json",
+      config([
+        {
+          id: "layers",
+          type: "import-boundary",
+          severity: "error",
+          layers: {
+            ui: { files: "src/ui/**/*", allowImportsFrom: [] },
+            data: { files: "src/data/**/*", allowImportsFrom: [] },
+          },
+        },
+      ])
+    );
+    write("src/ui/page.ts", 'import { db } from "../data/db";\n');
+
+    const session = startWatch();
+    try {
+      expect(await session.waitForRender(1)).not.toContain("cannot import");
+
+      // page.ts is unchanged, but its import now resolves into a forbidden layer
+      write("src/data/db.ts", "export const db = 1;\n");
+      expect(await session.waitForRender(2)).toContain('Layer "ui" cannot import from layer "data"');
+    } finally {
+      await session.stop();
+    }
+  });
+
+  test("re-checks import cycles project-wide when one side of a cycle changes", async () => {
+    write(".chaperone.json", config([{ id: "cycles", type: "no-cycles", severity: "error", files: "src/**/*.ts" }]));
+    write("src/a.ts", 'import { b } from "./b";\nexport const a = 1;\n');
+    write("src/b.ts", 'import { a } from "./a";\nexport const b = a;\n');
+
+    const session = startWatch();
+    try {
+      expect(await session.waitForRender(1)).toContain("Import cycle: src/a.ts → src/b.ts → src/a.ts");
+
+      // The cycle is reported on a.ts, but only b.ts changes
+      write("src/b.ts", "export const b = 1;\n");
+      const output = await session.waitForRender(2);
+      expect(output).not.toContain("Import cycle");
+      expect(output).toContain("re-ran 1 rule(s)");
+    } finally {
+      await session.stop();
+    }
+  });
+
+  test("re-runs plugin rules on their files, or on any change without a files hook, and survives a throwing rule", async () => {
+    write(
+      "plugin.mjs",
+      `import { readFileSync } from "node:fs";
+      import { join } from "node:path";
+      export const rules = [
+        {
+          type: "acme/no-legacy",
+          files: (rule) => [rule.files],
+          run: async (rule, options) => {
+            const content = readFileSync(join(options.cwd, "src/a.ts"), "utf-8");
+            if (content.includes("boom")) throw new Error("acme/no-legacy crashed");
+            const results = content.includes("legacy")
+              ? [{ file: "src/a.ts", rule: "acme/no-legacy/" + rule.id, message: "Legacy code", severity: "error", source: "custom" }]
+              : [];
+            return { ruleId: rule.id, results };
+          },
+        },
+        { type: "acme/noop", run: async (rule) => ({ ruleId: rule.id, results: [] }) },
+      ];`
+    );
+    write(
+      ".chaperone.json",
+      JSON.stringify({
+        version: "1.0.0",
+        plugins: ["./plugin.mjs"],
+        rules: {
+          custom: [
+            { id: "legacy", type: "acme/no-legacy", severity: "error", files: "src/**/*.ts" },
+            { id: "noop", type: "acme/noop", severity: "error" },
+          ],
+        },
+      })
+    );
+    write("src/a.ts", "// legacy\n");
+
+    const session = startWatch();
+    try {
+      expect(await session.waitForRender(1)).toContain("Legacy code");
+
+      write("src/a.ts", "// boom\n");
+      expect(await session.waitForRender(2)).toContain("Failed to check changes: acme/no-legacy crashed");
+
+      write("src/a.ts", "// done\n");
+      const output = await session.waitForRender(3);
+      expect(output).not.toContain("Legacy code");
+      expect(output).toContain("1 file(s) changed, re-ran 2 rule(s)");
+    } finally {
+      await session.stop();
+    }
+  });
+
+  test("re-checks dead code project-wide when an importer changes", async () => {
+    write(
+      ".chaperone.json",
+      config([{ id: "dead", type: "dead-code", severity: "error", files: "src/**/*.ts", entryPoints: ["src/main.ts"] }])
+    );
+    write("src/main.ts", "export const main = 1;\n");
+    write("src/util.ts", "export const util = 1;\n");
+
+    const session = startWatch();
+    try {
+      expect(await session.waitForRender(1)).toContain("File is not reachable from any entry point");
+
+      write("src/main.ts", 'import { util } from "./util";\nexport const main = util;\n');
+      expect(await session.waitForRender(2)).not.toContain("File is not reachable");
+    } finally {
+      await session.stop();
+    }
+  });
+});
@@ -0,0 +1,292 @@
+import { existsSync, statSync, watch as watchFs } from "node:fs";
+import { dirname, join, relative } from "node:path";
+import { CONFIG_FILENAME, getEffectivePatterns, resolveConfig } from "./config-loader";
+import { BUILT_IN_RULES, runAllRules } from "./rules";
+import type { RuleRunnerOptions } from "./rules";
+import { format } from "./formatters";
+import { collectFilesToCheck } from "./files";
+import { createSummary } from "./summary";
+import { loadRuleRegistry } from "./plugins";
+import { applyBaseline, BASELINE_FILENAME, loadBaseline, type Baseline } from "./baseline";
+import { createModuleGraph, MODULE_FILE_PATTERN, type ModuleGraph } from "./rules/utils/module-graph";
+import { createModuleResolver } from "./rules/utils/module-resolver";
+import { getRuleGlobs } from "./rules/utils/rule-globs";
+import { isExcludedPath, matchGlob } from "../utils/glob";
+import { getDefaultConcurrency } from "../utils/concurrency";
+import type { ChaperoneConfig, CheckOptions, CheckResult, CustomRule } from "./types";
+
+const DEBOUNCE_MS = 100;
+
+// Rules whose result for a file depends on the files it imports
+const DEPENDENT_RULE_TYPES = new Set(["import-boundary", "public-api"]);
+// Rules that always re-check the whole project when one of their files changes
+const PROJECT_WIDE_RULE_TYPES = new Set(["symbol-reference", "no-cycles", "dead-code", "package-boundary"]);
+// Rules whose result depends on which other files exist (companions, required entries)
+const STRUCTURAL_RULE_TYPES = new Set(["file-pairing", "file-naming", "relationship", "file-structure"]);
+// Everything else is a plugin rule, which may read any file and is always re-run in full
+const BUILT_IN_RULE_TYPES = new Set(BUILT_IN_RULES.map((runner) => runner.type));
+
+/**
+ * Options for watch mode
+ */
+export interface WatchOptions extends CheckOptions {
+  signal?: AbortSignal; // Stop watching when aborted
+  onRender?: (output: string) => void; // Receives each redraw (default: clear the terminal and print)
+  onDebug?: (message: string) => void;
+}
+
+/**
+ * A batch of file changes: path (relative to cwd) → whether files were added or removed
+ */
+type ChangeBatch = Map<string, { structural: boolean }>;
+
+interface WatchState {
+  config: ChaperoneConfig;
+  ruleOptions: RuleRunnerOptions;
+  include: string[];
+  configFile: string;
+  totalFiles: number;
+  graph: ModuleGraph | null;
+  baseline: Baseline | null;
+  resultsByRule: Map<string, CheckResult[]>;
+}
+
+/**
+ * Load config and build everything an incremental run needs
+ */
+async function loadWatchState(options: WatchOptions): Promise<WatchState> {
+  const { cwd, configPath, include, exclude, onDebug } = options;
+  const { config, path: configFile } = resolveConfig(cwd, configPath);
+  const registry = await loadRuleRegistry(config, configFile ? dirname(configFile) : cwd);
+  const patterns = getEffectivePatterns(config, include, exclude, cwd);
+  const files = collectFilesToCheck(cwd, patterns.include, patterns.exclude, patterns.isIgnored);
+  const useTypescriptPaths = config.integrations?.useTypescriptPaths ?? false;
+  const resolver = createModuleResolver(cwd, { useTypescriptPaths });
+
+  // The import graph is only needed to find reverse dependents for import-aware rules
+  const customRules = config.rules?.custom ?? [];
+  const needsGraph = customRules.some((rule) => DEPENDENT_RULE_TYPES.has(rule.type) && !rule.disabled);
+  const graph = needsGraph ? createModuleGraph(Array.from(files), cwd, resolver) : null;
+
+  return {
+    config,
+    ruleOptions: {
+      cwd,
+      include: patterns.include,
+      exclude: patterns.exclude,
+      isIgnored: patterns.isIgnored,
+      moduleResolver: resolver,
+      concurrency: options.concurrency ?? getDefaultConcurrency(),
+      registry,
+      onDebug,
+    },
+    include: patterns.include,
+    configFile: relative(cwd, configFile ?? join(cwd, CONFIG_FILENAME)),
+    totalFiles: files.size,
+    graph,
+    baseline: options.baseline !== false ? loadBaseline(cwd) : null,
+    resultsByRule: new Map(),
+  };
+}
+
+/**
+ * Whether a result belongs to the part of the project covered by `scope`.
+ * Directory-level results (file-structure) count when a scoped file lives inside them.
+ */
+function isResultInScope(result: CheckResult, scope: Set<string>): boolean {
+  if (scope.has(result.file)) return true;
+  for (const file of scope) {
+    if (file.startsWith(result.file + "/")) return true;
+  }
+  return false;
+}
+
+async function runRules(
+  state: WatchState,
+  rules: CustomRule[],
+  scope: Set<string> | undefined
+): Promise<void> {
+  if (rules.length === 0) return;
+
+  const config = { ...state.config, rules: { ...state.config.rules, custom: rules } };
+  const { byRule } = await runAllRules(config, { ...state.ruleOptions, scope });
+
+  for (const rule of rules) {
+    const fresh = byRule[rule.id]?.results ?? [];
+    if (!scope) {
+      state.resultsByRule.set(rule.id, fresh);
+      continue;
+    }
+    const kept = (state.resultsByRule.get(rule.id) ?? []).filter(
+      (result) => result.file !== ".chaperone.json" && !isResultInScope(result, scope)
+    );
+    state.resultsByRule.set(rule.id, [...kept, ...fresh]);
+  }
+}
+
+/**
+ * Re-run the rules affected by a batch of changes.
+ * Returns the number of rules that were re-run.
+ */
+async function runAffectedRules(state: WatchState, changes: ChangeBatch): Promise<number> {
+  const changed = new Set(changes.keys());
+  const structural = Array.from(changes.values()).some((change) => change.structural);
+  const customRules = (state.config.rules?.custom ?? []).filter((rule) => !rule.disabled);
+
+  // A fresh resolver, since added or removed files change how imports resolve
+  const resolver = createModuleResolver(state.ruleOptions.cwd, {
+    useTypescriptPaths: state.config.integrations?.useTypescriptPaths ?? false,
+  });
+  state.ruleOptions = { ...state.ruleOptions, moduleResolver: resolver };
+
+  // Collect reverse dependents before updating the graph, so importers of deleted files are included
+  const dependents = state.graph?.dependentsOf(changed) ?? new Set<string>();
+  for (const file of changed) {
+    if (!state.graph || !MODULE_FILE_PATTERN.test(file)) continue;
+    if (existsSync(join(state.ruleOptions.cwd, file))) state.graph.update(file, resolver);
+    else state.graph.remove(file);
+  }
+  // Added files can satisfy imports that did not resolve before, so re-resolve every file
+  if (state.graph && structural) {
+    for (const file of [...state.graph.imports.keys()]) {
+      if (!changed.has(file)) state.graph.update(file, resolver);
+    }
+  }
+  for (const file of state.graph?.dependentsOf(changed) ?? []) {
+    dependents.add(file);
+  }
+
+  const fullRules: CustomRule[] = [];
+  const scopedRules: CustomRule[] = [];
+  const dependentRules: CustomRule[] = [];
+
+  for (const rule of customRules) {
+    const globs = getRuleGlobs(rule, state.ruleOptions.registry);
+    const touched = Array.from(changed).some((file) => globs.some((glob) => matchGlob(file, glob)));
+    const touchesDependents = DEPENDENT_RULE_TYPES.has(rule.type) && dependents.size > 0;
+
+    if (STRUCTURAL_RULE_TYPES.has(rule.type) && structural) {
+      fullRules.push(rule);
+    } else if (PROJECT_WIDE_RULE_TYPES.has(rule.type)) {
+      if (touched) fullRules.push(rule);
+    } else if (DEPENDENT_RULE_TYPES.has(rule.type)) {
+      if (touched || touchesDependents) dependentRules.push(rule);
+    } else if (!BUILT_IN_RULE_TYPES.has(rule.type)) {
+      // Without a `files` hook, any change may affect the rule
+      if (touched || globs.length === 0) fullRules.push(rule);
+    } else if (touched) {
+      scopedRules.push(rule);
+    }
+  }
+
+  await runRules(state, fullRules, undefined);
+  await runRules(state, scopedRules, changed);
+  await runRules(state, dependentRules, new Set([...changed, ...dependents]));
+
+  return fullRules.length + scopedRules.length + dependentRules.length;
+}
+
+function render(state: WatchState, options: WatchOptions, startTime: number, status: string): void {
+  let results = Array.from(state.resultsByRule.values()).flat();
+  // Tools are not run here, so only hide known violations; "fixed" counts would be misleading
+  if (state.baseline) {
+    results = applyBaseline(results, state.baseline, options.cwd).results;
+  }
+  const summary = createSummary(results, { totalFiles: state.totalFiles, startTime });
+  const output = format(summary, "text", { quiet: options.quiet, noWarnings: options.noWarnings });
+  const footer = `\n\x1b[2m${status}\nWatching for changes... (Ctrl+C to exit)\x1b[0m`;
+
+  if (options.onRender) {
+    options.onRender(output + footer);
+  } else {
+    process.stdout.write("\x1b[2J\x1b[3J\x1b[H");
+    console.log(output + footer);
+  }
+}
+
+/**
+ * Run custom rules, then watch the project and re-run only the rules affected by each change.
+ * Tool runners (TypeScript, ESLint, Prettier) are not part of watch mode.
+ * Resolves when `options.signal` is aborted.
+ */
+export async function watch(options: WatchOptions): Promise<void> {
+  const { cwd, signal, onDebug } = options;
+
+  let state = await loadWatchState(options);
+  let startTime = Date.now();
+  await runRules(state, (state.config.rules?.custom ?? []).filter((rule) => !rule.disabled), undefined);
+  render(state, options, startTime, `Checked ${state.totalFiles} file(s) in ${Date.now() - startTime}ms`);
+
+  let pending: ChangeBatch = new Map();
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let running: Promise<void> = Promise.resolve();
+
+  const isWatched = (file: string): boolean => {
+    if (file === state.configFile || file === BASELINE_FILENAME) return true;
+    if (file.startsWith(".git/") || file.split("/").includes("node_modules")) return false;
+    if (isExcludedPath(file, state.ruleOptions.exclude)) return false;
+    if (state.ruleOptions.isIgnored?.(file, false)) return false;
+
+    const globs = [...state.include, ...(state.config.rules?.custom ?? []).flatMap((rule) => getRuleGlobs(rule, state.ruleOptions.registry))];
+    return globs.some((glob) => matchGlob(file, glob));
+  };
+
+  const flush = (): void => {
+    const batch = pending;
+    pending = new Map();
+    timer = null;
+
+    // A failing batch is reported and must not reject the chain, or later batches never run
+    running = running.then(async () => {
+      startTime = Date.now();
+      let status: string;
+
+      try {
+        if (batch.has(state.configFile) || batch.has(BASELINE_FILENAME)) {
+          onDebug?.("Configuration changed, reloading");
+          try {
+            state = await loadWatchState(options);
+          } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            render(state, options, startTime, `Failed to reload configuration: ${message}`);
+            return;
+          }
+          await runRules(state, (state.config.rules?.custom ?? []).filter((rule) => !rule.disabled), undefined);
+          status = `Configuration reloaded, checked ${state.totalFiles} file(s) in ${Date.now() - startTime}ms`;
+        } else {
+          const count = await runAffectedRules(state, batch);
+          status = `${batch.size} file(s) changed, re-ran ${count} rule(s) in ${Date.now() - startTime}ms`;
+        }
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        status = `Failed to check changes: ${message}`;
+      }
+
+      render(state, options, startTime, status);
+    });
+  };
+
+  const watcher = watchFs(cwd, { recursive: true }, (eventType, filename) => {
+    if (!filename) return;
+    const file = filename.toString().split("\\").join("/");
+
+    // The file may be gone already; statSync then returns undefined
+    if (statSync(join(cwd, file), { throwIfNoEntry: false })?.isDirectory()) return;
+    if (!isWatched(file)) return;
+
+    const structural = eventType === "rename" || pending.get(file)?.structural === true;
+    pending.set(file, { structural });
+
+    if (timer) clearTimeout(timer);
+    timer = setTimeout(flush, DEBOUNCE_MS);
+  });
+
+  await new Promise<void>((resolvePromise) => {
+    if (signal?.aborted) return resolvePromise();
+    signal?.addEventListener("abort", () => resolvePromise(), { once: true });
+  });
+
+  if (timer) clearTimeout(timer);
+  watcher.close();
+  await running;
+}
@@ -1,10 +1,31 @@
 #!/usr/bin/env bun
 
+import { dirname, relative, resolve } from "node:path";
 import { VERSION } from "./version";
 import { runInit } from "./init";
-import { checkAndFormat, createCheckOptions } from "./check";
+import {
+  buildConfigJsonSchema,
+  buildImportGraph,
+  checkAndFormat,
+  clearRuleCache,
+  createCheckOptions,
+  diffPreset,
+  formatPreset,
+  formatPresetDiff,
+  formatGraph,
+  formatPresetList,
+  formatResolvedConfig,
+  GRAPH_FORMATS,
+  formatResolvedConfigJson,
+  loadRuleRegistry,
+  resolveConfig,
+  RULE_CACHE_DIR,
+  validateConfig,
+  watch,
+} from "./check";
 import { formatAI } from "./check/formatters";
 import type { OutputFormat } from "./check/formatters";
+import type { GraphFormat } from "./check";
 import { copyToClipboard } from "./utils/clipboard";
 import { createSpinner } from "./utils/spinner";
 import { runAnalyze } from "./analyze";
@@ -20,19 +41,36 @@ COMMANDS:
   init        Initialize Chaperone configuration
   check       Check codebase for convention violations
   analyze     Extract rules from AI instruction files (CLAUDE.md, etc.)
+  config      Print or validate the resolved configuration
+  presets     List, show and diff built-in presets
+  graph       Print the import graph (DOT, Mermaid or JSON)
+  schema      Print the JSON Schema for .chaperone.json
+  cache       Manage the rule result cache (cache clear)
   version     Show version information
   help        Show this help message
 
 CHECK OPTIONS:
-  --config, -c <path>   Config file path (default: .chaperone.json)
+  --config, -c <path>   Config file path (default: nearest chaperone config)
   --cwd <path>          Working directory (default: current directory)
   --fix                 Auto-fix issues where possible
-  --format, -f <type>   Output format: text, json, ai (default: text)
+  --format, -f <type>   Output format: text, json, ai, sarif, junit,
+                        github (default: text)
   --quiet, -q           Only show errors
   --no-warnings         Hide warnings, show only errors
   --copy                Copy remaining errors to clipboard (AI format)
   --no-progress         Disable progress spinner
   --debug               Show detailed rule execution info
+  --staged              Only check files staged in git (working-tree content)
+  --changed [base]      Only check uncommitted changes (and commits since <base>)
+  --files <list>        Only check these files (comma-separated)
+  --watch, -w           Re-run affected custom rules on every file change
+  --report-unused-disables
+                        Warn about suppression comments that suppress nothing
+  --update-baseline     Record current violations in .chaperone-baseline.json
+  --concurrency <n>     Max tools and rules run in parallel (default: CPU count)
+  --no-baseline         Report violations recorded in the baseline too
+  --no-cache            Re-run every custom rule instead of reusing cached results
+  --workspaces          Check each workspace package with its own config
 
 GENERAL OPTIONS:
   --help, -h            Show help
@@ -50,8 +88,20 @@ EXAMPLES:
   chaperone check --fix --copy           Fix and copy remaining to clipboard
   chaperone check --format ai            AI-friendly output
   chaperone check --format json          JSON output for CI/CD
+  chaperone check --format sarif         SARIF for code-scanning tools
+  chaperone check --format github        GitHub Actions annotations
+  chaperone check --staged               Pre-commit: check staged files only
+  chaperone check --changed main         PR: check files changed since main
   chaperone analyze                      Extract rules from AI files
   chaperone analyze --dry-run            Preview without saving
+  chaperone config print                 Show the effective config
+  chaperone config validate              Check the config for errors
+  chaperone presets list                 List built-in presets
+  chaperone presets diff react-layered   Show which preset rules you override
+  chaperone graph --from src/ui --to src/data
+                                         How does ui reach data?
+  chaperone schema > schema.json         Save the config JSON Schema
+  chaperone cache clear                  Delete cached rule results
   chaperone version
 `;
 
@@ -63,6 +113,9 @@ function showVersion(): void {
   console.log(`chaperone v${VERSION}`);
 }
 
+// Formats whose stdout is parsed by other tools, so no spinner output is mixed in
+const MACHINE_READABLE_FORMATS: OutputFormat[] = ["json", "sarif", "junit", "github"];
+
 interface CheckArgs {
   config?: string;
   cwd?: string;
@@ -73,6 +126,16 @@ interface CheckArgs {
   noProgress?: boolean;
   noWarnings?: boolean;
   debug?: boolean;
+  staged?: boolean;
+  changed?: boolean | string;
+  files?: string[];
+  watch?: boolean;
+  reportUnusedDisables?: boolean;
+  updateBaseline?: boolean;
+  noBaseline?: boolean;
+  concurrency?: number;
+  noCache?: boolean;
+  workspaces?: boolean;
   help?: boolean;
 }
 
@@ -126,6 +189,62 @@ function parseCheckArgs(args: string[]): CheckArgs {
       case "--debug":
         result.debug = true;
         break;
+
+      case "--report-unused-disables":
+        result.reportUnusedDisables = true;
+        break;
+
+      case "--update-baseline":
+        result.updateBaseline = true;
+        break;
+
+      case "--no-baseline":
+        result.noBaseline = true;
+        break;
+
+      case "--concurrency":
+        result.concurrency = Number(args[++i]);
+        break;
+
+      case "--no-cache":
+        result.noCache = true;
+        break;
+
+      case "--workspaces":
+        result.workspaces = true;
+        break;
+
+      case "--no-workspaces":
+        result.workspaces = false;
+        break;
+
+      case "--staged":
+        result.staged = true;
+        break;
+
+      case "--changed": {
+        // Optional base ref: consume the next argument unless it is another flag
+        const next = args[i + 1];
+        if (next !== undefined && !next.startsWith("-")) {
+          result.changed = next;
+          i++;
+        } else {
+          result.changed = true;
+        }
+        break;
+      }
+
+      case "--watch":
+      case "-w":
+        result.watch = true;
+        break;
+
+      case "--files":
+        result.files = [
+          ...(result.files ?? []),
+          ...(args[++i] ?? "").split(",").map((file) => file.trim()).filter(Boolean),
+        ];
+        break;
     }
   }
 
@@ -139,25 +258,98 @@ USAGE:
   chaperone check [options]
 
 OPTIONS:
-  --config, -c <path>   Config file path (default: .chaperone.json)
+  --config, -c <path>   Config file path (default: nearest chaperone config)
   --cwd <path>          Working directory (default: current directory)
   --fix                 Auto-fix issues where possible
-  --format, -f <type>   Output format: text, json, ai (default: text)
+  --format, -f <type>   Output format: text, json, ai, sarif, junit,
+                        github (default: text)
   --quiet, -q           Only show errors
   --no-warnings         Hide warnings, show only errors
   --copy                Copy remaining errors to clipboard (AI format)
   --no-progress         Disable progress spinner
   --debug               Show detailed rule execution info
+  --staged              Only check files staged in git. Their working-tree
+                        content is checked, including unstaged edits; use
+                        "git stash --keep-index" to check only what is staged
+  --changed [base]      Only check uncommitted changes; with <base>, also files
+                        committed since the merge base with <base>
+  --files <list>        Only check these files (comma-separated, repeatable)
+  --watch, -w           Watch for changes and re-run only the affected custom
+                        rules (plus importers of changed files for
+                        import-boundary/public-api). Tools are not run.
+  --report-unused-disables
+                        Warn about chaperone-disable comments that did not
+                        suppress any violation
+  --update-baseline     Write all current violations to .chaperone-baseline.json;
+                        later runs only report violations not in the baseline
+  --no-baseline         Ignore .chaperone-baseline.json and report everything
+  --concurrency <n>     Max tools and rules run in parallel (default: CPU
+                        count; 1 runs everything sequentially)
+  --no-cache            Ignore and do not update cached custom rule results
+                        in node_modules/.cache/chaperone
+  --workspaces          Check the root and each workspace package (from
+                        package.json "workspaces" or pnpm-workspace.yaml)
+                        with its own config, cascaded from the root config
+  --no-workspaces       Check as a single project even if the config sets
+                        "workspaces"
   --help, -h            Show this help message
 
+  With --staged, --changed or --files, custom rules and ESLint/Prettier only
+  report on the selected files. TypeScript and command rules still run
+  project-wide; package-fields runs only when package.json is selected.
+
 EXAMPLES:
   chaperone check
   chaperone check --fix
   chaperone check --format json
+  chaperone check --format sarif > chaperone.sarif
+  chaperone check --format junit > chaperone.xml
   chaperone check --fix --copy
   chaperone check --debug
+  chaperone check --staged
+  chaperone check --changed origin/main
+  chaperone check --files src/a.ts,src/b.ts
+  chaperone check --watch
+  chaperone check --workspaces
 `;
 
+async function runWatch(parsedArgs: CheckArgs, hasScope: boolean): Promise<number> {
+  if (
+    parsedArgs.fix ||
+    parsedArgs.updateBaseline ||
+    parsedArgs.workspaces ||
+    hasScope ||
+    (parsedArgs.format && parsedArgs.format !== "text")
+  ) {
+    console.error(
+      "Error: --watch cannot be combined with --fix, --update-baseline, --workspaces, --staged, --changed, --files or non-text formats"
+    );
+    return 1;
+  }
+
+  const controller = new AbortController();
+  process.once("SIGINT", () => controller.abort());
+
+  try {
+    await watch({
+      cwd: parsedArgs.cwd ?? process.cwd(),
+      configPath: parsedArgs.config,
+      format: "text",
+      quiet: parsedArgs.quiet ?? false,
+      noWarnings: parsedArgs.noWarnings ?? false,
+      baseline: !parsedArgs.noBaseline,
+      concurrency: parsedArgs.concurrency,
+      signal: controller.signal,
+      onDebug: parsedArgs.debug ? (message) => console.log(`\x1b[2m${message}\x1b[0m`) : undefined,
+    });
+    return 0;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`Error: ${message}`);
+    return 1;
+  }
+}
+
 async function runCheck(args: string[]): Promise<number> {
   const parsedArgs = parseCheckArgs(args);
 
@@ -166,7 +358,27 @@ async function runCheck(args: string[]): Promise<number> {
     return 0;
   }
 
-  const showProgress = !parsedArgs.noProgress && parsedArgs.format !== "json";
+  const scopeModes = [parsedArgs.staged, parsedArgs.changed, parsedArgs.files].filter(Boolean);
+  if (scopeModes.length > 1) {
+    console.error("Error: --staged, --changed and --files cannot be combined");
+    return 1;
+  }
+
+  if (parsedArgs.concurrency !== undefined && !(Number.isInteger(parsedArgs.concurrency) && parsedArgs.concurrency > 0)) {
+    console.error("Error: --concurrency must be a positive integer");
+    return 1;
+  }
+
+  if (parsedArgs.updateBaseline && parsedArgs.noBaseline) {
+    console.error("Error: --update-baseline and --no-baseline cannot be combined");
+    return 1;
+  }
+
+  if (parsedArgs.watch) {
+    return runWatch(parsedArgs, scopeModes.length > 0);
+  }
+
+  const showProgress = !parsedArgs.noProgress && !MACHINE_READABLE_FORMATS.includes(parsedArgs.format ?? "text");
 
   // Track completed steps to avoid duplicates
   const completedSteps = new Set<string>();
@@ -180,6 +392,15 @@ async function runCheck(args: string[]): Promise<number> {
     quiet: parsedArgs.quiet ?? false,
     noWarnings: parsedArgs.noWarnings ?? false,
     debug: parsedArgs.debug ?? false,
+    staged: parsedArgs.staged,
+    changed: parsedArgs.changed,
+    files: parsedArgs.files,
+    reportUnusedDisables: parsedArgs.reportUnusedDisables ?? false,
+    baseline: !parsedArgs.noBaseline,
+    updateBaseline: parsedArgs.updateBaseline ?? false,
+    concurrency: parsedArgs.concurrency,
+    cache: !parsedArgs.noCache,
+    workspaces: parsedArgs.workspaces,
     onProgress: showProgress
       ? (step, status) => {
           if (status === "start") {
@@ -241,6 +462,222 @@ async function runCheck(args: string[]): Promise<number> {
   }
 }
 
+const CACHE_HELP_TEXT = `
+chaperone cache - Manage cached custom rule results
+
+USAGE:
+  chaperone cache clear [--cwd <path>]
+
+Results are cached in ${RULE_CACHE_DIR} and reused when a file, the rule
+config and the chaperone version are unchanged. Use "chaperone check --no-cache"
+to bypass the cache for a single run.
+`;
+
+function runCache(args: string[]): number {
+  const subcommand = args[0];
+  if (!subcommand || subcommand === "--help" || subcommand === "-h") {
+    console.log(CACHE_HELP_TEXT);
+    return 0;
+  }
+  if (subcommand !== "clear") {
+    console.error(`Unknown cache command: ${subcommand}`);
+    console.error('Run "chaperone cache --help" for usage information');
+    return 1;
+  }
+
+  const cwdIndex = args.indexOf("--cwd");
+  const cwd = cwdIndex !== -1 && args[cwdIndex + 1] ? args[cwdIndex + 1]! : process.cwd();
+  if (clearRuleCache(cwd)) {
+    console.log(`\x1b[32m✓\x1b[0m Cleared ${RULE_CACHE_DIR}`);
+  } else {
+    console.log(`No cache found in ${RULE_CACHE_DIR}`);
+  }
+  return 0;
+}
+
+const CONFIG_HELP_TEXT = `
+chaperone config - Inspect the resolved configuration
+
+USAGE:
+  chaperone config print [--json] [--config <path>] [--cwd <path>]
+  chaperone config validate [--config <path>] [--cwd <path>]
+
+COMMANDS:
+  print       Print the effective config after "extends", rule overrides and
+              "disabled" rules are applied. Each custom rule is annotated
+              with the preset or config file that defined or overrode it.
+  validate    Validate the config (including plugin rules); exits with 1 on
+              problems
+
+OPTIONS:
+  --json                Print the config and rule origins as JSON
+  --config, -c <path>   Config file path (default: nearest chaperone config)
+  --cwd <path>          Working directory (default: current directory)
+`;
+
+async function runConfig(args: string[]): Promise<number> {
+  const subcommand = args[0];
+  if (!subcommand || subcommand === "--help" || subcommand === "-h") {
+    console.log(CONFIG_HELP_TEXT);
+    return 0;
+  }
+  if (subcommand !== "print" && subcommand !== "validate") {
+    console.error(`Unknown config command: ${subcommand}`);
+    console.error('Run "chaperone config --help" for usage information');
+    return 1;
+  }
+
+  const option = (flags: string[]): string | undefined => {
+    const index = args.findIndex((arg) => flags.includes(arg));
+    return index !== -1 ? args[index + 1] : undefined;
+  };
+  const cwd = resolve(option(["--cwd"]) ?? process.cwd());
+
+  try {
+    const resolved = resolveConfig(cwd, option(["--config", "-c"]));
+
+    if (subcommand === "print") {
+      console.log(args.includes("--json") ? formatResolvedConfigJson(resolved) : formatResolvedConfig(resolved));
+      return 0;
+    }
+
+    const configName = resolved.path ? relative(cwd, resolved.path) : "default config";
+    const registry = await loadRuleRegistry(resolved.config, resolved.path ? dirname(resolved.path) : cwd);
+    const errors = validateConfig(resolved.config, registry);
+    if (errors.length > 0) {
+      console.error(`\x1b[31m✗\x1b[0m ${configName} has ${errors.length} problem(s):`);
+      for (const error of errors) {
+        console.error(`  - ${error}`);
+      }
+      return 1;
+    }
+
+    const ruleCount = Object.keys(resolved.ruleOrigins).length;
+    console.log(`\x1b[32m✓\x1b[0m ${configName} is valid (${ruleCount} custom rule(s))`);
+    return 0;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`Error: ${message}`);
+    return 1;
+  }
+}
+
+const PRESETS_HELP_TEXT = `
+chaperone presets - Inspect built-in presets
+
+USAGE:
+  chaperone presets list
+  chaperone presets show <name>
+  chaperone presets diff <name> [--config <path>] [--cwd <path>]
+
+COMMANDS:
+  list        List built-in presets
+  show        Show a preset's settings and rules
+  diff        Show which of a preset's rules your config overrides or
+              disables (with "disabled": true)
+
+<name> is a built-in preset name, with or without the "chaperone/" prefix.
+`;
+
+function runPresets(args: string[]): number {
+  const [subcommand, name] = args;
+  if (!subcommand || subcommand === "--help" || subcommand === "-h") {
+    console.log(PRESETS_HELP_TEXT);
+    return 0;
+  }
+  if (!["list", "show", "diff"].includes(subcommand)) {
+    console.error(`Unknown presets command: ${subcommand}`);
+    console.error('Run "chaperone presets --help" for usage information');
+    return 1;
+  }
+  if (subcommand !== "list" && (!name || name.startsWith("-"))) {
+    console.error(`Usage: chaperone presets ${subcommand} <name>`);
+    return 1;
+  }
+
+  const option = (flags: string[]): string | undefined => {
+    const index = args.findIndex((arg) => flags.includes(arg));
+    return index !== -1 ? args[index + 1] : undefined;
+  };
+
+  try {
+    if (subcommand === "list") {
+      console.log(formatPresetList());
+    } else if (subcommand === "show") {
+      console.log(formatPreset(name!));
+    } else {
+      const cwd = option(["--cwd"]) ?? process.cwd();
+      console.log(formatPresetDiff(diffPreset(name!, cwd, option(["--config", "-c"])), cwd));
+    }
+    return 0;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`Error: ${message}`);
+    return 1;
+  }
+}
+
+const GRAPH_HELP_TEXT = `
+chaperone graph - Print the resolved import graph
+
+USAGE:
+  chaperone graph [options]
+
+The graph covers the files "chaperone check" would check. Files are grouped
+by their import-boundary layer and labeled with their public-api module;
+imports a layer is not allowed to make are highlighted in red.
+
+OPTIONS:
+  --format, -f <type>   Output format: dot, mermaid, json (default: dot)
+  --from <path>         Only show files reachable from these files
+  --to <path>           Only show files that reach these files
+  --no-type-imports     Leave out type-only imports
+  --config, -c <path>   Config file path (default: nearest chaperone config)
+  --cwd <path>          Working directory (default: current directory)
+
+  <path> is a file, a directory or a glob. With both --from and --to, only
+  the files and imports on some path between them are shown.
+
+EXAMPLES:
+  chaperone graph | dot -Tsvg > imports.svg
+  chaperone graph --format mermaid --from src/ui --to src/data
+  chaperone graph --format json --to src/db/client.ts
+`;
+
+function runGraph(args: string[]): number {
+  if (args.includes("--help") || args.includes("-h")) {
+    console.log(GRAPH_HELP_TEXT);
+    return 0;
+  }
+
+  const option = (flags: string[]): string | undefined => {
+    const index = args.findIndex((arg) => flags.includes(arg));
+    return index !== -1 ? args[index + 1] : undefined;
+  };
+
+  const format = (option(["--format", "-f"]) ?? "dot") as GraphFormat;
+  if (!GRAPH_FORMATS.includes(format)) {
+    console.error(`Error: --format must be one of ${GRAPH_FORMATS.join(", ")}`);
+    return 1;
+  }
+
+  try {
+    const graph = buildImportGraph({
+      cwd: resolve(option(["--cwd"]) ?? process.cwd()),
+      configPath: option(["--config", "-c"]),
+      from: option(["--from"]),
+      to: option(["--to"]),
+      includeTypeImports: !args.includes("--no-type-imports"),
+    });
+    console.log(formatGraph(graph, format));
+    return 0;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`Error: ${message}`);
+    return 1;
+  }
+}
+
 async function main(): Promise<void> {
   const args = process.argv.slice(2);
   const command = args[0];
@@ -266,6 +703,16 @@ async function main(): Promise<void> {
     await runInit(args.slice(1));
   } else if (command === "analyze") {
     exitCode = await runAnalyze(args.slice(1));
+  } else if (command === "config") {
+    exitCode = await runConfig(args.slice(1));
+  } else if (command === "presets") {
+    exitCode = runPresets(args.slice(1));
+  } else if (command === "graph") {
+    exitCode = runGraph(args.slice(1));
+  } else if (command === "schema") {
+    console.log(JSON.stringify(buildConfigJsonSchema(), null, 2));
+  } else if (command === "cache") {
+    exitCode = runCache(args.slice(1));
   } else {
     console.error(`Unknown command: ${command}`);
     console.error('Run "chaperone help" for usage information');
@@ -22,8 +22,12 @@ export type {
 export {
   check,
   checkAndFormat,
+  watch,
   createCheckOptions,
   loadConfig,
+  resolveConfig,
+  defineConfig,
+  findConfigFile,
   getEffectivePatterns,
   runAllTools,
   runAllRules,
@@ -31,6 +35,20 @@ export {
   formatText,
   formatJson,
   formatAI,
+  formatSarif,
+  formatJunit,
+  formatGithub,
+  clearRuleCache,
+  defineRule,
+  createRuleRegistry,
+  loadRuleRegistry,
+  validateConfig,
+  buildConfigJsonSchema,
+  CONFIG_SCHEMA_URL,
+  collectFiles,
+  isInScope,
+  readProjectFile,
+  readProjectImports,
 } from "./check";
 
 export type {
@@ -49,6 +67,14 @@ export type {
   AIInstructionFile,
   ToolConfig,
   RulesConfig,
+  BaseRule,
+  ChaperonePlugin,
+  RuleRunner,
+  RuleRunnerOptions,
+  RuleResult,
+  RuleFix,
+  ResolvedConfig,
+  RuleOrigin,
 } from "./check";
 
 // Analyze command exports
@@ -58,5 +84,7 @@ export type { AnalyzeOptions, AnalyzeResult, SkippedInstruction } from "./analyz
 // Utils exports
 export { execCommand, findNpmBinary, commandExists } from "./utils/process";
 export { globSync, matchGlob, getAllFiles } from "./utils/glob";
+export { createIgnoreMatcher, parseIgnoreFile } from "./utils/ignore";
+export type { IgnoreMatcher, IgnoreRule } from "./utils/ignore";
 export { fileExists, readJsonFile, readTextFile, findFirstExisting, joinPath } from "./utils/fs";
 export { copyToClipboard } from "./utils/clipboard";
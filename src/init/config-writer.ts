@@ -3,6 +3,8 @@
  */
 
 import { writeFileSync } from "node:fs";
+import { CONFIG_FILENAMES } from "../check/config-loader";
+import { CONFIG_SCHEMA_URL } from "../check/config-schema";
 import { fileExists, joinPath } from "../utils/fs";
 import type { ChaperoneConfig } from "./types";
 
@@ -30,14 +32,15 @@ export function writeConfig(
 ): WriteConfigResult {
   const { force = false, dryRun = false } = options;
   const configPath = joinPath(cwd, CONFIG_FILENAME);
-  const content = JSON.stringify(config, null, 2);
+  const content = JSON.stringify({ $schema: CONFIG_SCHEMA_URL, ...config }, null, 2);
 
-  // Check if file already exists
-  if (fileExists(configPath) && !force) {
+  // Check if a config already exists, in any supported format
+  const existing = CONFIG_FILENAMES.find((name) => fileExists(joinPath(cwd, name)));
+  if (existing && !force) {
     return {
       success: false,
-      path: configPath,
-      message: `${CONFIG_FILENAME} already exists. Use --force to overwrite.`,
+      path: joinPath(cwd, existing),
+      message: `${existing} already exists. Use --force to overwrite.`,
     };
   }
 
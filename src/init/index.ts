@@ -82,6 +82,7 @@ function buildConfig(
     integrations: {
       respectEslintIgnore: detection.eslint.detected,
       respectPrettierIgnore: detection.prettier.detected,
+      respectGitignore: true,
       useTypescriptPaths: detection.typescript.detected,
     },
   };
@@ -50,6 +50,7 @@ export interface ProjectConfig {
 export interface IntegrationsConfig {
   respectEslintIgnore: boolean;
   respectPrettierIgnore: boolean;
+  respectGitignore: boolean;
   useTypescriptPaths: boolean;
 }
 
@@ -3,6 +3,7 @@ import type { CustomRule, ToolConfig } from "../check/types";
 export interface IntegrationsConfig {
   respectEslintIgnore?: boolean;
   respectPrettierIgnore?: boolean;
+  respectGitignore?: boolean;
   useTypescriptPaths?: boolean;
 }
 
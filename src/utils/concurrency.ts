@@ -0,0 +1,37 @@
+/**
+ * Concurrency utilities for running independent tasks in parallel
+ */
+
+import { availableParallelism } from "node:os";
+
+/**
+ * Default number of tasks to run at once: one per available CPU
+ */
+export function getDefaultConcurrency(): number {
+  return Math.max(1, availableParallelism());
+}
+
+/**
+ * Run `task` for every item with at most `limit` tasks in flight.
+ * Results are returned in input order regardless of completion order.
+ * The first rejection rejects the whole run; tasks already started still finish.
+ */
+export async function runConcurrently<T, R>(
+  items: readonly T[],
+  limit: number,
+  task: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+
+  const lane = async (): Promise<void> => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await task(items[index]!, index);
+    }
+  };
+
+  const lanes = Math.max(1, Math.min(limit, items.length));
+  await Promise.all(Array.from({ length: lanes }, lane));
+  return results;
+}
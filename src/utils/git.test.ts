@@ -0,0 +1,52 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { getChangedFiles, getStagedFiles } from "./git";
+import { execCommand } from "./process";
+
+let cwd: string;
+
+const git = async (...args: string[]) => {
+  const result = await execCommand("git", ["-c", "user.name=test", "-c", "user.email=test@example.com", ...args], { cwd });
+  if (result.exitCode !== 0) throw new Error(result.stderr);
+};
+
+beforeEach(async () => {
+  cwd = mkdtempSync(join(tmpdir(), "chaperone-git-"));
+  await git("init", "--quiet");
+});
+
+afterEach(() => {
+  rmSync(cwd, { recursive: true, force: true });
+});
+
+describe("getChangedFiles", () => {
+  test("lists staged, unstaged and untracked files before the first commit", async () => {
+    writeFileSync(join(cwd, "a.ts"), "a");
+    writeFileSync(join(cwd, "b.ts"), "b");
+    await git("add", "a.ts", "b.ts");
+    writeFileSync(join(cwd, "b.ts"), "b2");
+    writeFileSync(join(cwd, "c.ts"), "c");
+
+    expect(await getChangedFiles(cwd)).toEqual(["a.ts", "b.ts", "c.ts"]);
+    expect(await getStagedFiles(cwd)).toEqual(["a.ts", "b.ts"]);
+  });
+
+  test("diffs against HEAD, and the merge base with a base ref", async () => {
+    writeFileSync(join(cwd, "a.ts"), "a");
+    writeFileSync(join(cwd, "b.ts"), "b");
+    await git("add", ".");
+    await git("commit", "--quiet", "-m", "initial");
+    await git("branch", "base");
+    writeFileSync(join(cwd, "c.ts"), "c");
+    await git("add", "c.ts");
+    await git("commit", "--quiet", "-m", "add c");
+
+    writeFileSync(join(cwd, "a.ts"), "a2");
+    writeFileSync(join(cwd, "d.ts"), "d");
+
+    expect(await getChangedFiles(cwd)).toEqual(["a.ts", "d.ts"]);
+    expect(await getChangedFiles(cwd, "base")).toEqual(["a.ts", "c.ts", "d.ts"]);
+  });
+});
@@ -0,0 +1,62 @@
+/**
+ * Git utilities for computing changed file sets
+ */
+
+import { execCommand } from "./process";
+
+/**
+ * Run a git command in cwd and return its stdout lines.
+ * Throws when git is missing, cwd is not a repository, or the command fails.
+ */
+async function runGit(cwd: string, args: string[]): Promise<string[]> {
+  const result = await execCommand("git", args, { cwd });
+  if (result.exitCode !== 0) {
+    const detail = result.stderr.trim() || `exit code ${result.exitCode}`;
+    throw new Error(`git ${args.join(" ")} failed: ${detail}`);
+  }
+  return result.stdout
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Whether the repository has a commit checked out (false right after `git init`)
+ */
+async function hasHead(cwd: string): Promise<boolean> {
+  const result = await execCommand("git", ["rev-parse", "--verify", "--quiet", "HEAD"], { cwd });
+  return result.exitCode === 0;
+}
+
+function unique(files: string[]): string[] {
+  return Array.from(new Set(files)).sort();
+}
+
+/**
+ * Files staged for the next commit (added, copied, modified or renamed), relative to cwd
+ */
+export async function getStagedFiles(cwd: string): Promise<string[]> {
+  return unique(await runGit(cwd, ["diff", "--cached", "--name-only", "--relative", "--diff-filter=ACMR"]));
+}
+
+/**
+ * Files changed in the working tree, relative to cwd.
+ * Without a base ref this is everything not yet committed (staged, unstaged and untracked).
+ * With a base ref it also includes files committed since the merge base of `baseRef` and HEAD.
+ */
+export async function getChangedFiles(cwd: string, baseRef?: string): Promise<string[]> {
+  const diffArgs = ["--name-only", "--relative", "--diff-filter=ACMR"];
+  // A repository without commits has no HEAD to diff against: every tracked file is staged or unstaged
+  const tracked = (await hasHead(cwd))
+    ? await runGit(cwd, ["diff", "HEAD", ...diffArgs])
+    : [...(await runGit(cwd, ["diff", "--cached", ...diffArgs])), ...(await runGit(cwd, ["diff", ...diffArgs]))];
+  const files = [...tracked, ...(await runGit(cwd, ["ls-files", "--others", "--exclude-standard"]))];
+
+  if (baseRef) {
+    files.push(
+      ...(await runGit(cwd, ["diff", `${baseRef}...HEAD`, ...diffArgs]))
+    );
+  }
+
+  return unique(files);
+}
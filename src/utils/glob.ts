@@ -4,11 +4,13 @@
 
 import { readdirSync, type Dirent } from "node:fs";
 import { join, relative } from "node:path";
+import type { IgnoreMatcher } from "./ignore";
 
 export interface GlobOptions {
   cwd?: string;
   ignore?: string[];
   absolute?: boolean;
+  isIgnored?: IgnoreMatcher; // Ignore-file matcher (e.g. .gitignore), applied to files and directories
 }
 
 /**
@@ -33,6 +35,29 @@ function expandBraces(pattern: string): string[] {
   return expanded;
 }
 
+/**
+ * Match a string against a single-segment glob pattern
+ */
+function matchPattern(str: string, pat: string): boolean {
+  // Convert glob pattern to regex
+  const regexStr = pat.replace(/\./g, "\\.").replace(/\*/g, "[^/]*").replace(/\?/g, ".");
+  const regex = new RegExp(`^${regexStr}$`);
+  return regex.test(str);
+}
+
+/**
+ * Check a path (relative to cwd) against exclude patterns, the way globSync applies `ignore`:
+ * patterns with "*" are matched as globs, plain patterns as path prefixes
+ */
+export function isExcludedPath(relativePath: string, ignore: string[]): boolean {
+  return ignore.some((ignorePat) => {
+    if (ignorePat.includes("*")) {
+      return matchPattern(relativePath, ignorePat);
+    }
+    return relativePath.startsWith(ignorePat);
+  });
+}
+
 /**
  * Simple synchronous glob implementation
  * Supports patterns like: *.ts, **\/*.tsx, src/**\/*
@@ -50,18 +75,11 @@ export function globSync(pattern: string, options: GlobOptions = {}): string[] {
     }
     return Array.from(allResults).sort();
   }
-  const { cwd = process.cwd(), ignore = [], absolute = false } = options;
+  const { cwd = process.cwd(), ignore = [], absolute = false, isIgnored } = options;
 
   const results: string[] = [];
   const parts = pattern.split("/");
 
-  function matchPattern(str: string, pat: string): boolean {
-    // Convert glob pattern to regex
-    const regexStr = pat.replace(/\./g, "\\.").replace(/\*/g, "[^/]*").replace(/\?/g, ".");
-    const regex = new RegExp(`^${regexStr}$`);
-    return regex.test(str);
-  }
-
   function walk(dir: string, patternParts: string[], depth: number): void {
     if (patternParts.length === 0) {
       return;
@@ -88,6 +106,7 @@ export function globSync(pattern: string, options: GlobOptions = {}): string[] {
       for (const entry of entries) {
         if (entry.isDirectory()) {
           const subdir = join(dir, entry.name);
+          if (isIgnored?.(relative(cwd, subdir), true)) continue;
           walk(subdir, patternParts, depth + 1);
         }
       }
@@ -111,14 +130,7 @@ export function globSync(pattern: string, options: GlobOptions = {}): string[] {
       const relativePath = relative(cwd, fullPath);
 
       // Check ignore patterns
-      const shouldIgnore = ignore.some((ignorePat) => {
-        if (ignorePat.includes("*")) {
-          return matchPattern(relativePath, ignorePat);
-        }
-        return relativePath.startsWith(ignorePat);
-      });
-
-      if (shouldIgnore) {
+      if (isExcludedPath(relativePath, ignore) || isIgnored?.(relativePath, entry.isDirectory())) {
         continue;
       }
 
@@ -147,6 +159,11 @@ export function globSync(pattern: string, options: GlobOptions = {}): string[] {
  * Match a single file path against a glob pattern
  */
 export function matchGlob(filePath: string, pattern: string): boolean {
+  const patterns = expandBraces(pattern);
+  if (patterns.length > 1) {
+    return patterns.some((p) => matchGlob(filePath, p));
+  }
+
   const patternParts = pattern.split("/").filter((p) => p !== ".");
   const pathParts = filePath.split("/").filter((p) => p !== ".");
 
@@ -188,10 +205,39 @@ export function matchGlob(filePath: string, pattern: string): boolean {
   return pi === patternParts.length && fi === pathParts.length;
 }
 
+/**
+ * Compile a glob pattern into a matcher with the same semantics as matchGlob,
+ * for matching one pattern against many paths
+ */
+export function compileGlob(pattern: string): (filePath: string) => boolean {
+  const regexes = expandBraces(pattern).map((expanded) => {
+    const parts = expanded.split("/").filter((p) => p !== ".");
+    let source = "";
+
+    parts.forEach((part, index) => {
+      const isLast = index === parts.length - 1;
+      if (part === "**") {
+        // Trailing ** needs at least one more segment; elsewhere it matches zero or more
+        source += isLast ? ".+" : "(?:[^/]+/)*";
+        return;
+      }
+      const segment = part.replace(/\./g, "\\.").replace(/\*/g, "[^/]*").replace(/\?/g, "[^/]");
+      source += `(?:${segment})` + (isLast ? "" : "/");
+    });
+
+    return new RegExp(`^${source}$`);
+  });
+
+  return (filePath) => {
+    const normalized = filePath.split("/").filter((p) => p !== ".").join("/");
+    return regexes.some((regex) => regex.test(normalized));
+  };
+}
+
 /**
  * Get all files in a directory recursively
  */
-export function getAllFiles(dir: string, ignore: string[] = []): string[] {
+export function getAllFiles(dir: string, ignore: string[] = [], isIgnored?: IgnoreMatcher): string[] {
   const results: string[] = [];
 
   function walk(currentDir: string): void {
@@ -211,7 +257,7 @@ export function getAllFiles(dir: string, ignore: string[] = []): string[] {
         return relativePath.startsWith(ignorePat) || entry.name === ignorePat;
       });
 
-      if (shouldIgnore) {
+      if (shouldIgnore || isIgnored?.(relativePath, entry.isDirectory())) {
         continue;
       }
 
@@ -0,0 +1,60 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { createIgnoreMatcher } from "./ignore";
+import { globSync } from "./glob";
+
+let cwd: string;
+
+beforeEach(() => {
+  cwd = mkdtempSync(join(tmpdir(), "chaperone-ignore-"));
+});
+
+afterEach(() => {
+  rmSync(cwd, { recursive: true, force: true });
+});
+
+describe("createIgnoreMatcher", () => {
+  test("supports negation, anchors and directory-only patterns", () => {
+    writeFileSync(join(cwd, ".gitignore"), "*.log\n!keep.log\n/build\ncache/\n# comment\n");
+    const isIgnored = createIgnoreMatcher(cwd, { nested: ".gitignore" });
+
+    expect(isIgnored("debug.log", false)).toBe(true);
+    expect(isIgnored("src/debug.log", false)).toBe(true);
+    expect(isIgnored("keep.log", false)).toBe(false);
+    expect(isIgnored("build", true)).toBe(true);
+    expect(isIgnored("src/build", true)).toBe(false);
+    expect(isIgnored("src/cache", true)).toBe(true);
+    expect(isIgnored("src/cache", false)).toBe(false);
+  });
+
+  test("applies nested .gitignore files relative to their directory", () => {
+    mkdirSync(join(cwd, "pkg/gen"), { recursive: true });
+    writeFileSync(join(cwd, ".gitignore"), "*.tmp\n");
+    writeFileSync(join(cwd, "pkg/.gitignore"), "/gen\n!important.tmp\n");
+    const isIgnored = createIgnoreMatcher(cwd, { nested: ".gitignore" });
+
+    expect(isIgnored("pkg/gen/a.ts", false)).toBe(true);
+    expect(isIgnored("gen/a.ts", false)).toBe(false);
+    expect(isIgnored("pkg/important.tmp", false)).toBe(false);
+    expect(isIgnored("other.tmp", false)).toBe(true);
+  });
+
+  test("cannot re-include files inside an ignored directory", () => {
+    writeFileSync(join(cwd, ".gitignore"), "dist/\n!dist/keep.js\n");
+    const isIgnored = createIgnoreMatcher(cwd, { nested: ".gitignore" });
+
+    expect(isIgnored("dist/keep.js", false)).toBe(true);
+  });
+
+  test("prunes ignored paths from globSync", () => {
+    mkdirSync(join(cwd, "src/generated"), { recursive: true });
+    writeFileSync(join(cwd, "src/index.ts"), "");
+    writeFileSync(join(cwd, "src/generated/api.ts"), "");
+    writeFileSync(join(cwd, ".eslintignore"), "src/generated\n");
+    const isIgnored = createIgnoreMatcher(cwd, { files: [".eslintignore"] });
+
+    expect(globSync("src/**/*.ts", { cwd, isIgnored })).toEqual(["src/index.ts"]);
+  });
+});
@@ -0,0 +1,235 @@
+/**
+ * Ignore-file utilities (.gitignore syntax)
+ */
+
+import { readFileSync } from "node:fs";
+import { join, posix } from "node:path";
+
+export interface IgnoreRule {
+  pattern: string; // Original pattern text (without negation prefix)
+  regex: RegExp; // Matches paths relative to `base`
+  negated: boolean; // `!pattern` re-includes a previously ignored path
+  directoryOnly: boolean; // `pattern/` only matches directories
+  base: string; // Directory (relative to cwd, "" for root) the rule was declared in
+}
+
+/**
+ * Returns true when a path (relative to cwd, "/"-separated) should be skipped
+ */
+export type IgnoreMatcher = (path: string, isDirectory: boolean) => boolean;
+
+export interface IgnoreMatcherOptions {
+  files?: string[]; // Ignore files at the project root, e.g. [".eslintignore"]
+  nested?: string; // Ignore file name to also read from every directory, e.g. ".gitignore"
+}
+
+/**
+ * The `integrations` settings that enable ignore files
+ */
+export interface IgnoreIntegrations {
+  respectEslintIgnore?: boolean;
+  respectPrettierIgnore?: boolean;
+  respectGitignore?: boolean;
+}
+
+/**
+ * Ignore files to read for the enabled integrations, or null when none are enabled
+ */
+export function getIgnoreMatcherOptions(integrations: IgnoreIntegrations = {}): IgnoreMatcherOptions | null {
+  const files: string[] = [];
+  if (integrations.respectEslintIgnore) files.push(".eslintignore");
+  if (integrations.respectPrettierIgnore) files.push(".prettierignore");
+
+  const nested = integrations.respectGitignore ? ".gitignore" : undefined;
+  if (files.length === 0 && !nested) return null;
+  return { files, nested };
+}
+
+/**
+ * Convert a gitignore glob into a regex source string
+ */
+function globToRegexSource(glob: string): string {
+  let source = "";
+  let i = 0;
+
+  while (i < glob.length) {
+    const char = glob[i]!;
+
+    if (char === "*") {
+      if (glob[i + 1] === "*") {
+        const atSegmentStart = i === 0 || glob[i - 1] === "/";
+        const atSegmentEnd = i + 2 === glob.length || glob[i + 2] === "/";
+        if (atSegmentStart && atSegmentEnd) {
+          if (i + 2 === glob.length) {
+            source += ".*"; // Trailing "/**" matches everything inside
+            i += 2;
+          } else {
+            source += "(?:.*/)?"; // "**/" matches zero or more directories
+            i += 3;
+          }
+          continue;
+        }
+      }
+      source += "[^/]*";
+      i++;
+      continue;
+    }
+
+    if (char === "?") {
+      source += "[^/]";
+      i++;
+      continue;
+    }
+
+    if (char === "[") {
+      const close = glob.indexOf("]", i + 2);
+      if (close !== -1) {
+        let body = glob.slice(i + 1, close).replace(/\\/g, "\\\\");
+        if (body.startsWith("!")) body = "^" + body.slice(1);
+        source += `[${body}]`;
+        i = close + 1;
+        continue;
+      }
+    }
+
+    if (char === "\\" && i + 1 < glob.length) {
+      source += glob[i + 1]!.replace(/[.*+?^${}()|[\]\\/]/g, "\\$&");
+      i += 2;
+      continue;
+    }
+
+    source += char.replace(/[.*+?^${}()|[\]\\/]/g, "\\$&");
+    i++;
+  }
+
+  return source;
+}
+
+/**
+ * Parse the contents of a gitignore-syntax file.
+ * `base` is the directory the file lives in, relative to cwd ("" for the root).
+ */
+export function parseIgnoreFile(content: string, base = ""): IgnoreRule[] {
+  const rules: IgnoreRule[] = [];
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    // Trailing spaces are ignored unless escaped
+    let line = rawLine.replace(/(?<!\\)\s+$/, "");
+    if (line === "" || line.startsWith("#")) continue;
+
+    let negated = false;
+    if (line.startsWith("!")) {
+      negated = true;
+      line = line.slice(1);
+    } else if (line.startsWith("\\!") || line.startsWith("\\#")) {
+      line = line.slice(1);
+    }
+
+    let directoryOnly = false;
+    if (line.endsWith("/")) {
+      directoryOnly = true;
+      line = line.slice(0, -1);
+    }
+    if (line === "") continue;
+
+    // A slash at the start or middle anchors the pattern to `base`;
+    // otherwise it matches at any depth
+    const anchored = line.includes("/");
+    const body = line.startsWith("/") ? line.slice(1) : line;
+    const prefix = anchored ? "" : "(?:.*/)?";
+
+    rules.push({
+      pattern: line,
+      regex: new RegExp(`^${prefix}${globToRegexSource(body)}$`),
+      negated,
+      directoryOnly,
+      base,
+    });
+  }
+
+  return rules;
+}
+
+/**
+ * Evaluate rules against a single path. Later rules override earlier ones.
+ * Returns undefined when no rule matches.
+ */
+function evaluate(rules: IgnoreRule[], path: string, isDirectory: boolean): boolean | undefined {
+  let ignored: boolean | undefined;
+
+  for (const rule of rules) {
+    if (rule.directoryOnly && !isDirectory) continue;
+
+    let target = path;
+    if (rule.base) {
+      if (!path.startsWith(rule.base + "/")) continue;
+      target = path.slice(rule.base.length + 1);
+    }
+
+    if (rule.regex.test(target)) {
+      ignored = !rule.negated;
+    }
+  }
+
+  return ignored;
+}
+
+function readRules(cwd: string, file: string, base: string): IgnoreRule[] {
+  try {
+    return parseIgnoreFile(readFileSync(join(cwd, file), "utf-8"), base);
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Create a matcher from ignore files on disk.
+ * Root files are read once; nested files are read lazily per directory and cached.
+ * As in git, a path inside an ignored directory cannot be re-included.
+ */
+export function createIgnoreMatcher(cwd: string, options: IgnoreMatcherOptions): IgnoreMatcher {
+  const rootRules: IgnoreRule[] = [];
+  for (const file of options.files ?? []) {
+    rootRules.push(...readRules(cwd, file, ""));
+  }
+
+  const nestedRules = new Map<string, IgnoreRule[]>();
+  const rulesFor = (dir: string): IgnoreRule[] => {
+    if (!options.nested) return [];
+    let rules = nestedRules.get(dir);
+    if (!rules) {
+      rules = readRules(cwd, dir ? posix.join(dir, options.nested) : options.nested, dir);
+      nestedRules.set(dir, rules);
+    }
+    return rules;
+  };
+
+  const results = new Map<string, boolean>();
+
+  const matcher: IgnoreMatcher = (path, isDirectory) => {
+    const normalized = path.split("\\").join("/").replace(/\/+$/, "");
+    const key = `${isDirectory ? "d" : "f"}:${normalized}`;
+    const cached = results.get(key);
+    if (cached !== undefined) return cached;
+
+    const segments = normalized.split("/");
+    const parent = segments.slice(0, -1).join("/");
+
+    let ignored = false;
+    if (parent && matcher(parent, true)) {
+      ignored = true;
+    } else {
+      // Applicable rules, from least to most specific: root files, then each ancestor's nested file
+      const rules = [...rootRules];
+      for (let depth = 0; depth < segments.length; depth++) {
+        rules.push(...rulesFor(segments.slice(0, depth).join("/")));
+      }
+      ignored = evaluate(rules, normalized, isDirectory) ?? false;
+    }
+
+    results.set(key, ignored);
+    return ignored;
+  };
+
+  return matcher;
+}
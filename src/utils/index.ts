@@ -3,3 +3,8 @@ export * from "./process";
 export * from "./glob";
 export * from "./clipboard";
 export * from "./spinner";
+export * from "./jsonc";
+export * from "./ignore";
+export * from "./git";
+export * from "./concurrency";
+export * from "./workspaces";
@@ -0,0 +1,93 @@
+/**
+ * JSONC (JSON with comments) utilities
+ */
+
+/**
+ * Strip comments and trailing commas so JSONC content can be handed to JSON.parse.
+ * String literals are preserved verbatim, including any "//" they contain.
+ */
+export function stripJsonComments(content: string): string {
+  let output = "";
+  let i = 0;
+
+  while (i < content.length) {
+    const char = content[i]!;
+    const next = content[i + 1];
+
+    // String literal: copy through, honoring escapes
+    if (char === '"') {
+      let j = i + 1;
+      while (j < content.length && content[j] !== '"') {
+        j += content[j] === "\\" ? 2 : 1;
+      }
+      output += content.slice(i, j + 1);
+      i = j + 1;
+      continue;
+    }
+
+    // Line comment
+    if (char === "/" && next === "/") {
+      while (i < content.length && content[i] !== "\n") i++;
+      continue;
+    }
+
+    // Block comment (keep newlines so error positions stay meaningful)
+    if (char === "/" && next === "*") {
+      i += 2;
+      while (i < content.length && !(content[i] === "*" && content[i + 1] === "/")) {
+        if (content[i] === "\n") output += "\n";
+        i++;
+      }
+      i += 2;
+      continue;
+    }
+
+    output += char;
+    i++;
+  }
+
+  return stripTrailingCommas(output);
+}
+
+/**
+ * Remove commas that directly precede a closing bracket, outside of strings
+ */
+function stripTrailingCommas(content: string): string {
+  let output = "";
+  let i = 0;
+
+  while (i < content.length) {
+    const char = content[i]!;
+
+    if (char === '"') {
+      let j = i + 1;
+      while (j < content.length && content[j] !== '"') {
+        j += content[j] === "\\" ? 2 : 1;
+      }
+      output += content.slice(i, j + 1);
+      i = j + 1;
+      continue;
+    }
+
+    if (char === ",") {
+      let j = i + 1;
+      while (j < content.length && /\s/.test(content[j]!)) j++;
+      if (content[j] === "}" || content[j] === "]") {
+        i++;
+        continue;
+      }
+    }
+
+    output += char;
+    i++;
+  }
+
+  return output;
+}
+
+/**
+ * Parse a JSONC string
+ */
+export function parseJsonc<T>(content: string): T {
+  return JSON.parse(stripJsonComments(content)) as T;
+}
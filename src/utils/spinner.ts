@@ -62,10 +62,10 @@ export function createSpinner(initialText = ""): Spinner {
 
     stop() {
       isSpinning = false;
-      if (interval) {
-        clearInterval(interval);
-        interval = null;
-      }
+      // Nothing was drawn; keep stdout clean for machine-readable formats
+      if (!interval) return;
+      clearInterval(interval);
+      interval = null;
       clearLine();
       // Show cursor
       process.stdout.write("\x1b[?25h");
@@ -0,0 +1,45 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { discoverWorkspaces, getWorkspacePatterns } from "./workspaces";
+
+let cwd: string;
+
+beforeEach(() => {
+  cwd = mkdtempSync(join(tmpdir(), "chaperone-workspaces-"));
+});
+
+afterEach(() => {
+  rmSync(cwd, { recursive: true, force: true });
+});
+
+function writePackage(dir: string, manifest: Record<string, unknown>): void {
+  mkdirSync(join(cwd, dir), { recursive: true });
+  writeFileSync(join(cwd, dir, "package.json"), JSON.stringify(manifest));
+}
+
+describe("discoverWorkspaces", () => {
+  test("expands package.json workspaces to directories with a package.json", () => {
+    writePackage(".", { name: "root", workspaces: { packages: ["packages/*", "apps/**"] } });
+    writePackage("packages/core", { name: "@acme/core" });
+    writePackage("apps/web/admin", {});
+    writePackage("apps/web/node_modules/dep", { name: "dep" });
+    mkdirSync(join(cwd, "packages/empty"));
+
+    expect(discoverWorkspaces(cwd)).toEqual([
+      { name: "admin", dir: "apps/web/admin" },
+      { name: "@acme/core", dir: "packages/core" },
+    ]);
+  });
+
+  test("reads pnpm-workspace.yaml and applies negated globs", () => {
+    writePackage(".", { name: "root" });
+    writePackage("packages/a", { name: "a" });
+    writePackage("packages/fixtures", { name: "fixtures" });
+    writeFileSync(join(cwd, "pnpm-workspace.yaml"), "packages:\n  - 'packages/*'\n  - '!packages/fixtures'\n");
+
+    expect(getWorkspacePatterns(cwd)).toEqual(["packages/*", "!packages/fixtures"]);
+    expect(discoverWorkspaces(cwd)).toEqual([{ name: "a", dir: "packages/a" }]);
+  });
+});
@@ -0,0 +1,84 @@
+import { existsSync, readFileSync } from "node:fs";
+import { basename, dirname, join, resolve } from "node:path";
+import { YAML } from "bun";
+import { readJsonFile } from "./fs";
+import { globSync, matchGlob } from "./glob";
+
+/**
+ * A package of a workspace (monorepo)
+ */
+export interface WorkspacePackage {
+  name: string; // "name" from the package's package.json, or its directory name
+  dir: string; // Relative to the workspace root, "/"-separated
+}
+
+interface PackageJson {
+  name?: string;
+  workspaces?: string[] | { packages?: string[] };
+}
+
+/**
+ * Read the workspace globs of a repository: `workspaces` in package.json (npm, Yarn, Bun)
+ * or `packages` in pnpm-workspace.yaml. Returns null when the directory is not a workspace root.
+ */
+export function getWorkspacePatterns(rootDir: string): string[] | null {
+  const pnpmWorkspace = join(rootDir, "pnpm-workspace.yaml");
+  if (existsSync(pnpmWorkspace)) {
+    const parsed = YAML.parse(readFileSync(pnpmWorkspace, "utf-8")) as { packages?: string[] } | null;
+    return parsed?.packages ?? [];
+  }
+
+  const workspaces = readJsonFile<PackageJson>(join(rootDir, "package.json"))?.workspaces;
+  if (!workspaces) return null;
+  return Array.isArray(workspaces) ? workspaces : (workspaces.packages ?? []);
+}
+
+/**
+ * Find the packages of a workspace: directories matching the workspace globs that contain
+ * a package.json. Globs starting with "!" exclude directories. Pass patterns to override
+ * the globs declared by the package manager.
+ */
+export function discoverWorkspaces(rootDir: string, patterns = getWorkspacePatterns(rootDir) ?? []): WorkspacePackage[] {
+  const include = patterns.filter((pattern) => !pattern.startsWith("!")).map(normalizePattern);
+  const exclude = patterns.filter((pattern) => pattern.startsWith("!")).map((pattern) => normalizePattern(pattern.slice(1)));
+  const isIgnored = (path: string) => path.split("/").includes("node_modules");
+
+  const dirs = new Set<string>();
+  for (const pattern of include) {
+    for (const manifest of globSync(`${pattern}/package.json`, { cwd: rootDir, isIgnored })) {
+      const dir = dirname(manifest).split("\\").join("/");
+      if (dir !== "." && !exclude.some((negated) => matchGlob(dir, negated))) {
+        dirs.add(dir);
+      }
+    }
+  }
+
+  return Array.from(dirs)
+    .sort()
+    .map((dir) => ({
+      name: readJsonFile<PackageJson>(join(rootDir, dir, "package.json"))?.name ?? basename(dir),
+      dir,
+    }));
+}
+
+/**
+ * Find the workspace root for cwd: cwd or the nearest parent declaring workspaces,
+ * stopping at the repository root (the directory containing .git)
+ */
+export function findWorkspaceRoot(cwd: string): string | null {
+  for (let dir = resolve(cwd); ; dir = dirname(dir)) {
+    if (getWorkspacePatterns(dir)) return dir;
+    if (existsSync(join(dir, ".git")) || dirname(dir) === dir) return null;
+  }
+}
+
+/**
+ * Name of the workspace root package, used to group results outside of any package
+ */
+export function getRootPackageName(rootDir: string): string {
+  return readJsonFile<PackageJson>(join(rootDir, "package.json"))?.name ?? basename(rootDir);
+}
+
+function normalizePattern(pattern: string): string {
+  return pattern.replace(/^\.\//, "").replace(/\/+$/, "");
+}